@@ -1,14 +1,18 @@
 import { Stack } from 'expo-router';
+import { RoleGate } from '@/components/role-gate';
 
 export default function AdminLayout() {
   return (
-    <Stack
-      screenOptions={{
-        headerShown: true,
-        headerTitle: 'Admin',
-      }}
-    >
-      <Stack.Screen name="index" options={{ headerBackVisible: false }} />
-    </Stack>
+    <RoleGate group="(admin)">
+      <Stack
+        screenOptions={{
+          headerShown: true,
+          headerTitle: 'Admin',
+        }}
+      >
+        <Stack.Screen name="index" options={{ headerBackVisible: false }} />
+        <Stack.Screen name="kiosk" options={{ headerShown: false, gestureEnabled: false }} />
+      </Stack>
+    </RoleGate>
   );
 }
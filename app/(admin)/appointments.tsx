@@ -1,32 +1,76 @@
-import React, { useMemo, useEffect, useState } from 'react';
+import React, { useMemo, useEffect, useRef, useState } from 'react';
 import { Alert, FlatList, Pressable, ScrollView, StyleSheet, View } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { Can } from '@/components/can';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiDelete, apiGet, apiPatch, apiPost } from '@/lib/api';
+import { useSalonHours } from '@/context/salon-hours-context';
 import { Card } from '@/components/ui/card';
 import { FormInput } from '@/components/ui/form-input';
 import { IconButton } from '@/components/ui/icon-button';
+import { OptionPill } from '@/components/ui/option-pill';
 import { PrimaryButton } from '@/components/ui/primary-button';
 import { Section } from '@/components/ui/section';
 import { SearchSelect } from '@/components/ui/search-select';
 import { DateTimeInput } from '@/components/ui/date-time-input';
+import { Draggable, type DropPoint } from '@/components/ui/draggable';
+import { DayTimeline, type TimelineBlock, type TimelineShade } from '@/components/ui/day-timeline';
+import { Hatch } from '@/components/ui/hatch';
+import { useCan } from '@/hooks/use-can';
 import { Palette } from '@/constants/theme';
-import { isWithinSalonHoursForAppointment } from '@/constants/salon-hours';
-
-type Appointment = {
-  _id: string;
-  customer?: { _id?: string; name: string; nameEn?: string };
-  service?: { _id?: string; name: string; nameEn?: string; price?: number; durationMinutes?: number };
-  assignedEmployee?: { _id?: string; displayName?: string; username?: string };
-  scheduledAt: string;
-  status: string;
-};
-
-type Customer = { _id: string; name: string; nameEn?: string; phone?: string };
-type ServiceItem = { _id: string; name: string; nameEn?: string; price?: number; durationMinutes?: number };
-type Employee = { _id: string; displayName?: string; username?: string; role?: string };
+import {
+  DEFAULT_SALON_HOURS,
+  getAppointmentHoursError,
+  getSalonHoursForDate,
+  parseClock,
+} from '@/constants/salon-hours';
+import {
+  canTransition,
+  getStatusLabel,
+  isTerminalStatus,
+  STATUS_COLORS,
+} from '@/lib/appointment-status';
+import {
+  formatServiceNames,
+  getLineEmployeeIds,
+  getServiceLines,
+  getServiceSegments,
+  getTotalMinutes,
+  getTotalPrice,
+  getVisitBuffers,
+  hasUnassignedLines,
+  segmentsConflict,
+} from '@/lib/appointment-services';
+import { rankAssignSuggestions } from '@/lib/assign-suggestions';
+import type {
+  Appointment,
+  AppointmentInput,
+  AppointmentStatus,
+  AppointmentServiceLine,
+  Customer,
+  Employee,
+  EmployeeRef,
+  RecurrenceRule,
+  SeriesScope,
+  ServiceItem,
+  StatusChange,
+  TimeOffRequest,
+  WorkSchedule,
+} from '@/lib/domain';
+import {
+  appointmentsApi,
+  customersApi,
+  servicesApi,
+  usersApi,
+  workSchedulesApi,
+} from '@/lib/resources';
+import { getReliabilityWarning } from '@/lib/customer-reliability';
+import { buildOccurrences } from '@/lib/recurrence';
+import { findShiftGaps } from '@/lib/shift-coverage';
+import { canPerform, getSkillLevel, SKILL_LEVEL_LABEL_KEYS } from '@/lib/skills';
+import { findLeaveConflict, getApprovedLeave, isOnLeave, listLeaveForChecks } from '@/lib/time-off';
+import { getErrorMessage } from '@/lib/api-errors';
 
 type CalendarDay = { date: Date };
 type DayAppointment = {
@@ -35,10 +79,32 @@ type DayAppointment = {
   timeLabel: string;
   customerLabel: string;
   serviceLabel: string;
+  /** Prep before and cleanup after the visit, shown as hatched edges. */
+  hasPrep: boolean;
+  hasCleanup: boolean;
+  /** Left with a technician who swapped the shift away. */
+  flagged: boolean;
+  /** Completed and cancelled visits stay where they are. */
+  locked: boolean;
 };
+type DragSource = { rowId: string; cellKey: string };
+type ServiceLineDraft = { key: number; serviceId: string | null; employeeId: string | null };
+type RepeatEnd = 'count' | 'until';
+type CalendarView = 'week' | 'day';
 
 const PERSON_COL_WIDTH = 96;
 const DAY_COL_WIDTH = 92;
+const NUDGE_MINUTES = 15;
+/** Row and column id for services nobody has been given yet. */
+const UNASSIGNED_ROW = 'unassigned';
+const MAX_SUGGESTIONS = 5;
+/** Status changes made from the front desk; starting and completing work happen elsewhere. */
+const STATUS_ACTIONS: { status: AppointmentStatus; labelKey: string }[] = [
+  { status: 'confirmed', labelKey: 'markConfirmed' },
+  { status: 'arrived', labelKey: 'markArrived' },
+  { status: 'no_show', labelKey: 'markNoShow' },
+  { status: 'cancelled', labelKey: 'cancelAppointment' },
+];
 
 const formatTime24 = (value: Date, locale: string) =>
   value.toLocaleTimeString(locale === 'vi' ? 'vi-VN' : 'en-US', {
@@ -54,6 +120,15 @@ const toDateKey = (value: Date) => {
   return `${year}-${month}-${day}`;
 };
 
+let lineKeySeed = 0;
+const createLineDraft = (
+  serviceId: string | null = null,
+  employeeId: string | null = null,
+): ServiceLineDraft => {
+  lineKeySeed += 1;
+  return { key: lineKeySeed, serviceId, employeeId };
+};
+
 const buildWeekDays = (value: Date): CalendarDay[] => {
   const base = new Date(value);
   const day = base.getDay();
@@ -67,38 +142,66 @@ const buildWeekDays = (value: Date): CalendarDay[] => {
 export default function AppointmentsScreen() {
   const { token } = useAuth();
   const { t, locale } = useI18n();
+  const { hours: salonHours } = useSalonHours();
+  const can = useCan();
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [services, setServices] = useState<ServiceItem[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
+  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const [timeOff, setTimeOff] = useState<TimeOffRequest[]>([]);
   const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
-  const [selectedServiceId, setSelectedServiceId] = useState<string | null>(null);
-  const [selectedEmployeeId, setSelectedEmployeeId] = useState<string | null>(null);
+  const [serviceLines, setServiceLines] = useState<ServiceLineDraft[]>(() => [createLineDraft()]);
   const [scheduledAt, setScheduledAt] = useState(new Date().toISOString());
   const [loading, setLoading] = useState(false);
   const [searchText, setSearchText] = useState('');
   const [showCreate, setShowCreate] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [calendarWeek, setCalendarWeek] = useState(new Date());
+  const [calendarView, setCalendarView] = useState<CalendarView>('week');
   const [filterEmployeeId, setFilterEmployeeId] = useState<string | null>(null);
   const [filterCustomerId, setFilterCustomerId] = useState<string | null>(null);
+  const [dragSource, setDragSource] = useState<DragSource | null>(null);
+  const [nudgingId, setNudgingId] = useState<string | null>(null);
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [repeat, setRepeat] = useState(false);
+  const [intervalWeeks, setIntervalWeeks] = useState('2');
+  const [repeatEnd, setRepeatEnd] = useState<RepeatEnd>('count');
+  const [occurrenceCount, setOccurrenceCount] = useState('6');
+  const [repeatUntil, setRepeatUntil] = useState(new Date().toISOString());
+  const [editScope, setEditScope] = useState<SeriesScope>('this');
+  const [overrideReason, setOverrideReason] = useState('');
+  const rosterGridRef = useRef<View>(null);
+  const rowLayouts = useRef(new Map<string, { y: number; height: number }>());
 
   const load = async () => {
     try {
-      const [appointmentsData, customersData, servicesData, employeesData] =
-        await Promise.all([
-          apiGet<Appointment[]>('/appointments', token),
-          apiGet<Customer[]>('/customers', token),
-          apiGet<ServiceItem[]>('/services', token),
-          apiGet<Employee[]>('/users', token),
-        ]);
+      const [
+        appointmentsData,
+        customersData,
+        servicesData,
+        employeesData,
+        schedulesData,
+        timeOffData,
+      ] = await Promise.all([
+        appointmentsApi.list(token),
+        customersApi.list(token),
+        servicesApi.list(token),
+        usersApi.list(token),
+        workSchedulesApi.list(token),
+        // Receptionists may be refused the leave list; book without leave checks then.
+        listLeaveForChecks(token),
+      ]);
       setAppointments(appointmentsData);
       setCustomers(customersData);
       setServices(servicesData);
-      setEmployees(employeesData.filter((item) => item.role !== 'admin'));
+      setEmployees(employeesData.filter((item) => item.role === 'employee'));
+      setSchedules(schedulesData);
+      setTimeOff(timeOffData);
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -106,91 +209,233 @@ export default function AppointmentsScreen() {
     load();
   }, [token]);
 
+  const draftLines = useMemo<AppointmentServiceLine[]>(
+    () =>
+      serviceLines.map((line) => ({
+        service: services.find((item) => item._id === line.serviceId),
+        assignedEmployee: line.employeeId ? { _id: line.employeeId } : undefined,
+      })),
+    [serviceLines, services],
+  );
+
+  const updateServiceLine = (key: number, patch: Partial<ServiceLineDraft>) => {
+    setServiceLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...patch } : line)));
+  };
+
+  const addServiceLine = () => {
+    // Most visits stay with one technician, so start from the previous line's.
+    setServiceLines((prev) => [...prev, createLineDraft(null, prev[prev.length - 1]?.employeeId ?? null)]);
+  };
+
+  const removeServiceLine = (key: number) => {
+    setServiceLines((prev) => prev.filter((line) => line.key !== key));
+  };
+
+  const moveServiceLineUp = (index: number) => {
+    setServiceLines((prev) => {
+      const next = [...prev];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  /** Checks shared by the form and roster moves; null when the slot is fine. */
+  const getScheduleError = (
+    appointmentId: string | null,
+    start: string,
+    lines: AppointmentServiceLine[],
+  ) => {
+    if (appointmentId) {
+      const existing = appointments.find((item) => item._id === appointmentId);
+      if (existing?.status === 'completed') return t('errorAppointmentCompleted');
+    }
+    const hoursError = getAppointmentHoursError(new Date(start), salonHours, t);
+    if (hoursError) return hoursError;
+    const unqualified = lines.some((line) => {
+      const employee = employees.find((item) => item._id === line.assignedEmployee?._id);
+      return employee ? !canPerform(employee, [line.service?._id]) : false;
+    });
+    if (unqualified) return t('errorEmployeeNotQualified');
+    const targetSegments = getServiceSegments(start, lines);
+    const onLeave = targetSegments.some((segment) =>
+      findLeaveConflict(timeOff, segment.employeeId, segment.busyStart, segment.busyEnd),
+    );
+    if (onLeave) return t('errorEmployeeOnLeave');
+    const conflict = appointments.some((item) => {
+      if (appointmentId && item._id === appointmentId) return false;
+      if (isTerminalStatus(item.status)) return false;
+      return segmentsConflict(
+        targetSegments,
+        getServiceSegments(item.scheduledAt, getServiceLines(item)),
+      );
+    });
+    return conflict ? t('errorScheduleConflict') : null;
+  };
+
+  const getShiftGaps = (start: string, lines: AppointmentServiceLine[]) =>
+    findShiftGaps(getServiceSegments(start, lines), schedules);
+
+  const draftShiftGaps = showCreate ? getShiftGaps(scheduledAt, draftLines) : [];
+
+  const recurrenceRule: RecurrenceRule = {
+    intervalWeeks: Number(intervalWeeks),
+    ...(repeatEnd === 'count' ? { count: Number(occurrenceCount) } : { until: repeatUntil }),
+  };
+
+  const occurrencePreview =
+    repeat && !editingId
+      ? buildOccurrences(scheduledAt, recurrenceRule).map((at) => ({
+          at,
+          error:
+            getScheduleError(null, at, draftLines) ??
+            (getShiftGaps(at, draftLines).length ? t('errorOutsideShift') : null),
+        }))
+      : [];
+
+  const editingAppointment = editingId
+    ? appointments.find((item) => item._id === editingId)
+    : undefined;
+
+  const resetForm = () => {
+    setSelectedCustomerId(null);
+    setServiceLines([createLineDraft()]);
+    setScheduledAt(new Date().toISOString());
+    setEditingId(null);
+    setRepeat(false);
+    setEditScope('this');
+    setOverrideReason('');
+  };
+
+  const createSeries = async (
+    body: { customerId: string; services: AppointmentInput['services'] },
+    occurrences: string[],
+  ) => {
+    setError(null);
+    setLoading(true);
+    try {
+      const created = await appointmentsApi.createSeries(
+        { ...body, recurrence: recurrenceRule, occurrences },
+        token,
+      );
+      resetForm();
+      await load();
+      setShowCreate(false);
+      Alert.alert(
+        t('successTitle'),
+        t('seriesCreated').replace('{n}', String(created.length)),
+      );
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateSeries = (body: {
+    customerId: string;
+    services: AppointmentInput['services'];
+  }) => {
+    if (!Number.isInteger(recurrenceRule.intervalWeeks) || occurrencePreview.length < 2) {
+      setError(t('errorRecurrenceInvalid'));
+      return;
+    }
+    const clear = occurrencePreview.filter((item) => !item.error).map((item) => item.at);
+    if (clear.length === 0) {
+      setError(t('errorRecurrenceNoFreeDates'));
+      return;
+    }
+    const skipped = occurrencePreview.length - clear.length;
+    if (skipped === 0) {
+      createSeries(body, clear);
+      return;
+    }
+    Alert.alert(
+      t('createAppointment'),
+      t('seriesSkipConfirm')
+        .replace('{skipped}', String(skipped))
+        .replace('{total}', String(occurrencePreview.length)),
+      [
+        { text: t('close'), style: 'cancel' },
+        { text: t('createAppointment'), onPress: () => createSeries(body, clear) },
+      ],
+    );
+  };
+
   const handleCreate = async () => {
-    if (!selectedCustomerId || !selectedServiceId || !scheduledAt) {
+    const serviceInputs = serviceLines.flatMap((line) =>
+      line.serviceId
+        ? [{ serviceId: line.serviceId, assignedEmployeeId: line.employeeId ?? undefined }]
+        : [],
+    );
+    if (!selectedCustomerId || !scheduledAt || serviceInputs.length !== serviceLines.length) {
       setError(t('errorAppointmentRequired'));
       return;
     }
-    if (editingId) {
-      const existing = appointments.find((item) => item._id === editingId);
-      if (existing?.status === 'completed') {
-        setError(t('errorAppointmentCompleted'));
-        return;
-      }
-    }
     if (!editingId && new Date(scheduledAt) < new Date()) {
       setError(t('errorAppointmentPast'));
       return;
     }
-    if (!isWithinSalonHoursForAppointment(new Date(scheduledAt))) {
-      setError(t('errorAppointmentOutsideHours'));
+    if (repeat && !editingId) {
+      // Flagged dates are skipped rather than blocking the whole series.
+      handleCreateSeries({ customerId: selectedCustomerId, services: serviceInputs });
       return;
     }
-    const serviceDuration =
-      services.find((item) => item._id === selectedServiceId)?.durationMinutes ?? 60;
-    const targetStart = new Date(scheduledAt);
-    const targetEnd = new Date(
-      targetStart.getTime() + Math.max(serviceDuration, 1) * 60 * 1000,
-    );
-    if (selectedEmployeeId) {
-      const conflict = appointments.some((item) => {
-        if (editingId && item._id === editingId) return false;
-        if (item.assignedEmployee?._id !== selectedEmployeeId) return false;
-        if (item.status === 'completed' || item.status === 'cancelled') return false;
-        const duration =
-          item.service?.durationMinutes && item.service.durationMinutes > 0
-            ? item.service.durationMinutes
-            : 60;
-        const startValue = new Date(item.scheduledAt);
-        const endValue = new Date(startValue.getTime() + duration * 60 * 1000);
-        return startValue < targetEnd && endValue > targetStart;
-      });
-      if (conflict) {
-        setError(t('errorScheduleConflict'));
-        return;
-      }
+    const scheduleError = getScheduleError(editingId, scheduledAt, draftLines);
+    if (scheduleError) {
+      setError(scheduleError);
+      return;
+    }
+    const outsideShift = draftShiftGaps.length > 0;
+    if (outsideShift && !can('appointments:override')) {
+      setError(t('errorOutsideShift'));
+      return;
+    }
+    if (outsideShift && !overrideReason.trim()) {
+      setError(t('errorOverrideReasonRequired'));
+      return;
     }
     const isEditing = Boolean(editingId);
+    const totalPrice = getTotalPrice(draftLines);
     setError(null);
     setLoading(true);
     try {
       if (editingId) {
-        await apiPatch(
-          `/appointments/${editingId}`,
-          {
-            customerId: selectedCustomerId,
-            serviceId: selectedServiceId,
-            assignedEmployeeId: selectedEmployeeId ?? undefined,
-            scheduledAt,
-          },
-          token,
-        );
+        const body = {
+          customerId: selectedCustomerId,
+          services: serviceInputs,
+          scheduledAt,
+          shiftOverrideReason: outsideShift ? overrideReason.trim() : undefined,
+        };
+        // Later occurrences are shifted and checked by the server.
+        if (editingAppointment?.seriesId && editScope === 'following') {
+          await appointmentsApi.updateFollowing(editingId, body, token);
+        } else {
+          await appointmentsApi.update(editingId, body, token);
+        }
       } else {
-        await apiPost(
-          '/appointments',
+        await appointmentsApi.create(
           {
             customerId: selectedCustomerId,
-            serviceId: selectedServiceId,
-            assignedEmployeeId: selectedEmployeeId ?? undefined,
+            services: serviceInputs,
             scheduledAt,
+            shiftOverrideReason: outsideShift ? overrideReason.trim() : undefined,
           },
           token,
         );
       }
-      setSelectedCustomerId(null);
-      setSelectedServiceId(null);
-      setSelectedEmployeeId(null);
-      setScheduledAt(new Date().toISOString());
-      setEditingId(null);
+      resetForm();
       await load();
       if (!isEditing) {
         setShowCreate(false);
-        Alert.alert(t('successTitle'), t('createSuccess'));
+        Alert.alert(
+          t('successTitle'),
+          `${t('createSuccess')}\n${t('totalPrice')}: ${formatMoney(totalPrice)}`,
+        );
       } else {
         Alert.alert(t('successTitle'), t('updateSuccess'));
       }
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     } finally {
       setLoading(false);
     }
@@ -199,11 +444,12 @@ export default function AppointmentsScreen() {
   const handleDelete = async (id: string) => {
     setError(null);
     try {
-      await apiDelete(`/appointments/${id}`, token);
+      await appointmentsApi.remove(id, token);
+      if (detailId === id) setDetailId(null);
       await load();
       Alert.alert(t('successTitle'), t('deleteSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -211,22 +457,32 @@ export default function AppointmentsScreen() {
     setShowCreate(true);
     setEditingId(item._id);
     setSelectedCustomerId(item.customer?._id ?? null);
-    setSelectedServiceId(item.service?._id ?? null);
-    setSelectedEmployeeId(item.assignedEmployee?._id ?? null);
+    setServiceLines(
+      getServiceLines(item).map((line) =>
+        createLineDraft(line.service?._id ?? null, line.assignedEmployee?._id ?? null),
+      ),
+    );
     setScheduledAt(item.scheduledAt);
+    setRepeat(false);
+    setEditScope('this');
+    setOverrideReason(item.shiftOverride?.reason ?? '');
   };
 
 
   const filteredAppointments = useMemo(() => {
     const term = searchText.trim().toLowerCase();
     return appointments.filter((item) => {
+      const lines = getServiceLines(item);
       const customerName = (item.customer?.name ?? '').toLowerCase();
       const customerNameEn = (item.customer?.nameEn ?? '').toLowerCase();
-      const serviceName = (item.service?.name ?? '').toLowerCase();
-      const serviceNameEn = (item.service?.nameEn ?? '').toLowerCase();
-      const employeeName = (item.assignedEmployee?.displayName ?? item.assignedEmployee?.username ?? '').toLowerCase();
+      const serviceName = lines.map((line) => line.service?.name ?? '').join(' ').toLowerCase();
+      const serviceNameEn = lines.map((line) => line.service?.nameEn ?? '').join(' ').toLowerCase();
+      const employeeName = lines
+        .map((line) => line.assignedEmployee?.displayName ?? line.assignedEmployee?.username ?? '')
+        .join(' ')
+        .toLowerCase();
       const statusValue = (item.status ?? '').toLowerCase();
-      if (filterEmployeeId && item.assignedEmployee?._id !== filterEmployeeId) {
+      if (filterEmployeeId && !getLineEmployeeIds(lines).includes(filterEmployeeId)) {
         return false;
       }
       if (filterCustomerId && item.customer?._id !== filterCustomerId) {
@@ -271,19 +527,48 @@ export default function AppointmentsScreen() {
 
   const weekDays = useMemo(() => buildWeekDays(calendarWeek), [calendarWeek]);
 
+  const shiftCalendar = (direction: 1 | -1) => {
+    const step = calendarView === 'week' ? 7 : 1;
+    setCalendarWeek(
+      new Date(
+        calendarWeek.getFullYear(),
+        calendarWeek.getMonth(),
+        calendarWeek.getDate() + direction * step,
+      ),
+    );
+  };
+
+  const calendarLabel =
+    calendarView === 'week'
+      ? weekLabel
+      : calendarWeek.toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+          weekday: 'short',
+          day: '2-digit',
+          month: '2-digit',
+        });
+
   const rosterRows = useMemo(() => {
     const list = filterEmployeeId
       ? employees.filter((item) => item._id === filterEmployeeId)
       : employees;
     if (list.length) return list;
-    const map = new Map<string, Employee>();
+    const map = new Map<string, EmployeeRef & { _id: string }>();
     filteredAppointments.forEach((item) => {
-      if (!item.assignedEmployee?._id) return;
-      map.set(item.assignedEmployee._id, item.assignedEmployee);
+      getServiceLines(item).forEach((line) => {
+        const employeeId = line.assignedEmployee?._id;
+        if (!employeeId) return;
+        map.set(employeeId, { ...line.assignedEmployee, _id: employeeId });
+      });
     });
     return Array.from(map.values());
   }, [employees, filterEmployeeId, filteredAppointments]);
 
+  // The unassigned lane is pinned on top so bookings without a technician stay visible.
+  const rosterLanes = useMemo<(EmployeeRef & { _id: string })[]>(
+    () => [{ _id: UNASSIGNED_ROW, displayName: t('unassignedLane') }, ...rosterRows],
+    [rosterRows, t],
+  );
+
   const weekDayKeys = useMemo(() => {
     const keys = new Set<string>();
     weekDays.forEach((day) => keys.add(toDateKey(day.date)));
@@ -296,56 +581,304 @@ export default function AppointmentsScreen() {
       const scheduledDate = new Date(item.scheduledAt);
       const dayKey = toDateKey(scheduledDate);
       if (!weekDayKeys.has(dayKey)) return;
-      const employeeId = item.assignedEmployee?._id ?? 'unassigned';
-      const timeLabel = formatTime24(scheduledDate, locale);
+      const lines = getServiceLines(item);
+      // Each technician on the visit sees the whole combined block in their row.
+      const employeeIds = getLineEmployeeIds(lines);
+      const endDate = new Date(scheduledDate.getTime() + getTotalMinutes(lines) * 60 * 1000);
+      const timeLabel = `${formatTime24(scheduledDate, locale)}-${formatTime24(endDate, locale)}`;
       const customerLabel =
         locale === 'en'
           ? item.customer?.nameEn ?? item.customer?.name ?? t('customerFallback')
           : item.customer?.name ?? item.customer?.nameEn ?? t('customerFallback');
-      const serviceLabel =
-        locale === 'en'
-          ? item.service?.nameEn ?? item.service?.name ?? t('serviceFallback')
-          : item.service?.name ?? item.service?.nameEn ?? t('serviceFallback');
-      const entry: DayAppointment = {
-        id: item._id,
-        employeeId,
-        timeLabel,
-        customerLabel,
-        serviceLabel,
-      };
-      const key = `${employeeId}-${dayKey}`;
-      const list = map.get(key) ?? [];
-      list.push(entry);
-      map.set(key, list);
+      const serviceLabel = formatServiceNames(lines, locale, t('serviceFallback'));
+      const { prepMinutes, cleanupMinutes } = getVisitBuffers(lines);
+      (hasUnassignedLines(lines) ? [...employeeIds, UNASSIGNED_ROW] : employeeIds).forEach((employeeId) => {
+        const entry: DayAppointment = {
+          id: item._id,
+          employeeId,
+          timeLabel,
+          customerLabel,
+          serviceLabel,
+          hasPrep: prepMinutes > 0,
+          hasCleanup: cleanupMinutes > 0,
+          flagged: Boolean(item.needsReassignment),
+          locked: isTerminalStatus(item.status),
+        };
+        const key = `${employeeId}-${dayKey}`;
+        const list = map.get(key) ?? [];
+        list.push(entry);
+        map.set(key, list);
+      });
     });
     return map;
   }, [filteredAppointments, locale, t, weekDayKeys]);
 
+  const timelineHours = useMemo(() => {
+    const window =
+      getSalonHoursForDate(calendarWeek, salonHours) ??
+      DEFAULT_SALON_HOURS.weekly[calendarWeek.getDay()];
+    return {
+      start: window ? parseClock(window.start) : 9 * 60,
+      end: window ? parseClock(window.end) : 18 * 60,
+    };
+  }, [calendarWeek, salonHours]);
+
+  const timelineBlocks = useMemo(() => {
+    const dayKey = toDateKey(calendarWeek);
+    const blocks: TimelineBlock[] = [];
+    filteredAppointments.forEach((item) => {
+      if (item.status === 'cancelled' || item.status === 'no_show') return;
+      if (toDateKey(new Date(item.scheduledAt)) !== dayKey) return;
+      const lines = getServiceLines(item);
+      const customerLabel =
+        locale === 'en'
+          ? item.customer?.nameEn ?? item.customer?.name ?? t('customerFallback')
+          : item.customer?.name ?? item.customer?.nameEn ?? t('customerFallback');
+      const serviceLabel = formatServiceNames(lines, locale, t('serviceFallback'));
+      // Each technician's block covers only their own services.
+      getServiceSegments(item.scheduledAt, lines).forEach((segment) => {
+        blocks.push({
+          id: item._id,
+          columnId: segment.employeeId ?? UNASSIGNED_ROW,
+          start: segment.start,
+          end: segment.end,
+          bufferStart: segment.busyStart,
+          bufferEnd: segment.busyEnd,
+          title: customerLabel,
+          subtitle: `${formatTime24(segment.start, locale)}-${formatTime24(segment.end, locale)} · ${serviceLabel}`,
+          color: STATUS_COLORS[item.status] ?? Palette.slate,
+        });
+      });
+    });
+    return blocks;
+  }, [calendarWeek, filteredAppointments, locale, t]);
+
+  const timelineLeave = useMemo<TimelineShade[]>(() => {
+    const dayStart = new Date(
+      calendarWeek.getFullYear(),
+      calendarWeek.getMonth(),
+      calendarWeek.getDate(),
+    );
+    const dayEnd = new Date(
+      calendarWeek.getFullYear(),
+      calendarWeek.getMonth(),
+      calendarWeek.getDate() + 1,
+    );
+    return getApprovedLeave(timeOff).flatMap((window) =>
+      window.request.employee?._id && window.start < dayEnd && window.end > dayStart
+        ? [{ columnId: window.request.employee._id, start: window.start, end: window.end }]
+        : [],
+    );
+  }, [calendarWeek, timeOff]);
+
+  const handleTimelineGap = (employeeId: string, start: Date) => {
+    resetForm();
+    setServiceLines([createLineDraft(null, employeeId === UNASSIGNED_ROW ? null : employeeId)]);
+    setScheduledAt(start.toISOString());
+    setShowCreate(true);
+  };
+
   const handleAppointmentAction = (appointmentId: string) => {
-    const appointment = appointments.find((item) => item._id === appointmentId);
-    if (!appointment) return;
-    if (appointment.status === 'completed') {
-      Alert.alert(t('appointmentsTitle'), t('errorAppointmentCompleted'), [
+    setDetailId((prev) => (prev === appointmentId ? null : appointmentId));
+  };
+
+  const detailAppointment = detailId
+    ? appointments.find((item) => item._id === detailId)
+    : undefined;
+
+  const assignSuggestions =
+    detailAppointment &&
+    !isTerminalStatus(detailAppointment.status) &&
+    hasUnassignedLines(getServiceLines(detailAppointment))
+      ? rankAssignSuggestions(
+          detailAppointment,
+          employees,
+          appointments,
+          schedules,
+          timeOff,
+        ).slice(
+          0,
+          MAX_SUGGESTIONS,
+        )
+      : [];
+
+  const handleStatusChange = (appointment: Appointment, status: AppointmentStatus) => {
+    if (!canTransition(appointment.status, status)) {
+      setError(t('errorInvalidStatusTransition'));
+      return;
+    }
+    const apply = async () => {
+      setError(null);
+      try {
+        await appointmentsApi.updateStatus(appointment._id, status, token);
+        await load();
+      } catch (err) {
+        setError(getErrorMessage(err, t));
+      }
+    };
+    if (!isTerminalStatus(status)) {
+      apply();
+      return;
+    }
+    if (status === 'cancelled' && appointment.seriesId) {
+      const cancelFollowing = async () => {
+        setError(null);
+        try {
+          await appointmentsApi.cancelFollowing(appointment._id, token);
+          await load();
+        } catch (err) {
+          setError(getErrorMessage(err, t));
+        }
+      };
+      Alert.alert(t('appointmentsTitle'), t('seriesCancelPrompt'), [
         { text: t('close'), style: 'cancel' },
+        { text: t('seriesScopeThis'), style: 'destructive', onPress: apply },
+        { text: t('seriesScopeFollowing'), style: 'destructive', onPress: cancelFollowing },
       ]);
       return;
     }
     Alert.alert(
       t('appointmentsTitle'),
-      `${appointment.customer?.name ?? t('customerFallback')} - ${appointment.service?.name ?? t('serviceFallback')}`,
+      t('statusChangeConfirm').replace('{status}', getStatusLabel(status, t)),
       [
-        { text: t('edit'), onPress: () => handleEdit(appointment) },
-        { text: t('delete'), style: 'destructive', onPress: () => handleDelete(appointment._id) },
         { text: t('close'), style: 'cancel' },
+        { text: getStatusLabel(status, t), style: 'destructive', onPress: apply },
       ],
     );
   };
 
+  const submitMove = async (original: Appointment, body: Partial<AppointmentInput>) => {
+    setMovingId(original._id);
+    try {
+      await appointmentsApi.update(original._id, body, token);
+      await load();
+    } catch (err) {
+      // The roster already shows the new slot; let the user put it back or try again.
+      Alert.alert(
+        t('moveRejectedTitle'),
+        getErrorMessage(err, t),
+        [
+          {
+            text: t('undo'),
+            style: 'cancel',
+            onPress: () =>
+              setAppointments((prev) =>
+                prev.map((item) => (item._id === original._id ? original : item)),
+              ),
+          },
+          { text: t('retry'), onPress: () => submitMove(original, body) },
+        ],
+        { cancelable: false },
+      );
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  const moveAppointment = (
+    appointment: Appointment,
+    nextScheduledAt: string,
+    reassign?: { from: string; to: string },
+  ) => {
+    if (movingId) return;
+    const lines = getServiceLines(appointment);
+    const isMovedLine = (line: AppointmentServiceLine) =>
+      reassign?.from === UNASSIGNED_ROW
+        ? !line.assignedEmployee?._id
+        : line.assignedEmployee?._id === reassign?.from;
+    const movedLines = reassign
+      ? lines.map((line) =>
+          isMovedLine(line)
+            ? {
+                ...line,
+                assignedEmployee: employees.find((item) => item._id === reassign.to) ?? {
+                  _id: reassign.to,
+                },
+              }
+            : line,
+        )
+      : lines;
+    const scheduleError = getScheduleError(appointment._id, nextScheduledAt, movedLines);
+    if (scheduleError) {
+      Alert.alert(t('moveAppointmentTitle'), scheduleError);
+      return;
+    }
+    // Overrides need a reason, so moves outside a shift go through the form.
+    if (getShiftGaps(nextScheduledAt, movedLines).length) {
+      Alert.alert(t('moveAppointmentTitle'), t('errorOutsideShift'));
+      return;
+    }
+    const body: Partial<AppointmentInput> = { scheduledAt: nextScheduledAt };
+    if (reassign) {
+      body.services = movedLines.flatMap((line) =>
+        line.service?._id
+          ? [{ serviceId: line.service._id, assignedEmployeeId: line.assignedEmployee?._id }]
+          : [],
+      );
+    }
+    const moved: Appointment = {
+      ...appointment,
+      scheduledAt: nextScheduledAt,
+      services: movedLines,
+      assignedEmployee: movedLines[0]?.assignedEmployee,
+    };
+    setAppointments((prev) => prev.map((item) => (item._id === appointment._id ? moved : item)));
+    submitMove(appointment, body);
+  };
+
+  const handleRosterDrop = (appointmentId: string, fromEmployeeId: string, point: DropPoint) => {
+    const appointment = appointments.find((item) => item._id === appointmentId);
+    if (!appointment) return;
+    rosterGridRef.current?.measure((_x, _y, _width, _height, gridX, gridY) => {
+      const localX = point.pageX - gridX;
+      const localY = point.pageY - gridY;
+      const dayIndex = Math.floor((localX - PERSON_COL_WIDTH) / DAY_COL_WIDTH);
+      const targetRow = rosterLanes.find((employee) => {
+        const layout = rowLayouts.current.get(employee._id);
+        return layout ? localY >= layout.y && localY < layout.y + layout.height : false;
+      });
+      if (!targetRow || dayIndex < 0 || dayIndex >= weekDays.length) return;
+      // Unassigning happens in the form; dropping on the lane keeps the technician.
+      const toLane = targetRow._id === UNASSIGNED_ROW ? fromEmployeeId : targetRow._id;
+      // Keep the time of day; only the day and technician change on drop.
+      const current = new Date(appointment.scheduledAt);
+      const targetDay = weekDays[dayIndex].date;
+      const next = new Date(
+        targetDay.getFullYear(),
+        targetDay.getMonth(),
+        targetDay.getDate(),
+        current.getHours(),
+        current.getMinutes(),
+      );
+      const sameRow = toLane === fromEmployeeId;
+      if (sameRow && next.getTime() === current.getTime()) return;
+      moveAppointment(
+        appointment,
+        next.toISOString(),
+        sameRow ? undefined : { from: fromEmployeeId, to: toLane },
+      );
+    });
+  };
+
+  const nudgingAppointment = nudgingId
+    ? appointments.find((item) => item._id === nudgingId)
+    : undefined;
+
+  const nudgeAppointment = (deltaMinutes: number) => {
+    if (!nudgingAppointment) return;
+    const start = new Date(nudgingAppointment.scheduledAt).getTime();
+    moveAppointment(
+      nudgingAppointment,
+      new Date(start + deltaMinutes * 60 * 1000).toISOString(),
+    );
+  };
+
   return (
     <ThemedView style={styles.container} lightColor={Palette.background}>
       <FlatList
         data={[]}
         keyExtractor={() => 'appointments'}
+        scrollEnabled={!dragSource}
         ListHeaderComponent={
           <View style={styles.header}>
             <ThemedText type="title">{t('appointmentsTitle')}</ThemedText>
@@ -359,93 +892,307 @@ export default function AppointmentsScreen() {
               <View style={styles.calendarHeader}>
                 <ThemedText type="defaultSemiBold">{t('appointmentsTitle')}</ThemedText>
                 <View style={styles.calendarNav}>
-                  <Pressable
-                    onPress={() =>
-                      setCalendarWeek(
-                        new Date(
-                          calendarWeek.getFullYear(),
-                          calendarWeek.getMonth(),
-                          calendarWeek.getDate() - 7,
-                        ),
-                      )
-                    }
-                    style={styles.navButton}
-                  >
+                  <Pressable onPress={() => shiftCalendar(-1)} style={styles.navButton}>
                     <ThemedText style={styles.navText}>{'<'}</ThemedText>
                   </Pressable>
-                  <ThemedText style={styles.monthText}>{weekLabel}</ThemedText>
-                  <Pressable
-                    onPress={() =>
-                      setCalendarWeek(
-                        new Date(
-                          calendarWeek.getFullYear(),
-                          calendarWeek.getMonth(),
-                          calendarWeek.getDate() + 7,
-                        ),
-                      )
-                    }
-                    style={styles.navButton}
-                  >
+                  <ThemedText style={styles.monthText}>{calendarLabel}</ThemedText>
+                  <Pressable onPress={() => shiftCalendar(1)} style={styles.navButton}>
                     <ThemedText style={styles.navText}>{'>'}</ThemedText>
                   </Pressable>
                 </View>
               </View>
-              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                <View style={styles.rosterGrid}>
-                  <View style={styles.rosterHeaderRow}>
-                    <View style={[styles.rosterCell, styles.personHeader]}>
-                      <ThemedText style={styles.rosterHeaderText}>{t('employee')}</ThemedText>
+              <View style={styles.pillRow}>
+                <OptionPill
+                  label={t('weekView')}
+                  selected={calendarView === 'week'}
+                  onPress={() => setCalendarView('week')}
+                />
+                <OptionPill
+                  label={t('dayView')}
+                  selected={calendarView === 'day'}
+                  onPress={() => setCalendarView('day')}
+                />
+              </View>
+              <Can I="appointments:write">
+                <ThemedText style={styles.hintText}>
+                  {calendarView === 'week' ? t('rosterMoveHint') : t('timelineGapHint')}
+                </ThemedText>
+              </Can>
+              {calendarView === 'day' ? (
+                <DayTimeline
+                  day={calendarWeek}
+                  columns={rosterLanes.map((employee) => ({
+                    id: employee._id,
+                    label: employee.displayName ?? employee.username ?? t('employeeFallback'),
+                  }))}
+                  blocks={timelineBlocks}
+                  shaded={timelineLeave}
+                  startMinute={timelineHours.start}
+                  endMinute={timelineHours.end}
+                  onPressBlock={handleAppointmentAction}
+                  onPressGap={can('appointments:write') ? handleTimelineGap : undefined}
+                />
+              ) : (
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  scrollEnabled={!dragSource}
+                >
+                  <View ref={rosterGridRef} style={styles.rosterGrid}>
+                    <View style={styles.rosterHeaderRow}>
+                      <View style={[styles.rosterCell, styles.personHeader]}>
+                        <ThemedText style={styles.rosterHeaderText}>{t('employee')}</ThemedText>
+                      </View>
+                      {weekDays.map((day, index) => (
+                        <View key={dayLabels[index]} style={[styles.rosterCell, styles.dayHeader]}>
+                          <ThemedText style={styles.rosterHeaderText}>
+                            {dayLabels[index]} {day.date.getDate()}
+                          </ThemedText>
+                        </View>
+                      ))}
                     </View>
-                    {weekDays.map((day, index) => (
-                      <View key={dayLabels[index]} style={[styles.rosterCell, styles.dayHeader]}>
-                        <ThemedText style={styles.rosterHeaderText}>
-                          {dayLabels[index]} {day.date.getDate()}
-                        </ThemedText>
+                    {rosterLanes.map((employee) => (
+                      <View
+                        key={employee._id}
+                        style={[
+                          styles.rosterRow,
+                          employee._id === UNASSIGNED_ROW && styles.unassignedRow,
+                          dragSource?.rowId === employee._id && styles.dragLayer,
+                        ]}
+                        onLayout={(event) =>
+                          rowLayouts.current.set(employee._id, {
+                            y: event.nativeEvent.layout.y,
+                            height: event.nativeEvent.layout.height,
+                          })
+                        }
+                      >
+                        <View style={[styles.rosterCell, styles.personCell]}>
+                          <ThemedText style={styles.personText} numberOfLines={1}>
+                            {employee.displayName ?? employee.username ?? t('employeeFallback')}
+                          </ThemedText>
+                        </View>
+                        {weekDays.map((day) => {
+                          const dayKey = toDateKey(day.date);
+                          const cellKey = `${employee._id}-${dayKey}`;
+                          const dayAppointments = rosterMap.get(cellKey) ?? [];
+                          return (
+                            <View
+                              key={cellKey}
+                              style={[
+                                styles.rosterCell,
+                                styles.shiftCell,
+                                isOnLeave(timeOff, employee._id, day.date) && styles.leaveCell,
+                                dragSource?.cellKey === cellKey && styles.dragLayer,
+                              ]}
+                            >
+                              {dayAppointments.length === 0 ? null : (
+                                <View style={styles.shiftStack}>
+                                  {dayAppointments.map((appointment) => {
+                                    const movable =
+                                      !appointment.locked && can('appointments:write');
+                                    return (
+                                      <Draggable
+                                        key={appointment.id}
+                                        disabled={!movable}
+                                        onDragStart={() =>
+                                          setDragSource({ rowId: employee._id, cellKey })
+                                        }
+                                        onDragEnd={() => setDragSource(null)}
+                                        onDrop={(point) =>
+                                          handleRosterDrop(appointment.id, employee._id, point)
+                                        }
+                                      >
+                                        <Pressable
+                                          onPress={() => handleAppointmentAction(appointment.id)}
+                                          onLongPress={
+                                            movable ? () => setNudgingId(appointment.id) : undefined
+                                          }
+                                          style={[
+                                            styles.shiftPill,
+                                            movable && styles.shiftPillMovable,
+                                            appointment.flagged && styles.shiftPillFlagged,
+                                            nudgingId === appointment.id && styles.shiftPillActive,
+                                          ]}
+                                        >
+                                          {appointment.hasPrep && (
+                                            <Hatch
+                                              color={Palette.accentPurple}
+                                              style={[
+                                                styles.pillBuffer,
+                                                styles.pillBufferTop,
+                                                movable && styles.pillBufferMovable,
+                                              ]}
+                                            />
+                                          )}
+                                          <ThemedText style={styles.shiftTime}>
+                                            {appointment.timeLabel}
+                                          </ThemedText>
+                                          <ThemedText style={styles.shiftMeta} numberOfLines={1}>
+                                            {appointment.customerLabel}
+                                          </ThemedText>
+                                          <ThemedText style={styles.shiftMeta} numberOfLines={1}>
+                                            {appointment.serviceLabel}
+                                          </ThemedText>
+                                          {appointment.hasCleanup && (
+                                            <Hatch
+                                              color={Palette.accentPurple}
+                                              style={[
+                                                styles.pillBuffer,
+                                                styles.pillBufferBottom,
+                                                movable && styles.pillBufferMovable,
+                                              ]}
+                                            />
+                                          )}
+                                        </Pressable>
+                                      </Draggable>
+                                    );
+                                  })}
+                                </View>
+                              )}
+                            </View>
+                          );
+                        })}
                       </View>
                     ))}
                   </View>
-                  {rosterRows.map((employee) => (
-                    <View key={employee._id} style={styles.rosterRow}>
-                      <View style={[styles.rosterCell, styles.personCell]}>
-                        <ThemedText style={styles.personText} numberOfLines={1}>
-                          {employee.displayName ?? employee.username ?? t('employeeFallback')}
-                        </ThemedText>
-                      </View>
-                      {weekDays.map((day) => {
-                        const dayKey = toDateKey(day.date);
-                        const cellKey = `${employee._id}-${dayKey}`;
-                        const dayAppointments = rosterMap.get(cellKey) ?? [];
-                        return (
-                          <View key={cellKey} style={[styles.rosterCell, styles.shiftCell]}>
-                            {dayAppointments.length === 0 ? null : (
-                              <View style={styles.shiftStack}>
-                                {dayAppointments.map((appointment) => (
-                                  <Pressable
-                                    key={appointment.id}
-                                    onPress={() => handleAppointmentAction(appointment.id)}
-                                    style={styles.shiftPill}
-                                  >
-                                    <ThemedText style={styles.shiftTime}>
-                                      {appointment.timeLabel}
-                                    </ThemedText>
-                                    <ThemedText style={styles.shiftMeta} numberOfLines={1}>
-                                      {appointment.customerLabel}
-                                    </ThemedText>
-                                    <ThemedText style={styles.shiftMeta} numberOfLines={1}>
-                                      {appointment.serviceLabel}
-                                    </ThemedText>
-                                  </Pressable>
-                                ))}
-                              </View>
-                            )}
-                          </View>
-                        );
-                      })}
-                    </View>
-                  ))}
+                </ScrollView>
+              )}
+              {nudgingAppointment && (
+                <View style={styles.nudgeBar}>
+                  <View style={styles.nudgeInfo}>
+                    <ThemedText type="defaultSemiBold">{t('adjustTime')}</ThemedText>
+                    <ThemedText style={styles.hintText} numberOfLines={1}>
+                      {nudgingAppointment.customer?.name ?? t('customerFallback')} ·{' '}
+                      {formatTime24(new Date(nudgingAppointment.scheduledAt), locale)}
+                    </ThemedText>
+                  </View>
+                  <PrimaryButton
+                    label={t('minutesValue').replace('{n}', `-${NUDGE_MINUTES}`)}
+                    variant="secondary"
+                    disabled={Boolean(movingId)}
+                    onPress={() => nudgeAppointment(-NUDGE_MINUTES)}
+                  />
+                  <PrimaryButton
+                    label={t('minutesValue').replace('{n}', `+${NUDGE_MINUTES}`)}
+                    variant="secondary"
+                    disabled={Boolean(movingId)}
+                    onPress={() => nudgeAppointment(NUDGE_MINUTES)}
+                  />
+                  <IconButton icon="close" onPress={() => setNudgingId(null)} />
                 </View>
-              </ScrollView>
+              )}
             </View>
+            {detailAppointment && (
+              <Section title={t('appointmentDetail')}>
+                <View style={styles.detailHeader}>
+                  <ThemedText type="defaultSemiBold" style={styles.detailTitle}>
+                    {(locale === 'en'
+                      ? detailAppointment.customer?.nameEn ?? detailAppointment.customer?.name
+                      : detailAppointment.customer?.name) ?? t('customerFallback')}{' '}
+                    -{' '}
+                    {formatServiceNames(
+                      getServiceLines(detailAppointment),
+                      locale,
+                      t('serviceFallback'),
+                    )}
+                  </ThemedText>
+                  <IconButton icon="close" onPress={() => setDetailId(null)} />
+                </View>
+                <ThemedText>
+                  {t('time')}: {new Date(detailAppointment.scheduledAt).toLocaleString()}
+                </ThemedText>
+                {detailAppointment.seriesId && (
+                  <ThemedText style={styles.hintText}>{t('seriesMember')}</ThemedText>
+                )}
+                {detailAppointment.needsReassignment && (
+                  <ThemedText style={styles.flaggedText}>{t('needsReassignmentHint')}</ThemedText>
+                )}
+                {detailAppointment.shiftOverride && (
+                  <ThemedText style={styles.overrideText}>
+                    {t('shiftOverrideNote')}: {detailAppointment.shiftOverride.reason}
+                  </ThemedText>
+                )}
+                <View style={styles.statusRow}>
+                  <ThemedText>{t('status')}:</ThemedText>
+                  <StatusBadge
+                    status={detailAppointment.status}
+                    label={getStatusLabel(detailAppointment.status, t)}
+                  />
+                </View>
+                <Can I="appointments:write">
+                  <View style={styles.detailActions}>
+                    {STATUS_ACTIONS.filter((action) =>
+                      canTransition(detailAppointment.status, action.status),
+                    ).map((action) => (
+                      <PrimaryButton
+                        key={action.status}
+                        label={t(action.labelKey)}
+                        variant={isTerminalStatus(action.status) ? 'danger' : 'secondary'}
+                        onPress={() => handleStatusChange(detailAppointment, action.status)}
+                      />
+                    ))}
+                    {detailAppointment.status !== 'completed' && (
+                      <>
+                        <PrimaryButton
+                          label={t('edit')}
+                          onPress={() => handleEdit(detailAppointment)}
+                        />
+                        <PrimaryButton
+                          label={t('delete')}
+                          variant="danger"
+                          onPress={() => handleDelete(detailAppointment._id)}
+                        />
+                      </>
+                    )}
+                  </View>
+                  {assignSuggestions.length > 0 && (
+                    <View style={styles.suggestionList}>
+                      <ThemedText type="defaultSemiBold">{t('assignSuggestions')}</ThemedText>
+                      {assignSuggestions.map((suggestion) => (
+                        <View key={suggestion.employee._id} style={styles.suggestionRow}>
+                          <View style={styles.suggestionInfo}>
+                            <ThemedText numberOfLines={1}>
+                              {suggestion.employee.displayName ??
+                                suggestion.employee.username ??
+                                t('employeeFallback')}
+                            </ThemedText>
+                            <ThemedText style={styles.hintText}>
+                              {suggestion.available ? t('suggestionFree') : t('suggestionBusy')}
+                              {suggestion.level
+                                ? ` · ${t(SKILL_LEVEL_LABEL_KEYS[suggestion.level])}`
+                                : ''}
+                              {' · '}
+                              {t('bookedToday').replace(
+                                '{n}',
+                                String(Math.round(suggestion.bookedMinutes)),
+                              )}
+                            </ThemedText>
+                          </View>
+                          <PrimaryButton
+                            label={t('assign')}
+                            variant={suggestion.available ? 'primary' : 'secondary'}
+                            disabled={!suggestion.available || Boolean(movingId)}
+                            onPress={() =>
+                              moveAppointment(detailAppointment, detailAppointment.scheduledAt, {
+                                from: UNASSIGNED_ROW,
+                                to: suggestion.employee._id,
+                              })
+                            }
+                          />
+                        </View>
+                      ))}
+                    </View>
+                  )}
+                </Can>
+                <ThemedText type="defaultSemiBold">{t('statusHistory')}</ThemedText>
+                <StatusTimeline
+                  history={detailAppointment.statusHistory ?? []}
+                  emptyLabel={t('noStatusHistory')}
+                  renderLabel={(status) => getStatusLabel(status, t)}
+                  fallbackActor={t('systemActor')}
+                />
+              </Section>
+            )}
             {showCreate && (
               <Section title={editingId ? t('editAppointment') : t('createAppointment')}>
                 <SearchSelect
@@ -455,59 +1202,227 @@ export default function AppointmentsScreen() {
                     id: customer._id,
                     label: locale === 'en' && customer.nameEn ? customer.nameEn : customer.name,
                     subtitle: customer.phone ? `${t('phone')}: ${customer.phone}` : undefined,
+                    warning: getReliabilityWarning(customer, t) ?? undefined,
                   }))}
                   selectedId={selectedCustomerId}
                   onSelect={(item) => setSelectedCustomerId(item.id)}
                   onClear={() => setSelectedCustomerId(null)}
                 />
-                <SearchSelect
-                  title={t('selectService')}
-                  placeholder={t('searchServicesPlaceholder')}
-                  items={services.map((service) => ({
-                    id: service._id,
-                    label: locale === 'en' && service.nameEn ? service.nameEn : service.name,
-                    subtitle: service.price ? `${t('price')}: ${formatMoney(service.price)}` : undefined,
-                  }))}
-                  selectedId={selectedServiceId}
-                  onSelect={(item) => setSelectedServiceId(item.id)}
-                  onClear={() => setSelectedServiceId(null)}
-                />
-                <SearchSelect
-                  title={t('assignEmployeeOptional')}
-                  placeholder={t('searchEmployeesPlaceholder')}
-                  items={employees.map((employee) => ({
-                    id: employee._id,
-                    label: employee.displayName ?? employee.username ?? t('employeeFallback'),
-                  }))}
-                  selectedId={selectedEmployeeId}
-                  onSelect={(item) => setSelectedEmployeeId(item.id)}
-                  onClear={() => setSelectedEmployeeId(null)}
-                />
+                {serviceLines.map((line, index) => (
+                  <View key={line.key} style={styles.serviceLine}>
+                    <View style={styles.serviceLineHeader}>
+                      <ThemedText type="defaultSemiBold">
+                        {t('serviceLineTitle').replace('{n}', String(index + 1))}
+                      </ThemedText>
+                      <View style={styles.serviceLineActions}>
+                        {index > 0 && (
+                          <IconButton icon="arrow-up" onPress={() => moveServiceLineUp(index)} />
+                        )}
+                        {serviceLines.length > 1 && (
+                          <IconButton
+                            icon="trash-outline"
+                            variant="danger"
+                            onPress={() => removeServiceLine(line.key)}
+                          />
+                        )}
+                      </View>
+                    </View>
+                    <SearchSelect
+                      title={t('selectService')}
+                      placeholder={t('searchServicesPlaceholder')}
+                      items={services.map((service) => ({
+                        id: service._id,
+                        label: locale === 'en' && service.nameEn ? service.nameEn : service.name,
+                        subtitle: service.price ? `${t('price')}: ${formatMoney(service.price)}` : undefined,
+                      }))}
+                      selectedId={line.serviceId}
+                      onSelect={(item) => {
+                        const employee = employees.find((entry) => entry._id === line.employeeId);
+                        // Drop a technician who cannot do the newly picked service.
+                        updateServiceLine(line.key, {
+                          serviceId: item.id,
+                          ...(employee && !canPerform(employee, [item.id])
+                            ? { employeeId: null }
+                            : {}),
+                        });
+                      }}
+                      onClear={() => updateServiceLine(line.key, { serviceId: null })}
+                    />
+                    <SearchSelect
+                      title={t('assignEmployeeOptional')}
+                      placeholder={t('searchEmployeesPlaceholder')}
+                      items={employees
+                        .filter((employee) => canPerform(employee, [line.serviceId]))
+                        .map((employee) => {
+                          const level = getSkillLevel(employee, line.serviceId);
+                          return {
+                            id: employee._id,
+                            label: employee.displayName ?? employee.username ?? t('employeeFallback'),
+                            subtitle: level ? t(SKILL_LEVEL_LABEL_KEYS[level]) : undefined,
+                            warning: isOnLeave(timeOff, employee._id, new Date(scheduledAt))
+                              ? t('onLeaveThatDay')
+                              : undefined,
+                          };
+                        })}
+                      selectedId={line.employeeId}
+                      onSelect={(item) => updateServiceLine(line.key, { employeeId: item.id })}
+                      onClear={() => updateServiceLine(line.key, { employeeId: null })}
+                    />
+                  </View>
+                ))}
+                <PrimaryButton label={t('addServiceLine')} variant="secondary" onPress={addServiceLine} />
+                <ThemedText style={styles.summaryText}>
+                  {t('totalDuration')}: {t('minutesValue').replace('{n}', String(getTotalMinutes(draftLines)))}
+                  {'  ·  '}
+                  {t('totalPrice')}: {formatMoney(getTotalPrice(draftLines))}
+                </ThemedText>
                 <DateTimeInput
                   label={t('time')}
                   value={scheduledAt}
                   onChange={setScheduledAt}
                   minimumDate={editingId ? undefined : new Date()}
                 />
+                {draftShiftGaps.length > 0 && (
+                  <View style={styles.shiftWarning}>
+                    <ThemedText style={styles.shiftWarningTitle}>{t('outsideShiftTitle')}</ThemedText>
+                    {draftShiftGaps.map((gap) => {
+                      const employee = employees.find((item) => item._id === gap.employeeId);
+                      return (
+                        <View key={`${gap.employeeId}-${gap.start.getTime()}`}>
+                          <ThemedText type="defaultSemiBold">
+                            {employee?.displayName ?? employee?.username ?? t('employeeFallback')}
+                            {': '}
+                            {formatTime24(gap.start, locale)}-{formatTime24(gap.end, locale)}
+                          </ThemedText>
+                          <ThemedText style={styles.hintText}>
+                            {gap.unpublished
+                              ? t('noSchedulePublished')
+                              : `${t('shiftsThatDay')}: ${
+                                  gap.shifts.length
+                                    ? gap.shifts
+                                        .map(
+                                          (shift) =>
+                                            `${formatTime24(new Date(shift.startAt), locale)}-${formatTime24(new Date(shift.endAt), locale)}`,
+                                        )
+                                        .join(', ')
+                                    : t('dayOff')
+                                }`}
+                          </ThemedText>
+                        </View>
+                      );
+                    })}
+                    {can('appointments:override') ? (
+                      <FormInput
+                        label={t('overrideReason')}
+                        value={overrideReason}
+                        onChangeText={setOverrideReason}
+                      />
+                    ) : (
+                      <ThemedText style={styles.hintText}>{t('outsideShiftNoOverride')}</ThemedText>
+                    )}
+                  </View>
+                )}
+                {!editingId && (
+                  <View style={styles.pillRow}>
+                    <OptionPill
+                      label={t('repeatNever')}
+                      selected={!repeat}
+                      onPress={() => setRepeat(false)}
+                    />
+                    <OptionPill
+                      label={t('repeatWeekly')}
+                      selected={repeat}
+                      onPress={() => setRepeat(true)}
+                    />
+                  </View>
+                )}
+                {repeat && !editingId && (
+                  <View style={styles.recurrenceBox}>
+                    <FormInput
+                      label={t('repeatEveryWeeks')}
+                      value={intervalWeeks}
+                      onChangeText={setIntervalWeeks}
+                      keyboardType="number-pad"
+                    />
+                    <View style={styles.pillRow}>
+                      <OptionPill
+                        label={t('repeatForCount')}
+                        selected={repeatEnd === 'count'}
+                        onPress={() => setRepeatEnd('count')}
+                      />
+                      <OptionPill
+                        label={t('repeatUntilDate')}
+                        selected={repeatEnd === 'until'}
+                        onPress={() => setRepeatEnd('until')}
+                      />
+                    </View>
+                    {repeatEnd === 'count' ? (
+                      <FormInput
+                        label={t('occurrenceCount')}
+                        value={occurrenceCount}
+                        onChangeText={setOccurrenceCount}
+                        keyboardType="number-pad"
+                      />
+                    ) : (
+                      <DateTimeInput
+                        label={t('repeatUntilDate')}
+                        value={repeatUntil}
+                        onChange={setRepeatUntil}
+                        minimumDate={new Date(scheduledAt)}
+                      />
+                    )}
+                    <ThemedText type="defaultSemiBold">
+                      {t('occurrencePreview').replace('{n}', String(occurrencePreview.length))}
+                    </ThemedText>
+                    {occurrencePreview.map((occurrence) => (
+                      <View key={occurrence.at} style={styles.occurrenceRow}>
+                        <ThemedText style={styles.occurrenceTime}>
+                          {new Date(occurrence.at).toLocaleDateString()}{' '}
+                          {formatTime24(new Date(occurrence.at), locale)}
+                        </ThemedText>
+                        <ThemedText
+                          style={occurrence.error ? styles.occurrenceFlag : styles.occurrenceClear}
+                        >
+                          {occurrence.error ?? t('occurrenceClear')}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </View>
+                )}
+                {editingAppointment?.seriesId && (
+                  <>
+                    <ThemedText style={styles.hintText}>{t('seriesEditScope')}</ThemedText>
+                    <View style={styles.pillRow}>
+                      <OptionPill
+                        label={t('seriesScopeThis')}
+                        selected={editScope === 'this'}
+                        onPress={() => setEditScope('this')}
+                      />
+                      <OptionPill
+                        label={t('seriesScopeFollowing')}
+                        selected={editScope === 'following'}
+                        onPress={() => setEditScope('following')}
+                      />
+                    </View>
+                  </>
+                )}
                 <PrimaryButton
                   label={loading ? t('saving') : editingId ? t('updateAppointment') : t('createAppointment')}
                   onPress={handleCreate}
                 />
               </Section>
             )}
-            <PrimaryButton
-              label={showCreate ? t('close') : t('createAppointment')}
-              onPress={() => {
-                setShowCreate((prev) => !prev);
-                if (showCreate) {
-                  setEditingId(null);
-                  setSelectedCustomerId(null);
-                  setSelectedServiceId(null);
-                  setSelectedEmployeeId(null);
-                  setScheduledAt(new Date().toISOString());
-                }
-              }}
-            />
+            <Can I="appointments:write">
+              <PrimaryButton
+                label={showCreate ? t('close') : t('createAppointment')}
+                onPress={() => {
+                  setShowCreate((prev) => !prev);
+                  if (showCreate) {
+                    resetForm();
+                  }
+                }}
+              />
+            </Can>
             {error && <ThemedText style={styles.error}>{error}</ThemedText>}
           </View>
         }
@@ -518,6 +1433,57 @@ export default function AppointmentsScreen() {
   );
 }
 
+function StatusBadge({ status, label }: { status: AppointmentStatus; label: string }) {
+  const color = STATUS_COLORS[status] ?? Palette.slate;
+  return (
+    <View style={[styles.statusBadge, { backgroundColor: `${color}22` }]}>
+      <View style={[styles.statusDot, { backgroundColor: color }]} />
+      <ThemedText style={[styles.statusText, { color }]}>{label}</ThemedText>
+    </View>
+  );
+}
+
+function StatusTimeline({
+  history,
+  emptyLabel,
+  renderLabel,
+  fallbackActor,
+}: {
+  history: StatusChange[];
+  emptyLabel: string;
+  renderLabel: (status: AppointmentStatus) => string;
+  fallbackActor: string;
+}) {
+  if (!history.length) {
+    return <ThemedText style={styles.hintText}>{emptyLabel}</ThemedText>;
+  }
+  return (
+    <View style={styles.timeline}>
+      {history.map((change, index) => {
+        const color = STATUS_COLORS[change.to] ?? Palette.slate;
+        return (
+          <View key={`${change.at}-${index}`} style={styles.timelineRow}>
+            <View style={styles.timelineRail}>
+              <View style={[styles.statusDot, { backgroundColor: color }]} />
+              {index < history.length - 1 && <View style={styles.timelineLine} />}
+            </View>
+            <View style={styles.timelineBody}>
+              <ThemedText style={styles.timelineTitle}>
+                {change.from ? `${renderLabel(change.from)} → ` : ''}
+                {renderLabel(change.to)}
+              </ThemedText>
+              <ThemedText style={styles.hintText}>
+                {change.by?.displayName ?? change.by?.username ?? fallbackActor} ·{' '}
+                {new Date(change.at).toLocaleString()}
+              </ThemedText>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -569,12 +1535,16 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     borderWidth: 1,
     borderColor: Palette.border,
-    overflow: 'hidden',
     minWidth: PERSON_COL_WIDTH + DAY_COL_WIDTH * 7,
   },
   rosterHeaderRow: {
     flexDirection: 'row',
     backgroundColor: '#f1f3f8',
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+  },
+  dragLayer: {
+    zIndex: 10,
   },
   rosterRow: {
     flexDirection: 'row',
@@ -611,6 +1581,9 @@ const styles = StyleSheet.create({
     backgroundColor: '#fff',
     width: DAY_COL_WIDTH,
   },
+  leaveCell: {
+    backgroundColor: '#e5e7eb',
+  },
   shiftStack: {
     gap: 6,
   },
@@ -621,6 +1594,37 @@ const styles = StyleSheet.create({
     paddingHorizontal: 4,
     paddingVertical: 4,
   },
+  shiftPillMovable: {
+    paddingRight: 20,
+  },
+  shiftPillFlagged: {
+    borderWidth: 1,
+    borderColor: Palette.accentOrange,
+  },
+  shiftPillActive: {
+    borderWidth: 1,
+    borderColor: Palette.accentPurple,
+  },
+  pillBuffer: {
+    height: 5,
+    marginLeft: -4,
+    marginRight: -4,
+  },
+  pillBufferTop: {
+    marginTop: -4,
+    marginBottom: 3,
+    borderTopLeftRadius: 6,
+    borderTopRightRadius: 6,
+  },
+  pillBufferBottom: {
+    marginTop: 3,
+    marginBottom: -4,
+    borderBottomLeftRadius: 6,
+    borderBottomRightRadius: 6,
+  },
+  pillBufferMovable: {
+    marginRight: -20,
+  },
   shiftTime: {
     fontSize: 10,
     fontWeight: '700',
@@ -630,6 +1634,165 @@ const styles = StyleSheet.create({
     fontSize: 9,
     color: Palette.mutedText,
   },
+  flaggedText: {
+    fontSize: 12,
+    color: Palette.accentOrange,
+  },
+  detailHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  detailTitle: {
+    flex: 1,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  detailActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  timeline: {
+    gap: 0,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  timelineRail: {
+    alignItems: 'center',
+    paddingTop: 6,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    marginTop: 4,
+    backgroundColor: Palette.border,
+  },
+  timelineBody: {
+    flex: 1,
+    paddingBottom: 12,
+  },
+  timelineTitle: {
+    fontWeight: '600',
+    color: Palette.navy,
+  },
+  hintText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+  nudgeBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: `${Palette.accentPurple}14`,
+  },
+  nudgeInfo: {
+    flex: 1,
+  },
+  serviceLine: {
+    gap: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Palette.border,
+  },
+  serviceLineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  serviceLineActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  summaryText: {
+    fontWeight: '600',
+    color: Palette.navy,
+  },
+  unassignedRow: {
+    backgroundColor: '#fff7ec',
+  },
+  suggestionList: {
+    gap: 8,
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  suggestionInfo: {
+    flex: 1,
+  },
+  shiftWarning: {
+    gap: 6,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Palette.danger,
+    backgroundColor: '#fff4f4',
+  },
+  shiftWarningTitle: {
+    fontWeight: '700',
+    color: Palette.danger,
+  },
+  overrideText: {
+    fontSize: 12,
+    color: Palette.danger,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  recurrenceBox: {
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Palette.border,
+  },
+  occurrenceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  occurrenceTime: {
+    fontSize: 13,
+  },
+  occurrenceClear: {
+    fontSize: 12,
+    color: Palette.mutedText,
+  },
+  occurrenceFlag: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 12,
+    fontWeight: '600',
+    color: Palette.danger,
+  },
   error: {
     color: '#c00',
   },
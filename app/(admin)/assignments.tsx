@@ -2,9 +2,9 @@ import React, { useMemo, useEffect, useState } from 'react';
 import { Alert, FlatList, StyleSheet, View } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { Can } from '@/components/can';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiDelete, apiGet, apiPatch, apiPost } from '@/lib/api';
 import { Card } from '@/components/ui/card';
 import { FormInput } from '@/components/ui/form-input';
 import { IconButton } from '@/components/ui/icon-button';
@@ -13,20 +13,13 @@ import { Section } from '@/components/ui/section';
 import { SearchSelect } from '@/components/ui/search-select';
 import { DateTimeInput } from '@/components/ui/date-time-input';
 import { Palette } from '@/constants/theme';
-
-type Assignment = {
-  _id: string;
-  employee?: { _id?: string; displayName?: string; username?: string };
-  customer?: { _id?: string; name: string; nameEn?: string };
-  service?: { _id?: string; name: string; nameEn?: string };
-  price: number;
-  status: string;
-  scheduledAt: string;
-};
-
-type Customer = { _id: string; name: string; nameEn?: string; phone?: string };
-type ServiceItem = { _id: string; name: string; nameEn?: string; price?: number };
-type Employee = { _id: string; displayName?: string; username?: string };
+import { getServiceMinutes } from '@/lib/appointment-services';
+import { getStatusLabel } from '@/lib/appointment-status';
+import type { Assignment, Customer, Employee, ServiceItem, TimeOffRequest } from '@/lib/domain';
+import { assignmentsApi, customersApi, servicesApi, usersApi } from '@/lib/resources';
+import { canPerform, getSkillLevel, SKILL_LEVEL_LABEL_KEYS } from '@/lib/skills';
+import { findLeaveConflict, isOnLeave, listLeaveForChecks } from '@/lib/time-off';
+import { getErrorMessage } from '@/lib/api-errors';
 
 export default function AssignmentsScreen() {
   const { token } = useAuth();
@@ -36,6 +29,7 @@ export default function AssignmentsScreen() {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [services, setServices] = useState<ServiceItem[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
+  const [timeOff, setTimeOff] = useState<TimeOffRequest[]>([]);
   const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
   const [selectedServiceId, setSelectedServiceId] = useState<string | null>(null);
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string | null>(null);
@@ -48,18 +42,22 @@ export default function AssignmentsScreen() {
 
   const load = async () => {
     try {
-      const [assignmentsData, customersData, servicesData, employeesData] = await Promise.all([
-        apiGet<Assignment[]>('/assignments', token),
-        apiGet<Customer[]>('/customers', token),
-        apiGet<ServiceItem[]>('/services', token),
-        apiGet<Employee[]>('/users', token),
-      ]);
+      const [assignmentsData, customersData, servicesData, employeesData, timeOffData] =
+        await Promise.all([
+          assignmentsApi.list(token),
+          customersApi.list(token),
+          servicesApi.list(token),
+          usersApi.list(token),
+          // Leave only adds warnings, so a refused list must not empty the screen.
+          listLeaveForChecks(token),
+        ]);
       setAssignments(assignmentsData);
       setCustomers(customersData);
       setServices(servicesData);
       setEmployees(employeesData);
+      setTimeOff(timeOffData);
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -72,13 +70,20 @@ export default function AssignmentsScreen() {
       setError(t('errorAssignmentRequired'));
       return;
     }
+    const start = new Date(scheduledAt);
+    const service = services.find((item) => item._id === selectedServiceId);
+    const end = new Date(start.getTime() + getServiceMinutes(service) * 60 * 1000);
+    if (findLeaveConflict(timeOff, selectedEmployeeId, start, end)) {
+      setError(t('errorEmployeeOnLeave'));
+      return;
+    }
     const isEditing = Boolean(editingId);
     setError(null);
     setLoading(true);
     try {
       if (editingId) {
-        await apiPatch(
-          `/assignments/${editingId}`,
+        await assignmentsApi.update(
+          editingId,
           {
             customerId: selectedCustomerId,
             serviceId: selectedServiceId,
@@ -89,8 +94,7 @@ export default function AssignmentsScreen() {
           token,
         );
       } else {
-        await apiPost(
-          '/assignments',
+        await assignmentsApi.create(
           {
             customerId: selectedCustomerId,
             serviceId: selectedServiceId,
@@ -115,7 +119,7 @@ export default function AssignmentsScreen() {
         Alert.alert(t('successTitle'), t('updateSuccess'));
       }
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     } finally {
       setLoading(false);
     }
@@ -124,11 +128,11 @@ export default function AssignmentsScreen() {
   const handleDelete = async (id: string) => {
     setError(null);
     try {
-      await apiDelete(`/assignments/${id}`, token);
+      await assignmentsApi.remove(id, token);
       await load();
       Alert.alert(t('successTitle'), t('deleteSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -150,23 +154,6 @@ export default function AssignmentsScreen() {
     return new Intl.NumberFormat('vi-VN').format(value);
   };
 
-  const getStatusLabel = (status?: string) => {
-    switch ((status ?? '').toLowerCase()) {
-      case 'scheduled':
-        return t('statusScheduled');
-      case 'assigned':
-        return t('statusAssigned');
-      case 'completed':
-        return t('statusCompleted');
-      case 'cancelled':
-        return t('statusCancelled');
-      case 'in_progress':
-        return t('statusInProgress');
-      default:
-        return status ?? t('notAvailable');
-    }
-  };
-
   const filteredAssignments = useMemo(() => {
     const term = searchText.trim().toLowerCase();
     if (!term) return assignments;
@@ -225,16 +212,29 @@ export default function AssignmentsScreen() {
                     subtitle: service.price ? `${t('price')}: ${formatMoney(service.price)}` : undefined,
                   }))}
                   selectedId={selectedServiceId}
-                  onSelect={(item) => setSelectedServiceId(item.id)}
+                  onSelect={(item) => {
+                    setSelectedServiceId(item.id);
+                    const employee = employees.find((entry) => entry._id === selectedEmployeeId);
+                    if (employee && !canPerform(employee, [item.id])) setSelectedEmployeeId(null);
+                  }}
                   onClear={() => setSelectedServiceId(null)}
                 />
                 <SearchSelect
                   title={t('selectEmployee')}
                   placeholder={t('searchEmployeesPlaceholder')}
-                  items={employees.map((employee) => ({
-                    id: employee._id,
-                    label: employee.displayName ?? employee.username ?? t('employeeFallback'),
-                  }))}
+                  items={employees
+                    .filter((employee) => canPerform(employee, [selectedServiceId]))
+                    .map((employee) => {
+                      const level = getSkillLevel(employee, selectedServiceId);
+                      return {
+                        id: employee._id,
+                        label: employee.displayName ?? employee.username ?? t('employeeFallback'),
+                        subtitle: level ? t(SKILL_LEVEL_LABEL_KEYS[level]) : undefined,
+                        warning: isOnLeave(timeOff, employee._id, new Date(scheduledAt))
+                          ? t('onLeaveThatDay')
+                          : undefined,
+                      };
+                    })}
                   selectedId={selectedEmployeeId}
                   onSelect={(item) => setSelectedEmployeeId(item.id)}
                   onClear={() => setSelectedEmployeeId(null)}
@@ -247,20 +247,22 @@ export default function AssignmentsScreen() {
                 />
               </Section>
             )}
-            <PrimaryButton
-              label={showCreate ? t('close') : t('createAssignment')}
-              onPress={() => {
-                setShowCreate((prev) => !prev);
-                if (showCreate) {
-                  setEditingId(null);
-                  setSelectedCustomerId(null);
-                  setSelectedServiceId(null);
-                  setSelectedEmployeeId(null);
-                  setScheduledAt(new Date().toISOString());
-                  setPrice('');
-                }
-              }}
-            />
+            <Can I="assignments:write">
+              <PrimaryButton
+                label={showCreate ? t('close') : t('createAssignment')}
+                onPress={() => {
+                  setShowCreate((prev) => !prev);
+                  if (showCreate) {
+                    setEditingId(null);
+                    setSelectedCustomerId(null);
+                    setSelectedServiceId(null);
+                    setSelectedEmployeeId(null);
+                    setScheduledAt(new Date().toISOString());
+                    setPrice('');
+                  }
+                }}
+              />
+            </Can>
             {error && <ThemedText style={styles.error}>{error}</ThemedText>}
           </View>
         }
@@ -273,25 +275,27 @@ export default function AssignmentsScreen() {
                   - {(locale === 'en' && item.service?.nameEn ? item.service.nameEn : item.service?.name ?? t('serviceFallback'))}
                 </ThemedText>
               </View>
-              <View style={styles.actionsRow}>
-                <IconButton
-                  icon="create-outline"
-                  variant="primary"
-                  onPress={() => handleEdit(item)}
-                />
-                <IconButton
-                  icon="trash-outline"
-                  variant="danger"
-                  onPress={() => handleDelete(item._id)}
-                />
-              </View>
+              <Can I="assignments:write">
+                <View style={styles.actionsRow}>
+                  <IconButton
+                    icon="create-outline"
+                    variant="primary"
+                    onPress={() => handleEdit(item)}
+                  />
+                  <IconButton
+                    icon="trash-outline"
+                    variant="danger"
+                    onPress={() => handleDelete(item._id)}
+                  />
+                </View>
+              </Can>
             </View>
             <ThemedText>
               {t('employee')}: {item.employee?.displayName ?? item.employee?.username ?? t('notAvailable')}
             </ThemedText>
             <ThemedText>{t('fee')}: {formatMoney(item.price)}</ThemedText>
             <ThemedText>{t('schedule')}: {new Date(item.scheduledAt).toLocaleString()}</ThemedText>
-            <ThemedText>{t('status')}: {getStatusLabel(item.status)}</ThemedText>
+            <ThemedText>{t('status')}: {getStatusLabel(item.status, t)}</ThemedText>
           </Card>
         )}
         contentContainerStyle={styles.content}
@@ -4,25 +4,12 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiGet } from '@/lib/api';
 import { Card } from '@/components/ui/card';
 import { FormInput } from '@/components/ui/form-input';
 import { Palette } from '@/constants/theme';
-
-type Commission = {
-  _id: string;
-  employee?: { displayName?: string; username?: string };
-  ownerPercent: number;
-  employeePercent: number;
-  ownerAmount: number;
-  employeeAmount: number;
-  assignment?: {
-    scheduledAt?: string;
-    completedAt?: string;
-    service?: { name?: string; nameEn?: string };
-    customer?: { name?: string; nameEn?: string };
-  };
-};
+import type { Commission } from '@/lib/domain';
+import { commissionsApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
 
 export default function CommissionsScreen() {
   const { token } = useAuth();
@@ -34,14 +21,14 @@ export default function CommissionsScreen() {
   useEffect(() => {
     const load = async () => {
       try {
-        const data = await apiGet<Commission[]>('/commissions', token);
+        const data = await commissionsApi.list(token);
         setCommissions(data);
       } catch (err) {
-        setError((err as Error).message);
+        setError(getErrorMessage(err, t));
       }
     };
     load();
-  }, [token]);
+  }, [token, t]);
 
   const filteredCommissions = useMemo(() => {
     const term = searchText.trim().toLowerCase();
@@ -2,29 +2,26 @@ import React, { useMemo, useEffect, useState } from 'react';
 import { Alert, FlatList, StyleSheet, View } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { Can } from '@/components/can';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiDelete, apiGet, apiPatch, apiPost } from '@/lib/api';
 import { Card } from '@/components/ui/card';
 import { FormInput } from '@/components/ui/form-input';
 import { IconButton } from '@/components/ui/icon-button';
 import { PrimaryButton } from '@/components/ui/primary-button';
 import { Section } from '@/components/ui/section';
 import { Palette } from '@/constants/theme';
-
-type Customer = {
-  _id: string;
-  name: string;
-  nameEn?: string;
-  phone?: string;
-  note?: string;
-};
+import type { Customer } from '@/lib/domain';
+import { getReliabilityWarning } from '@/lib/customer-reliability';
+import { customersApi } from '@/lib/resources';
+import { getErrorMessage, getFieldErrors } from '@/lib/api-errors';
 
 export default function CustomersScreen() {
   const { token } = useAuth();
   const { t, locale } = useI18n();
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [name, setName] = useState('');
   const [nameEn, setNameEn] = useState('');
   const [phone, setPhone] = useState('');
@@ -40,10 +37,10 @@ export default function CustomersScreen() {
 
   const load = async () => {
     try {
-      const data = await apiGet<Customer[]>('/customers', token);
+      const data = await customersApi.list(token);
       setCustomers(data);
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -55,6 +52,7 @@ export default function CustomersScreen() {
     }
     const isEditing = Boolean(editingId);
     setError(null);
+    setFieldErrors({});
     setLoading(true);
     try {
       const payload = {
@@ -64,17 +62,9 @@ export default function CustomersScreen() {
         note,
       };
       if (editingId) {
-        await apiPatch(
-          `/customers/${editingId}`,
-          payload,
-          token,
-        );
+        await customersApi.update(editingId, payload, token);
       } else {
-        await apiPost(
-          '/customers',
-          payload,
-          token,
-        );
+        await customersApi.create(payload, token);
       }
       setName('');
       setNameEn('');
@@ -89,7 +79,8 @@ export default function CustomersScreen() {
         Alert.alert(t('successTitle'), t('updateSuccess'));
       }
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
+      setFieldErrors(getFieldErrors(err));
     } finally {
       setLoading(false);
     }
@@ -98,16 +89,28 @@ export default function CustomersScreen() {
   const handleDelete = async (id: string) => {
     setError(null);
     try {
-      await apiDelete(`/customers/${id}`, token);
+      await customersApi.remove(id, token);
       await load();
       Alert.alert(t('successTitle'), t('deleteSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
+    }
+  };
+
+  const handleApproveOnlineBooking = async (id: string) => {
+    setError(null);
+    try {
+      await customersApi.approveOnlineBooking(id, token);
+      await load();
+      Alert.alert(t('successTitle'), t('onlineBookingApproved'));
+    } catch (err) {
+      setError(getErrorMessage(err, t));
     }
   };
 
   const handleEdit = (item: Customer) => {
     setShowCreate(true);
+    setFieldErrors({});
     setEditingId(item._id);
     setName(item.name ?? '');
     setNameEn(item.nameEn ?? '');
@@ -144,6 +147,7 @@ export default function CustomersScreen() {
               <Section title={editingId ? t('editCustomer') : t('addCustomer')}>
                 <FormInput
                   label={t('customerNameLabel')}
+                  error={fieldErrors[locale === 'en' ? 'nameEn' : 'name'] ?? fieldErrors.name}
                   value={locale === 'en' ? nameEn : name}
                   onChangeText={(value) => {
                     if (locale === 'en') {
@@ -153,27 +157,40 @@ export default function CustomersScreen() {
                     }
                   }}
                 />
-                <FormInput label={t('phone')} value={phone} onChangeText={setPhone} />
-                <FormInput label={t('note')} value={note} onChangeText={setNote} />
+                <FormInput
+                  label={t('phone')}
+                  error={fieldErrors.phone}
+                  value={phone}
+                  onChangeText={setPhone}
+                />
+                <FormInput
+                  label={t('note')}
+                  error={fieldErrors.note}
+                  value={note}
+                  onChangeText={setNote}
+                />
                 <PrimaryButton
                   label={loading ? t('saving') : editingId ? t('updateCustomer') : t('addCustomer')}
                   onPress={handleCreate}
                 />
               </Section>
             )}
-            <PrimaryButton
-              label={showCreate ? t('close') : t('addCustomer')}
-              onPress={() => {
-                setShowCreate((prev) => !prev);
-                if (showCreate) {
-                  setEditingId(null);
-                  setName('');
-                  setNameEn('');
-                  setPhone('');
-                  setNote('');
-                }
-              }}
-            />
+            <Can I="customers:write">
+              <PrimaryButton
+                label={showCreate ? t('close') : t('addCustomer')}
+                onPress={() => {
+                  setShowCreate((prev) => !prev);
+                  if (showCreate) {
+                    setEditingId(null);
+                    setFieldErrors({});
+                    setName('');
+                    setNameEn('');
+                    setPhone('');
+                    setNote('');
+                  }
+                }}
+              />
+            </Can>
             {error && <ThemedText style={styles.error}>{error}</ThemedText>}
           </View>
         }
@@ -183,21 +200,35 @@ export default function CustomersScreen() {
               <ThemedText type="defaultSemiBold">
                 {locale === 'en' && item.nameEn ? item.nameEn : item.name}
               </ThemedText>
-              <View style={styles.actionsRow}>
-                <IconButton
-                  icon="create-outline"
-                  variant="primary"
-                  onPress={() => handleEdit(item)}
-                />
-                <IconButton
-                  icon="trash-outline"
-                  variant="danger"
-                  onPress={() => handleDelete(item._id)}
-                />
-              </View>
+              <Can I="customers:write">
+                <View style={styles.actionsRow}>
+                  <IconButton
+                    icon="create-outline"
+                    variant="primary"
+                    onPress={() => handleEdit(item)}
+                  />
+                  <IconButton
+                    icon="trash-outline"
+                    variant="danger"
+                    onPress={() => handleDelete(item._id)}
+                  />
+                </View>
+              </Can>
             </View>
             <ThemedText>{t('phone')}: {item.phone ?? t('notAvailable')}</ThemedText>
             <ThemedText>{t('note')}: {item.note ?? t('notAvailable')}</ThemedText>
+            {getReliabilityWarning(item, t) ? (
+              <ThemedText style={styles.warningText}>{getReliabilityWarning(item, t)}</ThemedText>
+            ) : null}
+            {item.onlineBookingHold ? (
+              <Can I="customers:approve">
+                <PrimaryButton
+                  label={t('approveOnlineBooking')}
+                  variant="secondary"
+                  onPress={() => handleApproveOnlineBooking(item._id)}
+                />
+              </Can>
+            ) : null}
           </Card>
         )}
         contentContainerStyle={styles.content}
@@ -227,6 +258,10 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  warningText: {
+    color: Palette.danger,
+    fontWeight: '600',
+  },
   error: {
     color: '#c00',
   },
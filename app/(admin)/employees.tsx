@@ -2,9 +2,9 @@ import React, { useMemo, useEffect, useState } from 'react';
 import { Alert, FlatList, StyleSheet, View } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { Can } from '@/components/can';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiDelete, apiGet, apiPatch, apiPost } from '@/lib/api';
 import { Card } from '@/components/ui/card';
 import { FormInput } from '@/components/ui/form-input';
 import { IconButton } from '@/components/ui/icon-button';
@@ -12,37 +12,40 @@ import { OptionPill } from '@/components/ui/option-pill';
 import { PrimaryButton } from '@/components/ui/primary-button';
 import { Section } from '@/components/ui/section';
 import { Palette } from '@/constants/theme';
-
-type Employee = {
-  _id: string;
-  username: string;
-  role: string;
-  displayName?: string;
-  phone?: string;
-  active?: boolean;
-};
+import type { Employee, EmployeeSkill, ServiceItem, SkillLevel, UserRole } from '@/lib/domain';
+import { ASSIGNABLE_ROLES, ROLE_LABEL_KEYS } from '@/lib/permissions';
+import { servicesApi, usersApi } from '@/lib/resources';
+import { SKILL_LEVEL_LABEL_KEYS, SKILL_LEVELS } from '@/lib/skills';
+import { getErrorMessage, getFieldErrors } from '@/lib/api-errors';
 
 export default function EmployeesScreen() {
   const { token } = useAuth();
-  const { t } = useI18n();
+  const { t, locale } = useI18n();
   const [employees, setEmployees] = useState<Employee[]>([]);
+  const [services, setServices] = useState<ServiceItem[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [showCreate, setShowCreate] = useState(false);
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [displayName, setDisplayName] = useState('');
   const [phone, setPhone] = useState('');
-  const [role, setRole] = useState<'admin' | 'employee'>('employee');
+  const [role, setRole] = useState<UserRole>('employee');
+  const [skills, setSkills] = useState<EmployeeSkill[]>([]);
   const [loading, setLoading] = useState(false);
   const [searchText, setSearchText] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
 
   const load = async () => {
     try {
-      const data = await apiGet<Employee[]>('/users', token);
-      setEmployees(data.filter((item) => item.role === 'employee'));
+      const [data, servicesData] = await Promise.all([
+        usersApi.list(token),
+        servicesApi.list(token),
+      ]);
+      setEmployees(data.filter((item) => item.role !== 'admin'));
+      setServices(servicesData);
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -57,6 +60,7 @@ export default function EmployeesScreen() {
     }
     const isEditing = Boolean(editingId);
     setError(null);
+    setFieldErrors({});
     setLoading(true);
     try {
       const payload = {
@@ -65,23 +69,27 @@ export default function EmployeesScreen() {
         role,
         displayName: displayName.trim() || undefined,
         phone: phone.trim() || undefined,
+        // Only technicians perform services; other roles keep an empty list.
+        skills: role === 'employee' ? skills : [],
       };
       if (editingId) {
-        await apiPatch(`/users/${editingId}`, payload, token);
+        await usersApi.update(editingId, payload, token);
       } else {
-        await apiPost('/users', payload, token);
+        await usersApi.create(payload, token);
       }
       setUsername('');
       setPassword('');
       setDisplayName('');
       setPhone('');
       setRole('employee');
+      setSkills([]);
       setEditingId(null);
       await load();
       setShowCreate(false);
       Alert.alert(t('successTitle'), isEditing ? t('updateSuccess') : t('createSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
+      setFieldErrors(getFieldErrors(err));
     } finally {
       setLoading(false);
     }
@@ -90,11 +98,11 @@ export default function EmployeesScreen() {
   const handleDelete = async (id: string) => {
     setError(null);
     try {
-      await apiDelete(`/users/${id}`, token);
+      await usersApi.remove(id, token);
       await load();
       Alert.alert(t('successTitle'), t('deleteSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -110,14 +118,39 @@ export default function EmployeesScreen() {
 
   const handleEdit = (item: Employee) => {
     setShowCreate(true);
+    setFieldErrors({});
     setEditingId(item._id);
     setUsername(item.username ?? '');
     setPassword('');
     setDisplayName(item.displayName ?? '');
     setPhone(item.phone ?? '');
-    setRole(item.role === 'admin' ? 'admin' : 'employee');
+    setRole(item.role);
+    setSkills(item.skills ?? []);
+  };
+
+  const setSkillLevel = (serviceId: string, level: SkillLevel | null) => {
+    setSkills((prev) => {
+      const rest = prev.filter((item) => item.serviceId !== serviceId);
+      return level ? [...rest, { serviceId, level }] : rest;
+    });
+  };
+
+  const getServiceName = (serviceId: string) => {
+    const service = services.find((item) => item._id === serviceId);
+    if (!service) return t('serviceFallback');
+    return locale === 'en' && service.nameEn ? service.nameEn : service.name;
   };
 
+  const formatSkills = (item: Employee) =>
+    item.skills?.length
+      ? item.skills
+          .map(
+            (skill) =>
+              `${getServiceName(skill.serviceId)} (${t(SKILL_LEVEL_LABEL_KEYS[skill.level ?? 'standard'])})`,
+          )
+          .join(', ')
+      : t('allServices');
+
   return (
     <ThemedView style={styles.container} lightColor="#f6f7f9">
       <FlatList
@@ -136,6 +169,7 @@ export default function EmployeesScreen() {
               <Section title={t('employeeInfoTitle')}>
                 <FormInput
                   label={t('username')}
+                  error={fieldErrors.username}
                   value={username}
                   onChangeText={setUsername}
                   editable={!editingId}
@@ -143,6 +177,7 @@ export default function EmployeesScreen() {
                 {!editingId && (
                   <FormInput
                     label={t('password')}
+                    error={fieldErrors.password}
                     placeholder={t('defaultPasswordHint')}
                     value={password}
                     onChangeText={setPassword}
@@ -152,40 +187,85 @@ export default function EmployeesScreen() {
                 {editingId && (
                   <ThemedText style={styles.helperText}>{t('passwordSelfOnly')}</ThemedText>
                 )}
-                <FormInput label={t('displayName')} value={displayName} onChangeText={setDisplayName} />
-                <FormInput label={t('phone')} value={phone} onChangeText={setPhone} />
+                <FormInput
+                  label={t('displayName')}
+                  error={fieldErrors.displayName}
+                  value={displayName}
+                  onChangeText={setDisplayName}
+                />
+                <FormInput
+                  label={t('phone')}
+                  error={fieldErrors.phone}
+                  value={phone}
+                  onChangeText={setPhone}
+                />
+                <ThemedText style={styles.helperText}>{t('role')}</ThemedText>
                 <View style={styles.roleRow}>
-                  <OptionPill
-                    label={t('roleEmployee')}
-                    selected={role === 'employee'}
-                    onPress={() => setRole('employee')}
-                  />
-                  <OptionPill
-                    label={t('roleAdmin')}
-                    selected={role === 'admin'}
-                    onPress={() => setRole('admin')}
-                  />
+                  {ASSIGNABLE_ROLES.map((item) => (
+                    <OptionPill
+                      key={item}
+                      label={t(ROLE_LABEL_KEYS[item])}
+                      selected={role === item}
+                      onPress={() => setRole(item)}
+                    />
+                  ))}
                 </View>
+                {role === 'employee' && (
+                  <>
+                    <ThemedText style={styles.helperText}>{t('skillsTitle')}</ThemedText>
+                    <ThemedText style={styles.helperText}>{t('skillsHint')}</ThemedText>
+                    {services.map((service) => {
+                      const current = skills.find((item) => item.serviceId === service._id);
+                      const level = current ? current.level ?? 'standard' : null;
+                      return (
+                        <View key={service._id} style={styles.skillRow}>
+                          <ThemedText style={styles.skillName} numberOfLines={1}>
+                            {locale === 'en' && service.nameEn ? service.nameEn : service.name}
+                          </ThemedText>
+                          <View style={styles.roleRow}>
+                            <OptionPill
+                              label={t('skillNone')}
+                              selected={!level}
+                              onPress={() => setSkillLevel(service._id, null)}
+                            />
+                            {SKILL_LEVELS.map((item) => (
+                              <OptionPill
+                                key={item}
+                                label={t(SKILL_LEVEL_LABEL_KEYS[item])}
+                                selected={level === item}
+                                onPress={() => setSkillLevel(service._id, item)}
+                              />
+                            ))}
+                          </View>
+                        </View>
+                      );
+                    })}
+                  </>
+                )}
                 <PrimaryButton
                   label={loading ? t('saving') : t('saveEmployee')}
                   onPress={handleCreate}
                 />
               </Section>
             )}
-            <PrimaryButton
-              label={showCreate ? t('close') : t('addEmployee')}
-              onPress={() => {
-                setShowCreate((prev) => !prev);
-                if (showCreate) {
-                  setEditingId(null);
-                  setUsername('');
-                  setPassword('');
-                  setDisplayName('');
-                  setPhone('');
-                  setRole('employee');
-                }
-              }}
-            />
+            <Can I="employees:write">
+              <PrimaryButton
+                label={showCreate ? t('close') : t('addEmployee')}
+                onPress={() => {
+                  setShowCreate((prev) => !prev);
+                  if (showCreate) {
+                    setEditingId(null);
+                    setFieldErrors({});
+                    setUsername('');
+                    setPassword('');
+                    setDisplayName('');
+                    setPhone('');
+                    setRole('employee');
+                    setSkills([]);
+                  }
+                }}
+              />
+            </Can>
             {error && <ThemedText style={styles.error}>{error}</ThemedText>}
           </View>
         }
@@ -193,24 +273,31 @@ export default function EmployeesScreen() {
           <Card>
             <View style={styles.cardHeaderRow}>
               <ThemedText type="defaultSemiBold">{item.displayName ?? item.username}</ThemedText>
-              <View style={styles.actionsRow}>
-                <IconButton
-                  icon="create-outline"
-                  variant="primary"
-                  onPress={() => handleEdit(item)}
-                />
-                <IconButton
-                  icon="trash-outline"
-                  variant="danger"
-                  onPress={() => handleDelete(item._id)}
-                />
-              </View>
+              <Can I="employees:write">
+                <View style={styles.actionsRow}>
+                  <IconButton
+                    icon="create-outline"
+                    variant="primary"
+                    onPress={() => handleEdit(item)}
+                  />
+                  <IconButton
+                    icon="trash-outline"
+                    variant="danger"
+                    onPress={() => handleDelete(item._id)}
+                  />
+                </View>
+              </Can>
             </View>
             <ThemedText>
-              {t('role')}: {item.role === 'admin' ? t('roleAdmin') : t('roleEmployee')}
+              {t('role')}: {t(ROLE_LABEL_KEYS[item.role])}
             </ThemedText>
             <ThemedText>{t('phone')}: {item.phone ?? t('notAvailable')}</ThemedText>
             <ThemedText>{t('active')}: {item.active ? t('yes') : t('no')}</ThemedText>
+            {item.role === 'employee' && (
+              <ThemedText>
+                {t('skillsTitle')}: {formatSkills(item)}
+              </ThemedText>
+            )}
           </Card>
         )}
         contentContainerStyle={styles.content}
@@ -238,8 +325,18 @@ const styles = StyleSheet.create({
   },
   roleRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
   },
+  skillRow: {
+    gap: 6,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Palette.border,
+  },
+  skillName: {
+    fontWeight: '600',
+  },
   actionsRow: {
     flexDirection: 'row',
     gap: 8,
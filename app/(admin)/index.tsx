@@ -5,18 +5,37 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
+import { Can } from '@/components/can';
 import { LanguageToggle } from '@/components/ui/language-toggle';
-import { apiGet } from '@/lib/api';
+import { useCan } from '@/hooks/use-can';
+import {
+  appointmentsApi,
+  assignmentsApi,
+  commissionsApi,
+  customersApi,
+  servicesApi,
+  shiftSwapsApi,
+  timeOffApi,
+} from '@/lib/resources';
 import { Palette } from '@/constants/theme';
+import { getServiceLines, hasUnassignedLines } from '@/lib/appointment-services';
+import { isTerminalStatus } from '@/lib/appointment-status';
+import { canOpenRoute } from '@/lib/route-access';
 
 export default function AdminHome() {
   const { user, logout, token } = useAuth();
   const { t, locale } = useI18n();
+  const can = useCan();
+  const canReadCommissions = can('commissions:read');
+  const canWriteSchedules = can('schedules:write');
   const [stats, setStats] = useState({
     customers: 0,
     services: 0,
     appointments: 0,
     assignments: 0,
+    unassigned: 0,
+    pendingTimeOff: 0,
+    pendingSwaps: 0,
   });
   const [income, setIncome] = useState({
     ownerTotal: 0,
@@ -28,18 +47,31 @@ export default function AdminHome() {
   useEffect(() => {
     const load = async () => {
       try {
-        const [customers, services, appointments, assignments, commissions] = await Promise.all([
-          apiGet<any[]>('/customers', token),
-          apiGet<any[]>('/services', token),
-          apiGet<any[]>('/appointments', token),
-          apiGet<any[]>('/assignments', token),
-          apiGet<any[]>('/commissions', token),
-        ]);
+        const [customers, services, appointments, assignments, commissions, timeOff, swaps] =
+          await Promise.all([
+            customersApi.list(token),
+            servicesApi.list(token),
+            appointmentsApi.list(token),
+            assignmentsApi.list(token),
+            canReadCommissions ? commissionsApi.list(token) : Promise.resolve([]),
+            canWriteSchedules ? timeOffApi.list(token) : Promise.resolve([]),
+            canWriteSchedules ? shiftSwapsApi.list(token) : Promise.resolve([]),
+          ]);
+        const now = new Date();
+        const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
         setStats({
           customers: customers.length,
           services: services.length,
           appointments: appointments.length,
           assignments: assignments.length,
+          unassigned: appointments.filter(
+            (item) =>
+              !isTerminalStatus(item.status) &&
+              new Date(item.scheduledAt) >= startOfToday &&
+              hasUnassignedLines(getServiceLines(item)),
+          ).length,
+          pendingTimeOff: timeOff.filter((item) => item.status === 'pending').length,
+          pendingSwaps: swaps.filter((item) => item.status === 'accepted').length,
         });
         const ownerTotal = commissions.reduce(
           (sum, item) => sum + (item.ownerAmount ?? 0),
@@ -56,7 +88,6 @@ export default function AdminHome() {
           const name =
             employee?.displayName ??
             employee?.username ??
-            employee?.name ??
             t('employeeFallback');
           const current = grouped.get(id) ?? { id, name, total: 0 };
           current.total += item.employeeAmount ?? 0;
@@ -72,20 +103,44 @@ export default function AdminHome() {
       }
     };
     load();
-  }, [token, t]);
+  }, [canReadCommissions, canWriteSchedules, token, t]);
 
   const actions = useMemo(
-    () => [
-      { label: t('manageEmployees'), color: Palette.accentBlue, path: '/(admin)/employees' },
-      { label: t('manageCustomers'), color: Palette.accentPurple, path: '/(admin)/customers' },
-      { label: t('manageServices'), color: Palette.accentGreen, path: '/(admin)/services' },
-      { label: t('appointments'), color: Palette.accentOrange, path: '/(admin)/appointments' },
-      { label: t('schedules'), color: Palette.accentTeal, path: '/(admin)/schedules' },
-      { label: t('assignments'), color: Palette.accentBlue, path: '/(admin)/assignments' },
-      { label: t('commissions'), color: Palette.accentPink, path: '/(admin)/commissions' },
-      { label: t('payrolls'), color: Palette.accentGreen, path: '/(admin)/payrolls' },
-    ],
-    [t],
+    () =>
+      [
+        { label: t('manageEmployees'), color: Palette.accentBlue, path: '/(admin)/employees' },
+        { label: t('manageCustomers'), color: Palette.accentPurple, path: '/(admin)/customers' },
+        { label: t('manageServices'), color: Palette.accentGreen, path: '/(admin)/services' },
+        {
+          label: t('appointments'),
+          color: Palette.accentOrange,
+          path: '/(admin)/appointments',
+          count: stats.unassigned,
+          countLabel: t('unassignedCount'),
+        },
+        { label: t('schedules'), color: Palette.accentTeal, path: '/(admin)/schedules' },
+        {
+          label: t('timeOffQueue'),
+          color: Palette.accentPink,
+          path: '/(admin)/time-off',
+          count: stats.pendingTimeOff,
+          countLabel: t('pendingTimeOffCount'),
+        },
+        {
+          label: t('shiftSwaps'),
+          color: Palette.accentPurple,
+          path: '/(admin)/shift-swaps',
+          count: stats.pendingSwaps,
+          countLabel: t('swapsAwaitingCount'),
+        },
+        { label: t('assignments'), color: Palette.accentBlue, path: '/(admin)/assignments' },
+        { label: t('walkInQueue'), color: Palette.accentOrange, path: '/(admin)/walk-ins' },
+        { label: t('kioskTitle'), color: Palette.accentTeal, path: '/(admin)/kiosk' },
+        { label: t('commissions'), color: Palette.accentPink, path: '/(admin)/commissions' },
+        { label: t('payrolls'), color: Palette.accentGreen, path: '/(admin)/payrolls' },
+        { label: t('salonSettings'), color: Palette.accentTeal, path: '/(admin)/settings' },
+      ].filter((item) => user && canOpenRoute(user, item.path)),
+    [stats.pendingSwaps, stats.pendingTimeOff, stats.unassigned, t, user],
   );
 
   const filteredActions = useMemo(() => {
@@ -95,8 +150,8 @@ export default function AdminHome() {
   }, [actions, searchText]);
 
   const handleLogout = async () => {
+    // The group's RoleGate moves a signed-out user to the public home.
     await logout();
-    router.replace('/(public)');
   };
 
   const formatMoney = (value: number) => {
@@ -144,76 +199,78 @@ export default function AdminHome() {
             <StatCard label={t('totalAssignments')} value={stats.assignments} color={Palette.accentOrange} />
           </View>
         </View>
-        <View style={styles.section}>
-          <ThemedText type="subtitle">{t('totalIncome')}</ThemedText>
-          <View style={styles.chartCard}>
-            <View style={styles.chartRow}>
-              <ThemedText style={styles.chartLabel}>{t('ownerIncome')}</ThemedText>
-              <View style={styles.chartTrack}>
-                <View
-                  style={[
-                    styles.chartFill,
-                    {
-                      width: `${income.ownerTotal + income.employeeTotal === 0 ? 0 : (income.ownerTotal / (income.ownerTotal + income.employeeTotal)) * 100}%`,
-                      backgroundColor: Palette.accentBlue,
-                    },
-                  ]}
-                />
+        <Can I="commissions:read">
+          <View style={styles.section}>
+            <ThemedText type="subtitle">{t('totalIncome')}</ThemedText>
+            <View style={styles.chartCard}>
+              <View style={styles.chartRow}>
+                <ThemedText style={styles.chartLabel}>{t('ownerIncome')}</ThemedText>
+                <View style={styles.chartTrack}>
+                  <View
+                    style={[
+                      styles.chartFill,
+                      {
+                        width: `${income.ownerTotal + income.employeeTotal === 0 ? 0 : (income.ownerTotal / (income.ownerTotal + income.employeeTotal)) * 100}%`,
+                        backgroundColor: Palette.accentBlue,
+                      },
+                    ]}
+                  />
+                </View>
+                <ThemedText style={styles.chartValue}>{formatMoney(income.ownerTotal)}</ThemedText>
               </View>
-              <ThemedText style={styles.chartValue}>{formatMoney(income.ownerTotal)}</ThemedText>
-            </View>
-            <View style={styles.chartRow}>
-              <ThemedText style={styles.chartLabel}>{t('employeeIncome')}</ThemedText>
-              <View style={styles.chartTrack}>
-                <View
-                  style={[
-                    styles.chartFill,
-                    {
-                      width: `${income.ownerTotal + income.employeeTotal === 0 ? 0 : (income.employeeTotal / (income.ownerTotal + income.employeeTotal)) * 100}%`,
-                      backgroundColor: Palette.accentGreen,
-                    },
-                  ]}
-                />
+              <View style={styles.chartRow}>
+                <ThemedText style={styles.chartLabel}>{t('employeeIncome')}</ThemedText>
+                <View style={styles.chartTrack}>
+                  <View
+                    style={[
+                      styles.chartFill,
+                      {
+                        width: `${income.ownerTotal + income.employeeTotal === 0 ? 0 : (income.employeeTotal / (income.ownerTotal + income.employeeTotal)) * 100}%`,
+                        backgroundColor: Palette.accentGreen,
+                      },
+                    ]}
+                  />
+                </View>
+                <ThemedText style={styles.chartValue}>{formatMoney(income.employeeTotal)}</ThemedText>
               </View>
-              <ThemedText style={styles.chartValue}>{formatMoney(income.employeeTotal)}</ThemedText>
             </View>
-          </View>
-          <View style={styles.incomeGrid}>
-            <IncomeCard
-              label={t('ownerIncome')}
-              value={formatMoney(income.ownerTotal)}
-              color={Palette.accentBlue}
-            />
-            <IncomeCard
-              label={t('employeeIncome')}
-              value={formatMoney(income.employeeTotal)}
-              color={Palette.accentGreen}
-            />
-          </View>
-          <ThemedText type="defaultSemiBold">{t('incomeByEmployee')}</ThemedText>
-          {income.byEmployee.length === 0 ? (
-            <ThemedText style={styles.emptyText}>{t('noData')}</ThemedText>
-          ) : (
-            <View style={styles.incomeList}>
-              {income.byEmployee.map((item) => (
-                <View key={item.id} style={styles.employeeBarRow}>
-                  <View style={styles.employeeBarHeader}>
-                    <ThemedText>{item.name}</ThemedText>
-                    <ThemedText style={styles.incomeValue}>{formatMoney(item.total)}</ThemedText>
-                  </View>
-                  <View style={styles.employeeBarTrack}>
-                    <View
-                      style={[
-                        styles.employeeBarFill,
-                        { width: `${(item.total / maxEmployeeIncome) * 100}%` },
-                      ]}
-                    />
-                  </View>
-                </View>
-              ))}
+            <View style={styles.incomeGrid}>
+              <IncomeCard
+                label={t('ownerIncome')}
+                value={formatMoney(income.ownerTotal)}
+                color={Palette.accentBlue}
+              />
+              <IncomeCard
+                label={t('employeeIncome')}
+                value={formatMoney(income.employeeTotal)}
+                color={Palette.accentGreen}
+              />
             </View>
-          )}
-        </View>
+            <ThemedText type="defaultSemiBold">{t('incomeByEmployee')}</ThemedText>
+            {income.byEmployee.length === 0 ? (
+              <ThemedText style={styles.emptyText}>{t('noData')}</ThemedText>
+            ) : (
+              <View style={styles.incomeList}>
+                {income.byEmployee.map((item) => (
+                  <View key={item.id} style={styles.employeeBarRow}>
+                    <View style={styles.employeeBarHeader}>
+                      <ThemedText>{item.name}</ThemedText>
+                      <ThemedText style={styles.incomeValue}>{formatMoney(item.total)}</ThemedText>
+                    </View>
+                    <View style={styles.employeeBarTrack}>
+                      <View
+                        style={[
+                          styles.employeeBarFill,
+                          { width: `${(item.total / maxEmployeeIncome) * 100}%` },
+                        ]}
+                      />
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        </Can>
         <View style={styles.section}>
           <ThemedText type="subtitle">{t('quickActions')}</ThemedText>
           <View style={styles.actionsGrid}>
@@ -222,6 +279,8 @@ export default function AdminHome() {
                 key={item.path}
                 label={item.label}
                 color={item.color}
+                count={'count' in item ? item.count : undefined}
+                countLabel={'countLabel' in item ? item.countLabel : undefined}
                 onPress={() => router.push(item.path)}
               />
             ))}
@@ -259,13 +318,33 @@ function IncomeCard({ label, value, color }: { label: string; value: string; col
   );
 }
 
-function ActionCard({ label, color, onPress }: { label: string; color: string; onPress: () => void }) {
+function ActionCard({
+  label,
+  color,
+  count,
+  countLabel,
+  onPress,
+}: {
+  label: string;
+  color: string;
+  count?: number;
+  countLabel?: string;
+  onPress: () => void;
+}) {
   return (
     <Pressable style={[styles.actionCard, { backgroundColor: `${color}14` }]} onPress={onPress}>
-      <View style={styles.actionBadge}>
-        <View style={[styles.dot, { backgroundColor: color }]} />
+      <View style={styles.actionBadgeRow}>
+        <View style={styles.actionBadge}>
+          <View style={[styles.dot, { backgroundColor: color }]} />
+        </View>
+        {count ? (
+          <View style={styles.countBadge}>
+            <ThemedText style={styles.countText}>{count}</ThemedText>
+          </View>
+        ) : null}
       </View>
       <ThemedText style={styles.actionLabel}>{label}</ThemedText>
+      {count && countLabel ? <ThemedText style={styles.countLabel}>{countLabel}</ThemedText> : null}
     </Pressable>
   );
 }
@@ -439,6 +518,30 @@ const styles = StyleSheet.create({
   actionLabel: {
     fontWeight: '600',
   },
+  actionBadgeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  countBadge: {
+    minWidth: 22,
+    height: 22,
+    paddingHorizontal: 6,
+    borderRadius: 11,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Palette.danger,
+  },
+  countText: {
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  countLabel: {
+    fontSize: 11,
+    color: Palette.danger,
+  },
   actionBadge: {
     width: 32,
     height: 32,
@@ -0,0 +1,360 @@
+import { usePreventRemove } from '@react-navigation/native';
+import { router } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, Pressable, StyleSheet, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/context/auth-context';
+import { useI18n } from '@/context/i18n-context';
+import { Card } from '@/components/ui/card';
+import { FormInput } from '@/components/ui/form-input';
+import { PrimaryButton } from '@/components/ui/primary-button';
+import { Palette } from '@/constants/theme';
+import type { WorkSchedule } from '@/lib/domain';
+import { kioskApi, usersApi, workSchedulesApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
+import { getKioskShifts, isValidPin, KIOSK_IDLE_MS, PIN_MAX_LENGTH } from '@/lib/kiosk';
+import { getOpenBreak } from '@/lib/shift-breaks';
+
+const PAD_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
+
+const formatTime24 = (value: Date, locale: string) =>
+  value.toLocaleTimeString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+export default function KioskScreen() {
+  const { user, token } = useAuth();
+  const { t, locale } = useI18n();
+  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pin, setPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exiting, setExiting] = useState(false);
+  const [exitPassword, setExitPassword] = useState('');
+  const [unlocked, setUnlocked] = useState(false);
+
+  // The tablet stays signed in as staff, so leaving the kiosk takes that account's password.
+  usePreventRemove(!unlocked, () => setExiting(true));
+
+  useEffect(() => {
+    if (!unlocked) return;
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(admin)');
+    }
+  }, [unlocked]);
+
+  const load = async () => {
+    try {
+      const data = await workSchedulesApi.list(token);
+      setSchedules(data);
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [token]);
+
+  const closePad = () => {
+    setSelectedId(null);
+    setPin('');
+    setExiting(false);
+    setExitPassword('');
+    setError(null);
+  };
+
+  // Every key press restarts the countdown; an abandoned pad or exit form returns to the list.
+  // The countdown waits while a punch or exit check is in flight.
+  useEffect(() => {
+    if (busy || (!selectedId && !exiting)) return;
+    const timer = setTimeout(closePad, KIOSK_IDLE_MS);
+    return () => clearTimeout(timer);
+  }, [busy, exitPassword, exiting, pin, selectedId]);
+
+  const handleExit = async () => {
+    setBusy(true);
+    try {
+      await usersApi.verifyPassword({ currentPassword: exitPassword }, token);
+      setUnlocked(true);
+    } catch (err) {
+      setExitPassword('');
+      setError(getErrorMessage(err, t));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const shifts = useMemo(() => getKioskShifts(schedules), [schedules]);
+  const selected = shifts.find((item) => item._id === selectedId);
+  const clockingOut = Boolean(selected?.checkInAt);
+
+  const nameOf = (shift: WorkSchedule) =>
+    shift.employee?.displayName ?? shift.employee?.username ?? t('employeeFallback');
+
+  const handleKey = (key: string) => {
+    setError(null);
+    if (key === 'clear') {
+      setPin('');
+    } else if (key === 'back') {
+      setPin((prev) => prev.slice(0, -1));
+    } else {
+      setPin((prev) => (prev.length < PIN_MAX_LENGTH ? prev + key : prev));
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!selected) return;
+    if (!isValidPin(pin)) {
+      setError(t('errorPinFormat'));
+      return;
+    }
+    setBusy(true);
+    try {
+      const body = { scheduleId: selected._id, pin };
+      if (clockingOut) {
+        await kioskApi.checkOut(body, token);
+        Alert.alert(t('successTitle'), t('kioskClockedOut').replace('{name}', nameOf(selected)));
+      } else {
+        const result = await kioskApi.checkIn(body, token);
+        if (result?.isLate) {
+          Alert.alert(
+            t('lateCheckInTitle'),
+            t('lateCheckInWarning').replace('{minutes}', String(result.lateMinutes ?? 0)),
+          );
+        } else {
+          Alert.alert(t('successTitle'), t('kioskClockedIn').replace('{name}', nameOf(selected)));
+        }
+      }
+      closePad();
+      await load();
+    } catch (err) {
+      setPin('');
+      setError(getErrorMessage(err, t));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (exiting) {
+    return (
+      <ThemedView style={styles.padContainer} lightColor={Palette.background}>
+        <ThemedText type="title">{t('kioskExit')}</ThemedText>
+        <ThemedText style={styles.helperText}>
+          {t('kioskExitHint').replace('{name}', user?.displayName ?? user?.username ?? '')}
+        </ThemedText>
+        <View style={styles.padActions}>
+          <FormInput
+            label={t('password')}
+            value={exitPassword}
+            onChangeText={setExitPassword}
+            secureTextEntry
+            autoFocus
+          />
+          {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+          <PrimaryButton
+            label={t('kioskExit')}
+            variant="danger"
+            disabled={busy || !exitPassword}
+            onPress={handleExit}
+          />
+          <PrimaryButton label={t('close')} variant="secondary" onPress={closePad} />
+        </View>
+      </ThemedView>
+    );
+  }
+
+  if (selected) {
+    return (
+      <ThemedView style={styles.padContainer} lightColor={Palette.background}>
+        <ThemedText type="title">{nameOf(selected)}</ThemedText>
+        <ThemedText style={styles.helperText}>
+          {formatTime24(new Date(selected.startAt), locale)} -{' '}
+          {formatTime24(new Date(selected.endAt), locale)}
+        </ThemedText>
+        <ThemedText type="defaultSemiBold">{t('kioskEnterPin')}</ThemedText>
+        <View style={styles.dots}>
+          {Array.from({ length: PIN_MAX_LENGTH }, (_, index) => (
+            <View key={index} style={[styles.dot, index < pin.length && styles.dotFilled]} />
+          ))}
+        </View>
+        {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+        <View style={styles.pad}>
+          {PAD_KEYS.map((key) => (
+            <Pressable key={key} style={styles.padKey} onPress={() => handleKey(key)}>
+              {key === 'back' ? (
+                <Ionicons name="backspace-outline" size={26} color={Palette.navy} />
+              ) : (
+                <ThemedText style={key === 'clear' ? styles.padKeySmall : styles.padKeyText}>
+                  {key === 'clear' ? t('kioskClear') : key}
+                </ThemedText>
+              )}
+            </Pressable>
+          ))}
+        </View>
+        <View style={styles.padActions}>
+          <PrimaryButton
+            label={clockingOut ? t('checkOut') : t('checkIn')}
+            disabled={busy || !isValidPin(pin)}
+            onPress={handleSubmit}
+          />
+          <PrimaryButton label={t('close')} variant="secondary" onPress={closePad} />
+        </View>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container} lightColor={Palette.background}>
+      <FlatList
+        data={shifts}
+        keyExtractor={(item) => item._id}
+        numColumns={2}
+        columnWrapperStyle={styles.columns}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText type="title">{t('kioskTitle')}</ThemedText>
+            <ThemedText style={styles.helperText}>{t('kioskHint')}</ThemedText>
+            {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+          </View>
+        }
+        ListEmptyComponent={<ThemedText style={styles.helperText}>{t('kioskNoShifts')}</ThemedText>}
+        renderItem={({ item }) => {
+          const done = Boolean(item.checkOutAt);
+          const onBreak = !done && Boolean(getOpenBreak(item));
+          let statusLabel = t('notCheckedIn');
+          let statusColor = Palette.accentOrange;
+          if (done) {
+            statusLabel = t('kioskDone');
+            statusColor = Palette.mutedText;
+          } else if (onBreak) {
+            statusLabel = t('kioskOnBreak');
+            statusColor = Palette.accentBlue;
+          } else if (item.checkInAt) {
+            statusLabel = t('kioskOnShift');
+            statusColor = Palette.success;
+          }
+          return (
+            <Pressable
+              style={styles.tile}
+              disabled={done}
+              onPress={() => {
+                setError(null);
+                setSelectedId(item._id);
+              }}
+            >
+              <Card>
+                <ThemedText type="defaultSemiBold" numberOfLines={1}>
+                  {nameOf(item)}
+                </ThemedText>
+                <ThemedText style={styles.helperText}>
+                  {formatTime24(new Date(item.startAt), locale)} -{' '}
+                  {formatTime24(new Date(item.endAt), locale)}
+                </ThemedText>
+                <ThemedText style={[styles.statusText, { color: statusColor }]}>
+                  {statusLabel}
+                </ThemedText>
+              </Card>
+            </Pressable>
+          );
+        }}
+        ListFooterComponent={
+          <Pressable style={styles.exitLink} onPress={() => setExiting(true)}>
+            <ThemedText style={styles.helperText}>{t('kioskExit')}</ThemedText>
+          </Pressable>
+        }
+        contentContainerStyle={styles.content}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  header: {
+    gap: 8,
+  },
+  columns: {
+    gap: 12,
+  },
+  tile: {
+    flex: 1,
+  },
+  exitLink: {
+    alignSelf: 'center',
+    padding: 12,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  padContainer: {
+    flex: 1,
+    padding: 24,
+    gap: 16,
+    alignItems: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: Palette.navy,
+  },
+  dotFilled: {
+    backgroundColor: Palette.navy,
+  },
+  pad: {
+    width: 264,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  padKey: {
+    width: 80,
+    height: 64,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Palette.surface,
+    borderWidth: 1,
+    borderColor: Palette.border,
+  },
+  padKeyText: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: Palette.navy,
+  },
+  padKeySmall: {
+    fontSize: 14,
+    color: Palette.mutedText,
+  },
+  padActions: {
+    width: 264,
+    gap: 8,
+  },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+  error: {
+    color: '#c00',
+  },
+});
@@ -2,9 +2,10 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { Alert, FlatList, StyleSheet, View } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { Can } from '@/components/can';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiDelete, apiGet, apiPatch, apiPost } from '@/lib/api';
+import { useSalonHours } from '@/context/salon-hours-context';
 import { Card } from '@/components/ui/card';
 import { FormInput } from '@/components/ui/form-input';
 import { IconButton } from '@/components/ui/icon-button';
@@ -13,35 +14,10 @@ import { Section } from '@/components/ui/section';
 import { SearchSelect } from '@/components/ui/search-select';
 import { DateTimeInput } from '@/components/ui/date-time-input';
 import { Palette } from '@/constants/theme';
-
-type Payroll = {
-  _id: string;
-  employee?: { _id?: string; displayName?: string; username?: string };
-  periodStart: string;
-  periodEnd: string;
-  serviceSales: number;
-  supplyFee: number;
-  netServiceSales: number;
-  serviceCommission: number;
-  tip: number;
-  productSales: number;
-  workingHours: number;
-};
-
-type Employee = { _id: string; displayName?: string; username?: string; role?: string };
-
-type Commission = {
-  employee?: { _id?: string };
-  employeeAmount: number;
-  assignment?: { completedAt?: string; scheduledAt?: string };
-};
-
-type WorkSchedule = {
-  _id: string;
-  employee?: { _id?: string };
-  checkInAt?: string;
-  checkOutAt?: string;
-};
+import type { Employee, Payroll } from '@/lib/domain';
+import { commissionsApi, payrollsApi, usersApi, workSchedulesApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
+import { getWorkedHours, isBreakOverPolicy } from '@/lib/shift-breaks';
 
 const getCurrentMonthRange = () => {
   const now = new Date();
@@ -60,6 +36,7 @@ const parseNumber = (value: string) => {
 export default function PayrollsScreen() {
   const { token } = useAuth();
   const { t, locale } = useI18n();
+  const { hours: salonHours } = useSalonHours();
   const defaultPeriod = useMemo(() => getCurrentMonthRange(), []);
   const [payrolls, setPayrolls] = useState<Payroll[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
@@ -79,17 +56,18 @@ export default function PayrollsScreen() {
   const [tip, setTip] = useState('');
   const [productSales, setProductSales] = useState('');
   const [workingHours, setWorkingHours] = useState('');
+  const [longBreaks, setLongBreaks] = useState(0);
 
   const load = async () => {
     try {
       const [payrollData, employeeData] = await Promise.all([
-        apiGet<Payroll[]>('/payrolls', token),
-        apiGet<Employee[]>('/users', token),
+        payrollsApi.list(token),
+        usersApi.list(token),
       ]);
       setPayrolls(payrollData);
       setEmployees(employeeData.filter((item) => item.role === 'employee'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -127,7 +105,7 @@ export default function PayrollsScreen() {
         return;
       }
       try {
-        const commissions = await apiGet<Commission[]>('/commissions', token);
+        const commissions = await commissionsApi.list(token);
         const total = commissions.reduce((sum, item) => {
           if (item.employee?._id !== selectedEmployeeId) return sum;
           const timeValue = item.assignment?.completedAt ?? item.assignment?.scheduledAt;
@@ -156,26 +134,28 @@ export default function PayrollsScreen() {
         return;
       }
       try {
-        const schedules = await apiGet<WorkSchedule[]>('/work-schedules', token);
-        const totalHours = schedules.reduce((sum, item) => {
-          if (item.employee?._id !== selectedEmployeeId) return sum;
-          if (!item.checkInAt || !item.checkOutAt) return sum;
-          const checkIn = new Date(item.checkInAt).getTime();
-          const checkOut = new Date(item.checkOutAt).getTime();
-          if (Number.isNaN(checkIn) || Number.isNaN(checkOut)) return sum;
-          const overlapStart = Math.max(checkIn, start);
-          const overlapEnd = Math.min(checkOut, end);
-          if (overlapEnd <= overlapStart) return sum;
-          const hours = (overlapEnd - overlapStart) / (1000 * 60 * 60);
-          return sum + hours;
-        }, 0);
+        const schedules = (await workSchedulesApi.list(token)).filter(
+          (item) => item.employee?._id === selectedEmployeeId,
+        );
+        const totalHours = schedules.reduce(
+          (sum, item) => sum + getWorkedHours(item, start, end),
+          0,
+        );
         setWorkingHours(String(Number(totalHours.toFixed(2))));
+        setLongBreaks(
+          schedules
+            .flatMap((item) => item.breaks ?? [])
+            .filter((item) => {
+              const breakStart = new Date(item.startAt).getTime();
+              return breakStart >= start && breakStart < end && isBreakOverPolicy(item, salonHours);
+            }).length,
+        );
       } catch {
         // Ignore auto-calc failures and allow manual entry
       }
     };
     autoFillWorkingHours();
-  }, [periodEnd, periodStart, selectedEmployeeId, token]);
+  }, [periodEnd, periodStart, salonHours, selectedEmployeeId, token]);
 
   const handleCreate = async () => {
     if (!selectedEmployeeId) {
@@ -195,8 +175,8 @@ export default function PayrollsScreen() {
     setLoading(true);
     try {
       if (editingId) {
-        await apiPatch(
-          `/payrolls/${editingId}`,
+        await payrollsApi.update(
+          editingId,
           {
             employeeId: selectedEmployeeId,
             periodStart,
@@ -212,8 +192,7 @@ export default function PayrollsScreen() {
           token,
         );
       } else {
-        await apiPost(
-          '/payrolls',
+        await payrollsApi.create(
           {
             employeeId: selectedEmployeeId,
             periodStart,
@@ -239,6 +218,7 @@ export default function PayrollsScreen() {
       setTip('');
       setProductSales('');
       setWorkingHours('');
+      setLongBreaks(0);
       setEditingId(null);
       await load();
       if (!isEditing) {
@@ -248,7 +228,7 @@ export default function PayrollsScreen() {
         Alert.alert(t('successTitle'), t('updateSuccess'));
       }
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     } finally {
       setLoading(false);
     }
@@ -257,11 +237,11 @@ export default function PayrollsScreen() {
   const handleDelete = async (id: string) => {
     setError(null);
     try {
-      await apiDelete(`/payrolls/${id}`, token);
+      await payrollsApi.remove(id, token);
       await load();
       Alert.alert(t('successTitle'), t('deleteSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -338,31 +318,40 @@ export default function PayrollsScreen() {
                 <FormInput label={t('tip')} value={tip} onChangeText={setTip} keyboardType="numeric" />
                 <FormInput label={t('productSales')} value={productSales} onChangeText={setProductSales} keyboardType="numeric" />
                 <FormInput label={t('workingHours')} value={workingHours} onChangeText={setWorkingHours} keyboardType="numeric" />
+                <ThemedText style={styles.helperText}>{t('workingHoursHint')}</ThemedText>
+                {longBreaks > 0 && (
+                  <ThemedText style={styles.warningText}>
+                    {t('longBreaksInPeriod').replace('{n}', String(longBreaks))}
+                  </ThemedText>
+                )}
                 <PrimaryButton
                   label={loading ? t('saving') : editingId ? t('updatePayroll') : t('createPayroll')}
                   onPress={handleCreate}
                 />
               </Section>
             )}
-            <PrimaryButton
-              label={showCreate ? t('close') : t('createPayroll')}
-              onPress={() => {
-                setShowCreate((prev) => !prev);
-                if (showCreate) {
-                  setEditingId(null);
-                  setSelectedEmployeeId(null);
-                  setPeriodStart(defaultPeriod.start.toISOString());
-                  setPeriodEnd(defaultPeriod.end.toISOString());
-                  setServiceSales('');
-                  setSupplyFee('');
-                  setNetServiceSales('');
-                  setServiceCommission('');
-                  setTip('');
-                  setProductSales('');
-                  setWorkingHours('');
-                }
-              }}
-            />
+            <Can I="payroll:write">
+              <PrimaryButton
+                label={showCreate ? t('close') : t('createPayroll')}
+                onPress={() => {
+                  setShowCreate((prev) => !prev);
+                  if (showCreate) {
+                    setEditingId(null);
+                    setSelectedEmployeeId(null);
+                    setPeriodStart(defaultPeriod.start.toISOString());
+                    setPeriodEnd(defaultPeriod.end.toISOString());
+                    setServiceSales('');
+                    setSupplyFee('');
+                    setNetServiceSales('');
+                    setServiceCommission('');
+                    setTip('');
+                    setProductSales('');
+                    setWorkingHours('');
+                    setLongBreaks(0);
+                  }
+                }}
+              />
+            </Can>
             {error && <ThemedText style={styles.error}>{error}</ThemedText>}
           </View>
         }
@@ -381,18 +370,20 @@ export default function PayrollsScreen() {
                   </ThemedText>
                 </View>
               </View>
-              <View style={styles.actionsRow}>
-                <IconButton
-                  icon="create-outline"
-                  variant="primary"
-                  onPress={() => handleEdit(item)}
-                />
-                <IconButton
-                  icon="trash-outline"
-                  variant="danger"
-                  onPress={() => handleDelete(item._id)}
-                />
-              </View>
+              <Can I="payroll:write">
+                <View style={styles.actionsRow}>
+                  <IconButton
+                    icon="create-outline"
+                    variant="primary"
+                    onPress={() => handleEdit(item)}
+                  />
+                  <IconButton
+                    icon="trash-outline"
+                    variant="danger"
+                    onPress={() => handleDelete(item._id)}
+                  />
+                </View>
+              </Can>
             </View>
             <View style={styles.row}>
               <ThemedText style={styles.rowLabel}>{t('serviceSales')}</ThemedText>
@@ -504,4 +495,12 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+  warningText: {
+    color: Palette.danger,
+    fontSize: 12,
+  },
 });
@@ -2,31 +2,43 @@ import React, { useMemo, useEffect, useState } from 'react';
 import { Alert, FlatList, Pressable, ScrollView, StyleSheet, View } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { Can } from '@/components/can';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiDelete, apiGet, apiPatch, apiPost } from '@/lib/api';
+import { useSalonHours } from '@/context/salon-hours-context';
 import { Card } from '@/components/ui/card';
 import { FormInput } from '@/components/ui/form-input';
 import { IconButton } from '@/components/ui/icon-button';
+import { OptionPill } from '@/components/ui/option-pill';
 import { PrimaryButton } from '@/components/ui/primary-button';
 import { Section } from '@/components/ui/section';
 import { SearchSelect } from '@/components/ui/search-select';
 import { DateTimeInput } from '@/components/ui/date-time-input';
+import { useCan } from '@/hooks/use-can';
 import { Palette } from '@/constants/theme';
-import { isWithinSalonHoursForSchedule } from '@/constants/salon-hours';
-
-type WorkSchedule = {
-  _id: string;
-  employee?: { _id?: string; displayName?: string; username?: string };
-  startAt: string;
-  endAt: string;
-  note?: string;
-};
-
-type Employee = { _id: string; displayName?: string; username?: string; role?: string };
+import { getSalonHourRange, getScheduleHoursError, parseClock } from '@/constants/salon-hours';
+import type { Employee, ShiftTemplate, TimeOffRequest, WorkSchedule } from '@/lib/domain';
+import { shiftTemplatesApi, usersApi, workSchedulesApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
+import {
+  BREAK_TYPE_LABEL_KEYS,
+  getBreakMinutes,
+  getWorkedHours,
+  isBreakOverPolicy,
+} from '@/lib/shift-breaks';
+import { buildShiftCopies, type CopySkipReason, MAX_COPY_DAYS } from '@/lib/shift-copy';
+import { findLeaveConflict, getApprovedLeave, listLeaveForChecks } from '@/lib/time-off';
 
 type CalendarDay = { date: Date };
 type DayShift = { id: string; employeeId: string; timeLabel: string; note?: string };
+type CopyTarget = 'nextWeek' | 'range';
+
+const COPY_SKIP_LABEL_KEYS: Record<CopySkipReason, string> = {
+  overlap: 'copySkippedOverlap',
+  past: 'copySkippedPast',
+  leave: 'copySkippedLeave',
+  closed: 'copySkippedClosed',
+};
 
 const formatTime24 = (value: Date, locale: string) =>
   value.toLocaleTimeString(locale === 'vi' ? 'vi-VN' : 'en-US', {
@@ -60,11 +72,18 @@ const buildSelectedRange = (value: string) => {
   return { start, end };
 };
 
+/** Clock time of `day` at `clock` ('HH:mm'). */
+const atClock = (day: Date, clock: string) => {
+  const minutes = parseClock(clock);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+};
+
+const toClock = (value: Date) =>
+  `${String(value.getHours()).padStart(2, '0')}:${String(value.getMinutes()).padStart(2, '0')}`;
+
 const PERSON_COL_WIDTH = 96;
 const DAY_COL_WIDTH = 80;
 const TIME_COL_WIDTH = 72;
-const HOUR_START = 7;
-const HOUR_END = 20;
 
 const formatHourLabel = (hour: number) =>
   `${String(hour).padStart(2, '0')}:00 - ${String(hour + 1).padStart(2, '0')}:00`;
@@ -72,6 +91,8 @@ const formatHourLabel = (hour: number) =>
 export default function SchedulesScreen() {
   const { token } = useAuth();
   const { t, locale } = useI18n();
+  const { hours: salonHours } = useSalonHours();
+  const can = useCan();
   const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [employees, setEmployees] = useState<Employee[]>([]);
@@ -85,17 +106,30 @@ export default function SchedulesScreen() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [calendarWeek, setCalendarWeek] = useState(new Date());
   const [selectedDateKey, setSelectedDateKey] = useState(toDateKey(new Date()));
+  const [templates, setTemplates] = useState<ShiftTemplate[]>([]);
+  const [timeOff, setTimeOff] = useState<TimeOffRequest[]>([]);
+  const [templateName, setTemplateName] = useState('');
+  const [showCopy, setShowCopy] = useState(false);
+  const [copyTarget, setCopyTarget] = useState<CopyTarget>('nextWeek');
+  const [copyFrom, setCopyFrom] = useState('');
+  const [copyUntil, setCopyUntil] = useState('');
+  const [copying, setCopying] = useState(false);
 
   const load = async () => {
     try {
-      const [schedulesData, employeesData] = await Promise.all([
-        apiGet<WorkSchedule[]>('/work-schedules', token),
-        apiGet<Employee[]>('/users', token),
+      const [schedulesData, employeesData, templatesData, timeOffData] = await Promise.all([
+        workSchedulesApi.list(token),
+        usersApi.list(token),
+        shiftTemplatesApi.list(token),
+        // Without `schedules:write` the leave list may be refused; show the shifts anyway.
+        listLeaveForChecks(token),
       ]);
       setSchedules(schedulesData);
-      setEmployees(employeesData.filter((item) => item.role !== 'admin'));
+      setEmployees(employeesData.filter((item) => item.role === 'employee'));
+      setTemplates(templatesData);
+      setTimeOff(timeOffData);
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -115,11 +149,9 @@ export default function SchedulesScreen() {
         return;
       }
     }
-    if (
-      !isWithinSalonHoursForSchedule(new Date(startAt)) ||
-      !isWithinSalonHoursForSchedule(new Date(endAt))
-    ) {
-      setError(t('errorScheduleOutsideHours'));
+    const hoursError = getScheduleHoursError(new Date(startAt), new Date(endAt), salonHours, t);
+    if (hoursError) {
+      setError(hoursError);
       return;
     }
     if (new Date(startAt) >= new Date(endAt)) {
@@ -139,14 +171,18 @@ export default function SchedulesScreen() {
       setError(t('errorScheduleOverlapEmployee'));
       return;
     }
+    if (findLeaveConflict(timeOff, selectedEmployeeId, targetStart, targetEnd)) {
+      setError(t('errorEmployeeOnLeave'));
+      return;
+    }
     const isEditing = Boolean(editingId);
     setError(null);
     setLoading(true);
     try {
       const createdStartAt = startAt;
       if (editingId) {
-        await apiPatch(
-          `/work-schedules/${editingId}`,
+        await workSchedulesApi.update(
+          editingId,
           {
             employeeId: selectedEmployeeId,
             startAt,
@@ -156,8 +192,7 @@ export default function SchedulesScreen() {
           token,
         );
       } else {
-        await apiPost(
-          '/work-schedules',
+        await workSchedulesApi.create(
           {
             employeeId: selectedEmployeeId,
             startAt,
@@ -181,7 +216,7 @@ export default function SchedulesScreen() {
         Alert.alert(t('successTitle'), t('updateSuccess'));
       }
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     } finally {
       setLoading(false);
     }
@@ -190,11 +225,11 @@ export default function SchedulesScreen() {
   const handleDelete = async (id: string) => {
     setError(null);
     try {
-      await apiDelete(`/work-schedules/${id}`, token);
+      await workSchedulesApi.remove(id, token);
       await load();
       Alert.alert(t('successTitle'), t('deleteSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -207,6 +242,54 @@ export default function SchedulesScreen() {
     setNote(item.note ?? '');
   };
 
+  const applyTemplate = (template: ShiftTemplate) => {
+    const day = new Date(startAt);
+    setStartAt(atClock(day, template.start).toISOString());
+    setEndAt(atClock(day, template.end).toISOString());
+  };
+
+  const handleSaveTemplate = async () => {
+    const nameValue = templateName.trim();
+    if (!nameValue) {
+      setError(t('errorTemplateNameRequired'));
+      return;
+    }
+    const start = toClock(new Date(startAt));
+    const end = toClock(new Date(endAt));
+    if (parseClock(start) >= parseClock(end)) {
+      setError(t('errorScheduleEndBeforeStart'));
+      return;
+    }
+    setError(null);
+    try {
+      const created = await shiftTemplatesApi.create({ name: nameValue, start, end }, token);
+      setTemplates((prev) => [...prev, created]);
+      setTemplateName('');
+      Alert.alert(t('successTitle'), t('createSuccess'));
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    }
+  };
+
+  const handleDeleteTemplate = (template: ShiftTemplate) => {
+    Alert.alert(t('shiftTemplates'), t('deleteTemplateConfirm').replace('{name}', template.name), [
+      { text: t('close'), style: 'cancel' },
+      {
+        text: t('delete'),
+        style: 'destructive',
+        onPress: async () => {
+          setError(null);
+          try {
+            await shiftTemplatesApi.remove(template._id, token);
+            setTemplates((prev) => prev.filter((item) => item._id !== template._id));
+          } catch (err) {
+            setError(getErrorMessage(err, t));
+          }
+        },
+      },
+    ]);
+  };
+
   const dayLabels = useMemo(
     () => [t('dayMon'), t('dayTue'), t('dayWed'), t('dayThu'), t('dayFri'), t('daySat'), t('daySun')],
     [t],
@@ -226,6 +309,88 @@ export default function SchedulesScreen() {
 
   const weekDays = useMemo(() => buildWeekDays(calendarWeek), [calendarWeek]);
 
+  const copyRange = useMemo(() => {
+    if (copyTarget === 'nextWeek') {
+      const monday = weekDays[0].date;
+      return {
+        from: new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 7),
+        until: new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 13),
+      };
+    }
+    const from = buildSelectedRange(copyFrom.trim());
+    const until = buildSelectedRange(copyUntil.trim());
+    if (!from || !until) return null;
+    return { from: from.start, until: until.start };
+  }, [copyFrom, copyTarget, copyUntil, weekDays]);
+
+  const copyRangeError = useMemo(() => {
+    if (!copyRange) return t('errorInvalidDate');
+    if (copyRange.until < copyRange.from) return t('errorCopyRangeOrder');
+    const days = Math.round((copyRange.until.getTime() - copyRange.from.getTime()) / 86400000) + 1;
+    if (days > MAX_COPY_DAYS) {
+      return t('errorCopyRangeTooLong').replace('{n}', String(MAX_COPY_DAYS));
+    }
+    return null;
+  }, [copyRange, t]);
+
+  const copyPreview = useMemo(() => {
+    if (!showCopy || !copyRange || copyRangeError) return [];
+    return buildShiftCopies(
+      schedules,
+      weekDays[0].date,
+      copyRange.from,
+      copyRange.until,
+      timeOff,
+      salonHours,
+    );
+  }, [copyRange, copyRangeError, salonHours, schedules, showCopy, timeOff, weekDays]);
+
+  const readyCopies = copyPreview.filter((item) => !item.skipReason);
+
+  const handleCopyWeek = async () => {
+    if (copyRangeError) {
+      setError(copyRangeError);
+      return;
+    }
+    if (readyCopies.length === 0) {
+      setError(t('errorNothingToCopy'));
+      return;
+    }
+    setError(null);
+    setCopying(true);
+    let created = 0;
+    try {
+      // One at a time so the server's own overlap check sees the shifts already copied.
+      for (const item of readyCopies) {
+        try {
+          await workSchedulesApi.create(
+            {
+              employeeId: item.employee._id,
+              startAt: item.startAt.toISOString(),
+              endAt: item.endAt.toISOString(),
+              note: item.note,
+            },
+            token,
+          );
+          created += 1;
+        } catch {
+          // Counted below; the rest of the copy still goes ahead.
+        }
+      }
+      await load();
+      const failed = readyCopies.length - created;
+      Alert.alert(
+        t('successTitle'),
+        failed > 0
+          ? t('shiftsCopiedPartial').replace('{n}', String(created)).replace('{failed}', String(failed))
+          : t('shiftsCopied').replace('{n}', String(created)),
+      );
+      if (failed === 0) setShowCopy(false);
+    } finally {
+      setCopying(false);
+    }
+  };
+
   const scheduleDateKeys = useMemo(() => {
     const keys = new Set<string>();
     schedules.forEach((item) => {
@@ -274,15 +439,35 @@ export default function SchedulesScreen() {
     });
   }, [schedules, searchText, weekDays]);
 
-  const hours = useMemo(
-    () => Array.from({ length: HOUR_END - HOUR_START }, (_, index) => HOUR_START + index),
-    [],
+  // Shifts clocked into this week, with their breaks and net hours.
+  const attendance = useMemo(
+    () =>
+      filteredSchedules
+        .filter((item) => item.checkInAt)
+        .sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime()),
+    [filteredSchedules],
   );
 
+  const longBreakIds = useMemo(
+    () =>
+      new Set(
+        attendance
+          .filter((item) => item.breaks?.some((entry) => isBreakOverPolicy(entry, salonHours)))
+          .map((item) => item._id),
+      ),
+    [attendance, salonHours],
+  );
+
+  const hours = useMemo(() => {
+    const { startHour, endHour } = getSalonHourRange(salonHours);
+    return Array.from({ length: endHour - startHour }, (_, index) => startHour + index);
+  }, [salonHours]);
+
   const timeGridMap = useMemo(() => {
     const map = new Map<string, { id: string; name: string }[]>();
     filteredSchedules.forEach((item) => {
-      if (!item.employee?._id) return;
+      const employee = item.employee;
+      if (!employee?._id) return;
       const start = new Date(item.startAt);
       const end = new Date(item.endAt);
       const dayKey = toDateKey(start);
@@ -310,7 +495,7 @@ export default function SchedulesScreen() {
           const list = map.get(key) ?? [];
           list.push({
             id: item._id,
-            name: item.employee.displayName ?? item.employee.username ?? t('employeeFallback'),
+            name: employee.displayName ?? employee.username ?? t('employeeFallback'),
           });
           map.set(key, list);
         }
@@ -319,6 +504,32 @@ export default function SchedulesScreen() {
     return map;
   }, [filteredSchedules, hours, t]);
 
+  // Approved leave per grid cell, so the hours an employee is away read as greyed out.
+  const leaveGridMap = useMemo(() => {
+    const map = new Map<string, { id: string; name: string }[]>();
+    getApprovedLeave(timeOff).forEach((window) => {
+      const employee = window.request.employee;
+      if (!employee?._id) return;
+      const dayKey = toDateKey(window.start);
+      hours.forEach((hour) => {
+        const slotStart = new Date(window.start);
+        slotStart.setHours(hour, 0, 0, 0);
+        const slotEnd = new Date(window.start);
+        slotEnd.setHours(hour + 1, 0, 0, 0);
+        if (window.start < slotEnd && window.end > slotStart) {
+          const key = `${dayKey}-${hour}`;
+          const list = map.get(key) ?? [];
+          list.push({
+            id: window.request._id,
+            name: employee.displayName ?? employee.username ?? t('employeeFallback'),
+          });
+          map.set(key, list);
+        }
+      });
+    });
+    return map;
+  }, [hours, t, timeOff]);
+
   const handleSelectDate = (value: Date) => {
     const nextKey = toDateKey(value);
     setSelectedDateKey(nextKey);
@@ -352,8 +563,12 @@ export default function SchedulesScreen() {
         locale,
       )} - ${formatTime24(new Date(schedule.endAt), locale)}`,
       [
-        { text: t('edit'), onPress: () => handleEdit(schedule) },
-        { text: t('delete'), style: 'destructive', onPress: () => handleDelete(schedule._id) },
+        ...(can('schedules:write')
+          ? [
+              { text: t('edit'), onPress: () => handleEdit(schedule) },
+              { text: t('delete'), style: 'destructive' as const, onPress: () => handleDelete(schedule._id) },
+            ]
+          : []),
         { text: t('close'), style: 'cancel' },
       ],
     );
@@ -362,8 +577,8 @@ export default function SchedulesScreen() {
   return (
     <ThemedView style={styles.container} lightColor="#f6f7f9">
       <FlatList
-        data={[]}
-        keyExtractor={() => 'schedule'}
+        data={attendance}
+        keyExtractor={(item) => item._id}
         ListHeaderComponent={
           <View style={styles.header}>
             <ThemedText type="title">{t('schedulesTitle')}</ThemedText>
@@ -432,6 +647,7 @@ export default function SchedulesScreen() {
                       {weekDays.map((day) => {
                         const key = `${toDateKey(day.date)}-${hour}`;
                         const cellEmployees = timeGridMap.get(key) ?? [];
+                        const cellLeave = leaveGridMap.get(key) ?? [];
                         const hasShift = cellEmployees.length > 0;
                         return (
                           <View
@@ -440,21 +656,29 @@ export default function SchedulesScreen() {
                               styles.timeCell,
                               styles.dayCell,
                               hasShift && styles.dayCellBusy,
+                              !hasShift && cellLeave.length > 0 && styles.dayCellLeave,
                             ]}
                           >
-                            {cellEmployees.length === 0 ? null : (
+                            {cellEmployees.length === 0 && cellLeave.length === 0 ? null : (
                               <View style={styles.shiftStack}>
                                 {cellEmployees.map((item) => (
                                   <Pressable
                                     key={item.id}
                                     onPress={() => handleShiftAction(item.id)}
-                                    style={styles.shiftPill}
+                                    style={[styles.shiftPill, longBreakIds.has(item.id) && styles.shiftPillFlagged]}
                                   >
                                     <ThemedText style={styles.shiftTime} numberOfLines={1}>
                                       {item.name}
                                     </ThemedText>
                                   </Pressable>
                                 ))}
+                                {cellLeave.map((item) => (
+                                  <View key={`leave-${item.id}`} style={styles.leavePill}>
+                                    <ThemedText style={styles.leaveText} numberOfLines={1}>
+                                      {item.name}
+                                    </ThemedText>
+                                  </View>
+                                ))}
                               </View>
                             )}
                           </View>
@@ -478,6 +702,26 @@ export default function SchedulesScreen() {
                   onSelect={(item) => setSelectedEmployeeId(item.id)}
                   onClear={() => setSelectedEmployeeId(null)}
                 />
+                {templates.length > 0 && (
+                  <View style={styles.templateBox}>
+                    <ThemedText type="defaultSemiBold">{t('shiftTemplates')}</ThemedText>
+                    <ThemedText style={styles.helperText}>{t('shiftTemplatesHint')}</ThemedText>
+                    <View style={styles.pillRow}>
+                      {templates.map((template) => (
+                        <OptionPill
+                          key={template._id}
+                          label={`${template.name} ${template.start}–${template.end}`}
+                          selected={
+                            toClock(new Date(startAt)) === template.start &&
+                            toClock(new Date(endAt)) === template.end
+                          }
+                          onPress={() => applyTemplate(template)}
+                          onLongPress={() => handleDeleteTemplate(template)}
+                        />
+                      ))}
+                    </View>
+                  </View>
+                )}
                 <DateTimeInput
                   label={t('startAt')}
                   value={startAt}
@@ -493,29 +737,167 @@ export default function SchedulesScreen() {
                   minimumDate={editingId ? undefined : new Date()}
                 />
                 <FormInput label={t('note')} value={note} onChangeText={setNote} />
+                <View style={styles.templateSaveRow}>
+                  <View style={styles.templateNameInput}>
+                    <FormInput
+                      label={t('templateName')}
+                      placeholder={t('templateNamePlaceholder')}
+                      value={templateName}
+                      onChangeText={setTemplateName}
+                    />
+                  </View>
+                  <PrimaryButton
+                    label={t('saveAsTemplate')}
+                    variant="secondary"
+                    onPress={handleSaveTemplate}
+                  />
+                </View>
                 <PrimaryButton
                   label={loading ? t('saving') : editingId ? t('updateSchedule') : t('createSchedule')}
                   onPress={handleCreate}
                 />
               </Section>
             )}
-            <PrimaryButton
-              label={showCreate ? t('close') : t('createScheduleTitle')}
-              onPress={() => {
-                setShowCreate((prev) => !prev);
-                if (showCreate) {
-                  setEditingId(null);
-                  setSelectedEmployeeId(null);
-                  setStartAt(new Date().toISOString());
-                  setEndAt(new Date(Date.now() + 60 * 60 * 1000).toISOString());
-                  setNote('');
-                }
-              }}
-            />
+            {showCopy && (
+              <Section title={t('copyWeekTitle').replace('{week}', weekLabel)}>
+                <View style={styles.pillRow}>
+                  <OptionPill
+                    label={t('copyToNextWeek')}
+                    selected={copyTarget === 'nextWeek'}
+                    onPress={() => setCopyTarget('nextWeek')}
+                  />
+                  <OptionPill
+                    label={t('copyToRange')}
+                    selected={copyTarget === 'range'}
+                    onPress={() => setCopyTarget('range')}
+                  />
+                </View>
+                {copyTarget === 'range' && (
+                  <>
+                    <FormInput
+                      label={t('copyFrom')}
+                      placeholder="YYYY-MM-DD"
+                      value={copyFrom}
+                      onChangeText={setCopyFrom}
+                    />
+                    <FormInput
+                      label={t('copyUntil')}
+                      placeholder="YYYY-MM-DD"
+                      value={copyUntil}
+                      onChangeText={setCopyUntil}
+                    />
+                  </>
+                )}
+                {copyRangeError ? (
+                  copyTarget === 'range' && (copyFrom || copyUntil) ? (
+                    <ThemedText style={styles.helperText}>{copyRangeError}</ThemedText>
+                  ) : null
+                ) : (
+                  <View style={styles.copyPreview}>
+                    <ThemedText type="defaultSemiBold">
+                      {t('copyPreviewSummary')
+                        .replace('{ready}', String(readyCopies.length))
+                        .replace('{skipped}', String(copyPreview.length - readyCopies.length))}
+                    </ThemedText>
+                    {copyPreview.map((item) => (
+                      <View
+                        key={item.key}
+                        style={[styles.copyRow, item.skipReason && styles.copyRowSkipped]}
+                      >
+                        <ThemedText style={styles.copyRowText}>
+                          {`${dayLabels[(item.startAt.getDay() + 6) % 7]} ${item.startAt.toLocaleDateString(
+                            locale === 'vi' ? 'vi-VN' : 'en-US',
+                            { day: '2-digit', month: '2-digit' },
+                          )} · ${formatTime24(item.startAt, locale)} - ${formatTime24(item.endAt, locale)} · ${
+                            item.employee.displayName ?? item.employee.username ?? t('employeeFallback')
+                          }`}
+                        </ThemedText>
+                        {item.skipReason && (
+                          <ThemedText style={styles.copySkipText}>
+                            {t(COPY_SKIP_LABEL_KEYS[item.skipReason])}
+                          </ThemedText>
+                        )}
+                      </View>
+                    ))}
+                  </View>
+                )}
+                <PrimaryButton
+                  label={
+                    copying
+                      ? t('saving')
+                      : t('createCopiedShifts').replace('{n}', String(readyCopies.length))
+                  }
+                  disabled={copying || readyCopies.length === 0}
+                  onPress={handleCopyWeek}
+                />
+              </Section>
+            )}
+            <Can I="schedules:write">
+              <PrimaryButton
+                label={showCreate ? t('close') : t('createScheduleTitle')}
+                onPress={() => {
+                  setShowCreate((prev) => !prev);
+                  if (showCreate) {
+                    setEditingId(null);
+                    setSelectedEmployeeId(null);
+                    setStartAt(new Date().toISOString());
+                    setEndAt(new Date(Date.now() + 60 * 60 * 1000).toISOString());
+                    setNote('');
+                  }
+                }}
+              />
+              <PrimaryButton
+                label={showCopy ? t('close') : t('copyWeek')}
+                variant="secondary"
+                onPress={() => setShowCopy((prev) => !prev)}
+              />
+            </Can>
             {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+            <ThemedText type="subtitle">{t('attendanceTitle')}</ThemedText>
           </View>
         }
-        renderItem={() => null}
+        ListEmptyComponent={
+          <ThemedText style={styles.helperText}>{t('attendanceEmpty')}</ThemedText>
+        }
+        renderItem={({ item }) => {
+          const start = new Date(item.startAt);
+          return (
+            <Card>
+              <ThemedText type="defaultSemiBold">
+                {item.employee?.displayName ?? item.employee?.username ?? t('employeeFallback')}
+              </ThemedText>
+              <ThemedText style={styles.helperText}>
+                {start.toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US')}{' '}
+                {formatTime24(start, locale)} - {formatTime24(new Date(item.endAt), locale)}
+              </ThemedText>
+              <ThemedText>
+                {t('checkIn')}: {item.checkInAt ? formatTime24(new Date(item.checkInAt), locale) : t('notCheckedIn')}
+                {' · '}
+                {t('checkOut')}:{' '}
+                {item.checkOutAt ? formatTime24(new Date(item.checkOutAt), locale) : t('notCheckedOut')}
+              </ThemedText>
+              <ThemedText>
+                {t('workedHours')}:{' '}
+                {item.checkOutAt
+                  ? t('hoursValue').replace('{n}', String(Number(getWorkedHours(item).toFixed(2))))
+                  : t('notAvailable')}
+              </ThemedText>
+              {item.breaks?.map((entry) => {
+                const over = isBreakOverPolicy(entry, salonHours);
+                const range = entry.endAt
+                  ? `${formatTime24(new Date(entry.startAt), locale)} - ${formatTime24(new Date(entry.endAt), locale)}`
+                  : formatTime24(new Date(entry.startAt), locale);
+                const minutes = t('minutesValue').replace('{n}', String(getBreakMinutes(entry)));
+                return (
+                  <ThemedText key={entry._id} style={[styles.helperText, over && styles.breakOver]}>
+                    {`${t(BREAK_TYPE_LABEL_KEYS[entry.type])}: ${range} (${minutes})`}
+                    {over ? ` · ${t('breakOverLimit')}` : ''}
+                  </ThemedText>
+                );
+              })}
+            </Card>
+          );
+        }}
         contentContainerStyle={styles.content}
       />
     </ThemedView>
@@ -613,6 +995,10 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     backgroundColor: 'transparent',
   },
+  shiftPillFlagged: {
+    borderWidth: 1,
+    borderColor: Palette.danger,
+  },
   shiftTime: {
     fontSize: 11,
     fontWeight: '700',
@@ -668,6 +1054,21 @@ const styles = StyleSheet.create({
   dayCellBusy: {
     backgroundColor: '#dbe6ff',
   },
+  dayCellLeave: {
+    backgroundColor: '#e5e7eb',
+  },
+  leavePill: {
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    alignItems: 'center',
+    backgroundColor: '#e5e7eb',
+  },
+  leaveText: {
+    fontSize: 11,
+    color: Palette.mutedText,
+    textDecorationLine: 'line-through',
+  },
   timeLabelText: {
     fontSize: 11,
     fontWeight: '700',
@@ -691,6 +1092,53 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  templateBox: {
+    gap: 6,
+  },
+  templateSaveRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  templateNameInput: {
+    flex: 1,
+  },
+  copyPreview: {
+    gap: 6,
+  },
+  copyRow: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    backgroundColor: Palette.surface,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    gap: 2,
+  },
+  copyRowSkipped: {
+    opacity: 0.6,
+    borderStyle: 'dashed',
+  },
+  copyRowText: {
+    fontSize: 12,
+    color: '#111827',
+  },
+  copySkipText: {
+    fontSize: 11,
+    color: Palette.danger,
+  },
+  breakOver: {
+    color: Palette.danger,
+  },
   error: {
     color: '#c00',
   },
@@ -2,34 +2,31 @@ import React, { useMemo, useEffect, useState } from 'react';
 import { Alert, FlatList, StyleSheet, View } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { Can } from '@/components/can';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiDelete, apiGet, apiPatch, apiPost } from '@/lib/api';
 import { Card } from '@/components/ui/card';
 import { FormInput } from '@/components/ui/form-input';
 import { IconButton } from '@/components/ui/icon-button';
 import { PrimaryButton } from '@/components/ui/primary-button';
 import { Section } from '@/components/ui/section';
 import { Palette } from '@/constants/theme';
-
-type ServiceItem = {
-  _id: string;
-  name: string;
-  nameEn?: string;
-  price: number;
-  durationMinutes: number;
-  active: boolean;
-};
+import type { ServiceItem } from '@/lib/domain';
+import { servicesApi } from '@/lib/resources';
+import { getErrorMessage, getFieldErrors } from '@/lib/api-errors';
 
 export default function ServicesScreen() {
   const { token } = useAuth();
   const { t, locale } = useI18n();
   const [services, setServices] = useState<ServiceItem[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [name, setName] = useState('');
   const [nameEn, setNameEn] = useState('');
   const [price, setPrice] = useState('');
   const [durationMinutes, setDurationMinutes] = useState('');
+  const [prepMinutes, setPrepMinutes] = useState('');
+  const [cleanupMinutes, setCleanupMinutes] = useState('');
   const [loading, setLoading] = useState(false);
   const [searchText, setSearchText] = useState('');
   const [showCreate, setShowCreate] = useState(false);
@@ -37,10 +34,10 @@ export default function ServicesScreen() {
 
   const load = async () => {
     try {
-      const data = await apiGet<ServiceItem[]>('/services', token);
+      const data = await servicesApi.list(token);
       setServices(data);
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -57,6 +54,7 @@ export default function ServicesScreen() {
     }
     const isEditing = Boolean(editingId);
     setError(null);
+    setFieldErrors({});
     setLoading(true);
     try {
       const payload = {
@@ -64,24 +62,20 @@ export default function ServicesScreen() {
         nameEn: nameEnValue || undefined,
         price: Number(price),
         durationMinutes: durationMinutes ? Number(durationMinutes) : 0,
+        prepMinutes: prepMinutes ? Number(prepMinutes) : 0,
+        cleanupMinutes: cleanupMinutes ? Number(cleanupMinutes) : 0,
       };
       if (editingId) {
-        await apiPatch(
-          `/services/${editingId}`,
-          payload,
-          token,
-        );
+        await servicesApi.update(editingId, payload, token);
       } else {
-        await apiPost(
-          '/services',
-          payload,
-          token,
-        );
+        await servicesApi.create(payload, token);
       }
       setName('');
       setNameEn('');
       setPrice('');
       setDurationMinutes('');
+      setPrepMinutes('');
+      setCleanupMinutes('');
       setEditingId(null);
       await load();
       if (!isEditing) {
@@ -91,7 +85,8 @@ export default function ServicesScreen() {
         Alert.alert(t('successTitle'), t('updateSuccess'));
       }
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
+      setFieldErrors(getFieldErrors(err));
     } finally {
       setLoading(false);
     }
@@ -100,21 +95,24 @@ export default function ServicesScreen() {
   const handleDelete = async (id: string) => {
     setError(null);
     try {
-      await apiDelete(`/services/${id}`, token);
+      await servicesApi.remove(id, token);
       await load();
       Alert.alert(t('successTitle'), t('deleteSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
   const handleEdit = (item: ServiceItem) => {
     setShowCreate(true);
+    setFieldErrors({});
     setEditingId(item._id);
     setName(item.name ?? '');
     setNameEn(item.nameEn ?? '');
     setPrice(String(item.price ?? ''));
     setDurationMinutes(String(item.durationMinutes ?? ''));
+    setPrepMinutes(item.prepMinutes ? String(item.prepMinutes) : '');
+    setCleanupMinutes(item.cleanupMinutes ? String(item.cleanupMinutes) : '');
   };
 
   const formatMoney = (value: number) => {
@@ -153,40 +151,69 @@ export default function ServicesScreen() {
               <Section title={editingId ? t('editService') : t('addService')}>
                 <FormInput
                   label={t('serviceNameVi')}
+                  error={fieldErrors.name}
                   value={name}
                   onChangeText={setName}
                 />
                 <FormInput
                   label={t('serviceNameEn')}
+                  error={fieldErrors.nameEn}
                   value={nameEn}
                   onChangeText={setNameEn}
                 />
-                <FormInput label={t('price')} value={price} onChangeText={setPrice} keyboardType="numeric" />
+                <FormInput
+                  label={t('price')}
+                  error={fieldErrors.price}
+                  value={price}
+                  onChangeText={setPrice}
+                  keyboardType="numeric"
+                />
                 <FormInput
                   label={t('durationMinutes')}
+                  error={fieldErrors.durationMinutes}
                   value={durationMinutes}
                   onChangeText={setDurationMinutes}
                   keyboardType="numeric"
                 />
+                <FormInput
+                  label={t('prepMinutes')}
+                  error={fieldErrors.prepMinutes}
+                  value={prepMinutes}
+                  onChangeText={setPrepMinutes}
+                  keyboardType="numeric"
+                />
+                <FormInput
+                  label={t('cleanupMinutes')}
+                  error={fieldErrors.cleanupMinutes}
+                  value={cleanupMinutes}
+                  onChangeText={setCleanupMinutes}
+                  keyboardType="numeric"
+                />
+                <ThemedText style={styles.helperText}>{t('bufferHint')}</ThemedText>
                 <PrimaryButton
                   label={loading ? t('saving') : editingId ? t('updateService') : t('addService')}
                   onPress={handleCreate}
                 />
               </Section>
             )}
-            <PrimaryButton
-              label={showCreate ? t('close') : t('addService')}
-              onPress={() => {
-                setShowCreate((prev) => !prev);
-                if (showCreate) {
-                  setEditingId(null);
-                  setName('');
-                  setNameEn('');
-                  setPrice('');
-                  setDurationMinutes('');
-                }
-              }}
-            />
+            <Can I="services:write">
+              <PrimaryButton
+                label={showCreate ? t('close') : t('addService')}
+                onPress={() => {
+                  setShowCreate((prev) => !prev);
+                  if (showCreate) {
+                    setEditingId(null);
+                    setFieldErrors({});
+                    setName('');
+                    setNameEn('');
+                    setPrice('');
+                    setDurationMinutes('');
+                    setPrepMinutes('');
+                    setCleanupMinutes('');
+                  }
+                }}
+              />
+            </Can>
             {error && <ThemedText style={styles.error}>{error}</ThemedText>}
           </View>
         }
@@ -198,21 +225,30 @@ export default function ServicesScreen() {
                   {locale === 'en' && item.nameEn ? item.nameEn : item.name}
                 </ThemedText>
               </View>
-              <View style={styles.actionsRow}>
-                <IconButton
-                  icon="create-outline"
-                  variant="primary"
-                  onPress={() => handleEdit(item)}
-                />
-                <IconButton
-                  icon="trash-outline"
-                  variant="danger"
-                  onPress={() => handleDelete(item._id)}
-                />
-              </View>
+              <Can I="services:write">
+                <View style={styles.actionsRow}>
+                  <IconButton
+                    icon="create-outline"
+                    variant="primary"
+                    onPress={() => handleEdit(item)}
+                  />
+                  <IconButton
+                    icon="trash-outline"
+                    variant="danger"
+                    onPress={() => handleDelete(item._id)}
+                  />
+                </View>
+              </Can>
             </View>
             <ThemedText>{t('price')}: {formatMoney(item.price)}</ThemedText>
             <ThemedText>{t('durationMinutes')}: {item.durationMinutes}</ThemedText>
+            {item.prepMinutes || item.cleanupMinutes ? (
+              <ThemedText>
+                {t('bufferSummary')
+                  .replace('{prep}', String(item.prepMinutes ?? 0))
+                  .replace('{cleanup}', String(item.cleanupMinutes ?? 0))}
+              </ThemedText>
+            ) : null}
             <ThemedText>{t('active')}: {item.active ? t('yes') : t('no')}</ThemedText>
           </Card>
         )}
@@ -247,6 +283,10 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
   error: {
     color: '#c00',
   },
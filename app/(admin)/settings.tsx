@@ -0,0 +1,369 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, FlatList, StyleSheet, View } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useI18n } from '@/context/i18n-context';
+import { useSalonHours } from '@/context/salon-hours-context';
+import { Card } from '@/components/ui/card';
+import { FormInput } from '@/components/ui/form-input';
+import { IconButton } from '@/components/ui/icon-button';
+import { OptionPill } from '@/components/ui/option-pill';
+import { PrimaryButton } from '@/components/ui/primary-button';
+import { Section } from '@/components/ui/section';
+import { Palette } from '@/constants/theme';
+import { DEFAULT_SALON_HOURS, isValidClock, parseClock } from '@/constants/salon-hours';
+import type { SalonHours, SalonHoursOverride, TimeRange } from '@/lib/domain';
+import { getErrorMessage } from '@/lib/api-errors';
+
+type DayDraft = { open: boolean; start: string; end: string };
+
+/** Monday-first display order mapped to `Date#getDay()` indexes. */
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const WEEKDAY_LABEL_KEYS = ['daySun', 'dayMon', 'dayTue', 'dayWed', 'dayThu', 'dayFri', 'daySat'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDayDrafts = (hours: SalonHours): DayDraft[] =>
+  Array.from({ length: 7 }, (_, index) => {
+    const window = hours.weekly[index];
+    return window
+      ? { open: true, start: window.start, end: window.end }
+      : { open: false, start: '09:00', end: '18:00' };
+  });
+
+const isValidRange = (range: TimeRange) =>
+  isValidClock(range.start) && isValidClock(range.end);
+
+export default function SalonSettingsScreen() {
+  const { t } = useI18n();
+  const { hours, save } = useSalonHours();
+  const [days, setDays] = useState<DayDraft[]>(() => toDayDrafts(hours));
+  const [breakEnabled, setBreakEnabled] = useState(Boolean(hours.breakWindow));
+  const [breakStart, setBreakStart] = useState(hours.breakWindow?.start ?? '12:00');
+  const [breakEnd, setBreakEnd] = useState(hours.breakWindow?.end ?? '13:00');
+  const [overrides, setOverrides] = useState<SalonHoursOverride[]>(hours.overrides);
+  const [cutoffHours, setCutoffHours] = useState(String(hours.changeCutoffHours));
+  const [noShowThreshold, setNoShowThreshold] = useState(
+    String(hours.noShowThreshold ?? DEFAULT_SALON_HOURS.noShowThreshold),
+  );
+  const [paidBreakLimit, setPaidBreakLimit] = useState(
+    String((hours.breakPolicy ?? DEFAULT_SALON_HOURS.breakPolicy).paid),
+  );
+  const [unpaidBreakLimit, setUnpaidBreakLimit] = useState(
+    String((hours.breakPolicy ?? DEFAULT_SALON_HOURS.breakPolicy).unpaid),
+  );
+  const [overrideDate, setOverrideDate] = useState('');
+  const [overrideClosed, setOverrideClosed] = useState(true);
+  const [overrideStart, setOverrideStart] = useState('09:00');
+  const [overrideEnd, setOverrideEnd] = useState('17:00');
+  const [overrideNote, setOverrideNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // The provider may finish loading after this screen mounts.
+  useEffect(() => {
+    setDays(toDayDrafts(hours));
+    setBreakEnabled(Boolean(hours.breakWindow));
+    setBreakStart(hours.breakWindow?.start ?? '12:00');
+    setBreakEnd(hours.breakWindow?.end ?? '13:00');
+    setOverrides(hours.overrides);
+    setCutoffHours(String(hours.changeCutoffHours));
+    setNoShowThreshold(String(hours.noShowThreshold ?? DEFAULT_SALON_HOURS.noShowThreshold));
+    setPaidBreakLimit(String((hours.breakPolicy ?? DEFAULT_SALON_HOURS.breakPolicy).paid));
+    setUnpaidBreakLimit(String((hours.breakPolicy ?? DEFAULT_SALON_HOURS.breakPolicy).unpaid));
+  }, [hours]);
+
+  const updateDay = (index: number, patch: Partial<DayDraft>) => {
+    setDays((prev) => prev.map((day, dayIndex) => (dayIndex === index ? { ...day, ...patch } : day)));
+  };
+
+  const validateRange = (range: TimeRange) => {
+    if (!isValidRange(range)) return t('errorInvalidClock');
+    if (parseClock(range.start) >= parseClock(range.end)) return t('errorClockOrder');
+    return null;
+  };
+
+  const handleAddOverride = () => {
+    const date = overrideDate.trim();
+    if (!DATE_PATTERN.test(date) || Number.isNaN(new Date(`${date}T00:00:00`).getTime())) {
+      setError(t('errorInvalidDate'));
+      return;
+    }
+    const range = { start: overrideStart.trim(), end: overrideEnd.trim() };
+    if (!overrideClosed) {
+      const rangeError = validateRange(range);
+      if (rangeError) {
+        setError(rangeError);
+        return;
+      }
+    }
+    setError(null);
+    const entry: SalonHoursOverride = {
+      date,
+      closed: overrideClosed,
+      ...(overrideClosed ? {} : { hours: range }),
+      note: overrideNote.trim() || undefined,
+    };
+    setOverrides((prev) =>
+      [...prev.filter((item) => item.date !== date), entry].sort((a, b) => a.date.localeCompare(b.date)),
+    );
+    setOverrideDate('');
+    setOverrideNote('');
+  };
+
+  const handleSave = async () => {
+    const weekly = days.map((day) =>
+      day.open ? { start: day.start.trim(), end: day.end.trim() } : null,
+    );
+    for (const range of weekly) {
+      const rangeError = range ? validateRange(range) : null;
+      if (rangeError) {
+        setError(rangeError);
+        return;
+      }
+    }
+    const breakWindow = breakEnabled ? { start: breakStart.trim(), end: breakEnd.trim() } : null;
+    const breakError = breakWindow ? validateRange(breakWindow) : null;
+    if (breakError) {
+      setError(breakError);
+      return;
+    }
+    const changeCutoffHours = Number(cutoffHours);
+    const threshold = Number(noShowThreshold);
+    const breakPolicy = { paid: Number(paidBreakLimit), unpaid: Number(unpaidBreakLimit) };
+    if (
+      !Number.isFinite(changeCutoffHours) ||
+      changeCutoffHours < 0 ||
+      !Number.isInteger(threshold) ||
+      threshold < 0 ||
+      !Object.values(breakPolicy).every((limit) => Number.isInteger(limit) && limit >= 0)
+    ) {
+      setError(t('errorValidation'));
+      return;
+    }
+    setError(null);
+    setLoading(true);
+    try {
+      await save({
+        weekly,
+        overrides,
+        breakWindow,
+        changeCutoffHours,
+        noShowThreshold: threshold,
+        breakPolicy,
+      });
+      Alert.alert(t('successTitle'), t('updateSuccess'));
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container} lightColor="#f6f7f9">
+      <FlatList
+        data={overrides}
+        keyExtractor={(item) => item.date}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText type="title">{t('salonSettingsTitle')}</ThemedText>
+            <Section title={t('weeklyHours')}>
+              {WEEKDAY_ORDER.map((dayIndex) => {
+                const day = days[dayIndex];
+                return (
+                  <View key={dayIndex} style={styles.dayRow}>
+                    <View style={styles.dayHeader}>
+                      <ThemedText type="defaultSemiBold">{t(WEEKDAY_LABEL_KEYS[dayIndex])}</ThemedText>
+                      <View style={styles.pillRow}>
+                        <OptionPill
+                          label={t('dayOpen')}
+                          selected={day.open}
+                          onPress={() => updateDay(dayIndex, { open: true })}
+                        />
+                        <OptionPill
+                          label={t('dayClosed')}
+                          selected={!day.open}
+                          onPress={() => updateDay(dayIndex, { open: false })}
+                        />
+                      </View>
+                    </View>
+                    {day.open && (
+                      <View style={styles.timeRow}>
+                        <View style={styles.timeField}>
+                          <FormInput
+                            label={t('openTime')}
+                            value={day.start}
+                            onChangeText={(value) => updateDay(dayIndex, { start: value })}
+                          />
+                        </View>
+                        <View style={styles.timeField}>
+                          <FormInput
+                            label={t('closeTime')}
+                            value={day.end}
+                            onChangeText={(value) => updateDay(dayIndex, { end: value })}
+                          />
+                        </View>
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+            </Section>
+            <Section title={t('breakWindow')}>
+              <View style={styles.pillRow}>
+                <OptionPill
+                  label={t('breakEnabled')}
+                  selected={breakEnabled}
+                  onPress={() => setBreakEnabled((prev) => !prev)}
+                />
+              </View>
+              {breakEnabled && (
+                <View style={styles.timeRow}>
+                  <View style={styles.timeField}>
+                    <FormInput label={t('breakStart')} value={breakStart} onChangeText={setBreakStart} />
+                  </View>
+                  <View style={styles.timeField}>
+                    <FormInput label={t('breakEnd')} value={breakEnd} onChangeText={setBreakEnd} />
+                  </View>
+                </View>
+              )}
+            </Section>
+            <Section title={t('specialDates')}>
+              <FormInput
+                label={t('specialDate')}
+                placeholder="2027-02-06"
+                value={overrideDate}
+                onChangeText={setOverrideDate}
+              />
+              <View style={styles.pillRow}>
+                <OptionPill
+                  label={t('dayClosed')}
+                  selected={overrideClosed}
+                  onPress={() => setOverrideClosed(true)}
+                />
+                <OptionPill
+                  label={t('specialHours')}
+                  selected={!overrideClosed}
+                  onPress={() => setOverrideClosed(false)}
+                />
+              </View>
+              {!overrideClosed && (
+                <View style={styles.timeRow}>
+                  <View style={styles.timeField}>
+                    <FormInput label={t('openTime')} value={overrideStart} onChangeText={setOverrideStart} />
+                  </View>
+                  <View style={styles.timeField}>
+                    <FormInput label={t('closeTime')} value={overrideEnd} onChangeText={setOverrideEnd} />
+                  </View>
+                </View>
+              )}
+              <FormInput label={t('note')} value={overrideNote} onChangeText={setOverrideNote} />
+              <PrimaryButton label={t('addSpecialDate')} onPress={handleAddOverride} />
+            </Section>
+            <Section title={t('bookingPolicy')}>
+              <FormInput
+                label={t('changeCutoffHours')}
+                value={cutoffHours}
+                onChangeText={setCutoffHours}
+                keyboardType="numeric"
+              />
+              <FormInput
+                label={t('noShowThreshold')}
+                value={noShowThreshold}
+                onChangeText={setNoShowThreshold}
+                keyboardType="numeric"
+              />
+              <ThemedText style={styles.helperText}>{t('noShowThresholdHint')}</ThemedText>
+            </Section>
+            <Section title={t('breakPolicy')}>
+              <FormInput
+                label={t('paidBreakLimit')}
+                value={paidBreakLimit}
+                onChangeText={setPaidBreakLimit}
+                keyboardType="numeric"
+              />
+              <FormInput
+                label={t('unpaidBreakLimit')}
+                value={unpaidBreakLimit}
+                onChangeText={setUnpaidBreakLimit}
+                keyboardType="numeric"
+              />
+              <ThemedText style={styles.helperText}>{t('breakPolicyHint')}</ThemedText>
+            </Section>
+            <PrimaryButton label={loading ? t('saving') : t('saveSettings')} onPress={handleSave} />
+            {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+          </View>
+        }
+        renderItem={({ item }) => (
+          <Card>
+            <View style={styles.cardHeaderRow}>
+              <ThemedText type="defaultSemiBold">{item.date}</ThemedText>
+              <IconButton
+                icon="trash-outline"
+                variant="danger"
+                onPress={() => setOverrides((prev) => prev.filter((entry) => entry.date !== item.date))}
+              />
+            </View>
+            <ThemedText>
+              {item.closed || !item.hours
+                ? t('dayClosed')
+                : `${t('specialHours')}: ${item.hours.start} - ${item.hours.end}`}
+            </ThemedText>
+            {item.note ? <ThemedText style={styles.helperText}>{item.note}</ThemedText> : null}
+          </Card>
+        )}
+        contentContainerStyle={styles.content}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  header: {
+    gap: 12,
+  },
+  dayRow: {
+    gap: 8,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Palette.border,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  timeField: {
+    flex: 1,
+  },
+  cardHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+  error: {
+    color: '#c00',
+  },
+});
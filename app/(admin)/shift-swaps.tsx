@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, StyleSheet, View } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Can } from '@/components/can';
+import { useAuth } from '@/context/auth-context';
+import { useI18n } from '@/context/i18n-context';
+import { Card } from '@/components/ui/card';
+import { OptionPill } from '@/components/ui/option-pill';
+import { PrimaryButton } from '@/components/ui/primary-button';
+import { Palette } from '@/constants/theme';
+import type { Appointment, EmployeeRef, ShiftSwap, ShiftSwapStatus, WorkSchedule } from '@/lib/domain';
+import { appointmentsApi, shiftSwapsApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
+import {
+  getSwapAffectedAppointments,
+  SHIFT_SWAP_STATUS_COLORS,
+  SHIFT_SWAP_STATUS_LABEL_KEYS,
+} from '@/lib/shift-swaps';
+
+/** Accepted swaps wait on an admin, so they come first. */
+const STATUS_FILTERS: ShiftSwapStatus[] = ['accepted', 'open', 'approved', 'rejected'];
+
+const formatTime24 = (value: Date, locale: string) =>
+  value.toLocaleTimeString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+export default function ShiftSwapsScreen() {
+  const { token } = useAuth();
+  const { t, locale } = useI18n();
+  const [swaps, setSwaps] = useState<ShiftSwap[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ShiftSwapStatus>('accepted');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const [swapsData, appointmentsData] = await Promise.all([
+        shiftSwapsApi.list(token),
+        appointmentsApi.list(token),
+      ]);
+      setSwaps(swapsData);
+      setAppointments(appointmentsData);
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [token]);
+
+  const filteredSwaps = useMemo(
+    () =>
+      swaps
+        .filter((item) => item.status === statusFilter)
+        .sort(
+          (a, b) =>
+            new Date(a.schedule.startAt).getTime() - new Date(b.schedule.startAt).getTime(),
+        ),
+    [statusFilter, swaps],
+  );
+
+  const waitingCount = useMemo(
+    () => swaps.filter((item) => item.status === 'accepted').length,
+    [swaps],
+  );
+
+  const nameOf = (employee?: EmployeeRef) =>
+    employee?.displayName ?? employee?.username ?? t('employeeFallback');
+
+  const shiftLabel = (shift: WorkSchedule) => {
+    const start = new Date(shift.startAt);
+    const date = start.toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+      weekday: 'short',
+      day: '2-digit',
+      month: '2-digit',
+    });
+    return `${date} ${formatTime24(start, locale)} - ${formatTime24(new Date(shift.endAt), locale)}`;
+  };
+
+  const handleApprove = async (swap: ShiftSwap) => {
+    setError(null);
+    setBusyId(swap._id);
+    try {
+      const approved = await shiftSwapsApi.approve(swap._id, token);
+      await load();
+      const flagged = approved.flaggedAppointmentIds?.length ?? 0;
+      Alert.alert(
+        t('successTitle'),
+        flagged > 0
+          ? t('swapApprovedFlagged').replace('{n}', String(flagged))
+          : t('swapApprovedMessage'),
+      );
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (swap: ShiftSwap) => {
+    setError(null);
+    setBusyId(swap._id);
+    try {
+      await shiftSwapsApi.reject(swap._id, token);
+      await load();
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container} lightColor={Palette.background}>
+      <FlatList
+        data={filteredSwaps}
+        keyExtractor={(item) => item._id}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText type="title">{t('shiftSwaps')}</ThemedText>
+            <View style={styles.pillRow}>
+              {STATUS_FILTERS.map((status) => (
+                <OptionPill
+                  key={status}
+                  label={
+                    status === 'accepted'
+                      ? `${t(SHIFT_SWAP_STATUS_LABEL_KEYS[status])} (${waitingCount})`
+                      : t(SHIFT_SWAP_STATUS_LABEL_KEYS[status])
+                  }
+                  selected={statusFilter === status}
+                  onPress={() => setStatusFilter(status)}
+                />
+              ))}
+            </View>
+            {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+          </View>
+        }
+        ListEmptyComponent={<ThemedText style={styles.helperText}>{t('noShiftSwaps')}</ThemedText>}
+        renderItem={({ item }) => {
+          const affected =
+            item.status === 'accepted' ? getSwapAffectedAppointments(item, appointments) : [];
+          return (
+            <Card>
+              <View style={styles.cardHeader}>
+                <ThemedText type="defaultSemiBold" numberOfLines={1} style={styles.titleText}>
+                  {item.acceptedBy
+                    ? `${nameOf(item.fromEmployee)} → ${nameOf(item.acceptedBy)}`
+                    : nameOf(item.fromEmployee)}
+                </ThemedText>
+                <View
+                  style={[
+                    styles.statusBadge,
+                    { backgroundColor: `${SHIFT_SWAP_STATUS_COLORS[item.status]}22` },
+                  ]}
+                >
+                  <ThemedText
+                    style={[styles.statusText, { color: SHIFT_SWAP_STATUS_COLORS[item.status] }]}
+                  >
+                    {t(SHIFT_SWAP_STATUS_LABEL_KEYS[item.status])}
+                  </ThemedText>
+                </View>
+              </View>
+              <ThemedText>{shiftLabel(item.schedule)}</ThemedText>
+              {item.returnSchedule ? (
+                <ThemedText style={styles.helperText}>
+                  {t('swapReturnShift').replace('{shift}', shiftLabel(item.returnSchedule))}
+                </ThemedText>
+              ) : null}
+              {item.status === 'open' ? (
+                <ThemedText style={styles.helperText}>
+                  {item.offeredTo?.length
+                    ? t('swapOfferedTo').replace(
+                        '{names}',
+                        item.offeredTo.map((employee) => nameOf(employee)).join(', '),
+                      )
+                    : t('swapOfferedToEveryone')}
+                </ThemedText>
+              ) : null}
+              {item.note ? <ThemedText style={styles.helperText}>{item.note}</ThemedText> : null}
+              {affected.length > 0 && (
+                <View style={styles.warningBox}>
+                  <ThemedText style={styles.warningText}>
+                    {t('swapWillFlag').replace('{n}', String(affected.length))}
+                  </ThemedText>
+                </View>
+              )}
+              {item.status === 'accepted' && (
+                <Can I="schedules:write">
+                  <View style={styles.actionsRow}>
+                    <View style={styles.actionButton}>
+                      <PrimaryButton
+                        label={t('approve')}
+                        disabled={busyId === item._id}
+                        onPress={() => handleApprove(item)}
+                      />
+                    </View>
+                    <View style={styles.actionButton}>
+                      <PrimaryButton
+                        label={t('reject')}
+                        variant="danger"
+                        disabled={busyId === item._id}
+                        onPress={() => handleReject(item)}
+                      />
+                    </View>
+                  </View>
+                </Can>
+              )}
+            </Card>
+          );
+        }}
+        contentContainerStyle={styles.content}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  header: {
+    gap: 12,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  titleText: {
+    flex: 1,
+  },
+  statusBadge: {
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  warningBox: {
+    borderRadius: 10,
+    padding: 8,
+    backgroundColor: `${Palette.accentOrange}22`,
+  },
+  warningText: {
+    fontSize: 12,
+    color: Palette.navy,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+  error: {
+    color: '#c00',
+  },
+});
@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, StyleSheet, View } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Can } from '@/components/can';
+import { useAuth } from '@/context/auth-context';
+import { useI18n } from '@/context/i18n-context';
+import { Card } from '@/components/ui/card';
+import { OptionPill } from '@/components/ui/option-pill';
+import { PrimaryButton } from '@/components/ui/primary-button';
+import { Palette } from '@/constants/theme';
+import { getLineEmployeeIds, getServiceLines, getServiceSegments } from '@/lib/appointment-services';
+import { isTerminalStatus } from '@/lib/appointment-status';
+import type { Appointment, TimeOffRequest, TimeOffStatus, WorkSchedule } from '@/lib/domain';
+import { appointmentsApi, timeOffApi, workSchedulesApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
+import {
+  getLeaveWindows,
+  parseDateKey,
+  TIME_OFF_STATUS_COLORS,
+  TIME_OFF_STATUS_LABEL_KEYS,
+} from '@/lib/time-off';
+
+const STATUS_FILTERS: TimeOffStatus[] = ['pending', 'approved', 'rejected'];
+
+export default function TimeOffQueueScreen() {
+  const { token } = useAuth();
+  const { t, locale } = useI18n();
+  const [requests, setRequests] = useState<TimeOffRequest[]>([]);
+  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [statusFilter, setStatusFilter] = useState<TimeOffStatus>('pending');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const [requestsData, schedulesData, appointmentsData] = await Promise.all([
+        timeOffApi.list(token),
+        workSchedulesApi.list(token),
+        appointmentsApi.list(token),
+      ]);
+      setRequests(requestsData);
+      setSchedules(schedulesData);
+      setAppointments(appointmentsData);
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [token]);
+
+  const filteredRequests = useMemo(
+    () =>
+      requests
+        .filter((item) => item.status === statusFilter)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    [requests, statusFilter],
+  );
+
+  const pendingCount = useMemo(
+    () => requests.filter((item) => item.status === 'pending').length,
+    [requests],
+  );
+
+  // Shifts and bookings that approving the request would leave without the employee.
+  const getAffected = (request: TimeOffRequest) => {
+    const employeeId = request.employee?._id;
+    const windows = getLeaveWindows(request);
+    const hits = (start: Date, end: Date) =>
+      windows.some((window) => start < window.end && end > window.start);
+    const shifts = schedules.filter(
+      (item) =>
+        item.employee?._id === employeeId && hits(new Date(item.startAt), new Date(item.endAt)),
+    ).length;
+    const bookings = appointments.filter((item) => {
+      if (isTerminalStatus(item.status)) return false;
+      const lines = getServiceLines(item);
+      if (!employeeId || !getLineEmployeeIds(lines).includes(employeeId)) return false;
+      return getServiceSegments(item.scheduledAt, lines).some(
+        (segment) =>
+          segment.employeeId === employeeId && hits(segment.busyStart, segment.busyEnd),
+      );
+    }).length;
+    return { shifts, bookings };
+  };
+
+  const handleReview = async (request: TimeOffRequest, approve: boolean) => {
+    setError(null);
+    setBusyId(request._id);
+    try {
+      if (approve) {
+        await timeOffApi.approve(request._id, token);
+      } else {
+        await timeOffApi.reject(request._id, token);
+      }
+      await load();
+      Alert.alert(t('successTitle'), approve ? t('timeOffApprovedMessage') : t('timeOffRejectedMessage'));
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (value: string) =>
+    parseDateKey(value)?.toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US') ?? value;
+
+  return (
+    <ThemedView style={styles.container} lightColor={Palette.background}>
+      <FlatList
+        data={filteredRequests}
+        keyExtractor={(item) => item._id}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText type="title">{t('timeOffQueue')}</ThemedText>
+            <View style={styles.pillRow}>
+              {STATUS_FILTERS.map((status) => (
+                <OptionPill
+                  key={status}
+                  label={
+                    status === 'pending'
+                      ? `${t(TIME_OFF_STATUS_LABEL_KEYS[status])} (${pendingCount})`
+                      : t(TIME_OFF_STATUS_LABEL_KEYS[status])
+                  }
+                  selected={statusFilter === status}
+                  onPress={() => setStatusFilter(status)}
+                />
+              ))}
+            </View>
+            {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+          </View>
+        }
+        ListEmptyComponent={<ThemedText style={styles.helperText}>{t('noTimeOff')}</ThemedText>}
+        renderItem={({ item }) => {
+          const affected = item.status === 'pending' ? getAffected(item) : null;
+          return (
+            <Card>
+              <View style={styles.cardHeader}>
+                <ThemedText type="defaultSemiBold" numberOfLines={1}>
+                  {item.employee?.displayName ?? item.employee?.username ?? t('employeeFallback')}
+                </ThemedText>
+                <View
+                  style={[
+                    styles.statusBadge,
+                    { backgroundColor: `${TIME_OFF_STATUS_COLORS[item.status]}22` },
+                  ]}
+                >
+                  <ThemedText
+                    style={[styles.statusText, { color: TIME_OFF_STATUS_COLORS[item.status] }]}
+                  >
+                    {t(TIME_OFF_STATUS_LABEL_KEYS[item.status])}
+                  </ThemedText>
+                </View>
+              </View>
+              <ThemedText>
+                {item.startDate === item.endDate
+                  ? formatDate(item.startDate)
+                  : `${formatDate(item.startDate)} - ${formatDate(item.endDate)}`}
+                {' · '}
+                {item.partialHours
+                  ? `${item.partialHours.start} - ${item.partialHours.end}`
+                  : t('timeOffFullDay')}
+              </ThemedText>
+              {item.reason ? <ThemedText style={styles.helperText}>{item.reason}</ThemedText> : null}
+              {affected && (affected.shifts > 0 || affected.bookings > 0) && (
+                <View style={styles.warningBox}>
+                  <ThemedText style={styles.warningText}>
+                    {t('timeOffAffects')
+                      .replace('{shifts}', String(affected.shifts))
+                      .replace('{bookings}', String(affected.bookings))}
+                  </ThemedText>
+                </View>
+              )}
+              {item.status === 'pending' && (
+                <Can I="schedules:write">
+                  <View style={styles.actionsRow}>
+                    <View style={styles.actionButton}>
+                      <PrimaryButton
+                        label={t('approve')}
+                        disabled={busyId === item._id}
+                        onPress={() => handleReview(item, true)}
+                      />
+                    </View>
+                    <View style={styles.actionButton}>
+                      <PrimaryButton
+                        label={t('reject')}
+                        variant="danger"
+                        disabled={busyId === item._id}
+                        onPress={() => handleReview(item, false)}
+                      />
+                    </View>
+                  </View>
+                </Can>
+              )}
+            </Card>
+          );
+        }}
+        contentContainerStyle={styles.content}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  header: {
+    gap: 12,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  statusBadge: {
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  warningBox: {
+    borderRadius: 10,
+    padding: 8,
+    backgroundColor: `${Palette.accentOrange}22`,
+  },
+  warningText: {
+    fontSize: 12,
+    color: Palette.navy,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+  error: {
+    color: '#c00',
+  },
+});
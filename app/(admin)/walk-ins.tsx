@@ -0,0 +1,382 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, StyleSheet, View } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/context/auth-context';
+import { useI18n } from '@/context/i18n-context';
+import { Card } from '@/components/ui/card';
+import { FormInput } from '@/components/ui/form-input';
+import { IconButton } from '@/components/ui/icon-button';
+import { OptionPill } from '@/components/ui/option-pill';
+import { PrimaryButton } from '@/components/ui/primary-button';
+import { Section } from '@/components/ui/section';
+import { SearchSelect } from '@/components/ui/search-select';
+import { Palette } from '@/constants/theme';
+import { getReliabilityWarning } from '@/lib/customer-reliability';
+import type { Assignment, Customer, Employee, ServiceItem, WorkSchedule } from '@/lib/domain';
+import {
+  assignmentsApi,
+  customersApi,
+  servicesApi,
+  usersApi,
+  workSchedulesApi,
+} from '@/lib/resources';
+import { canPerform } from '@/lib/skills';
+import { rankTurnCandidates } from '@/lib/turn-queue';
+import { loadWalkInQueue, saveWalkInQueue, type WalkIn } from '@/lib/walk-in-queue';
+import { getErrorMessage } from '@/lib/api-errors';
+
+const formatTime24 = (value: Date, locale: string) =>
+  value.toLocaleTimeString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+export default function WalkInsScreen() {
+  const { token } = useAuth();
+  const { t, locale } = useI18n();
+  const [queue, setQueue] = useState<WalkIn[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [services, setServices] = useState<ServiceItem[]>([]);
+  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+  const [newCustomerName, setNewCustomerName] = useState('');
+  const [selectedServiceId, setSelectedServiceId] = useState<string | null>(null);
+  const [pickedEmployees, setPickedEmployees] = useState<Record<string, string>>({});
+  const [resetSeed, setResetSeed] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const [customersData, servicesData, schedulesData, assignmentsData, employeesData] =
+        await Promise.all([
+          customersApi.list(token),
+          servicesApi.list(token),
+          workSchedulesApi.list(token),
+          assignmentsApi.list(token),
+          usersApi.list(token),
+        ]);
+      setCustomers(customersData);
+      setServices(servicesData);
+      setSchedules(schedulesData);
+      setAssignments(assignmentsData);
+      setEmployees(employeesData);
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [token]);
+
+  useEffect(() => {
+    // Keep anyone added while the saved queue was still loading.
+    loadWalkInQueue().then((saved) => setQueue((prev) => [...saved, ...prev]));
+  }, []);
+
+  // Applied to the latest queue, so removals after an await never bring back stale entries.
+  const updateQueue = (update: (prev: WalkIn[]) => WalkIn[]) => {
+    setQueue((prev) => {
+      const next = update(prev);
+      saveWalkInQueue(next);
+      return next;
+    });
+  };
+
+  const candidates = useMemo(
+    () => rankTurnCandidates(schedules, assignments),
+    [assignments, schedules],
+  );
+
+  /** Turn order among the technicians who can do this service. */
+  const getCandidatesFor = (serviceId: string) =>
+    candidates.filter((candidate) => {
+      const employee = employees.find((item) => item._id === candidate.employee._id);
+      return !employee || canPerform(employee, [serviceId]);
+    });
+
+  const getCustomerLabel = (id: string) => {
+    const customer = customers.find((item) => item._id === id);
+    if (!customer) return t('customerFallback');
+    return locale === 'en' && customer.nameEn ? customer.nameEn : customer.name;
+  };
+
+  const getService = (id: string) => services.find((item) => item._id === id);
+
+  const getEmployeeLabel = (employee: { displayName?: string; username?: string }) =>
+    employee.displayName ?? employee.username ?? t('employeeFallback');
+
+  const handleAdd = async () => {
+    const name = newCustomerName.trim();
+    if ((!selectedCustomerId && !name) || !selectedServiceId) {
+      setError(t('errorWalkInRequired'));
+      return;
+    }
+    setError(null);
+    setLoading(true);
+    try {
+      let customerId = selectedCustomerId;
+      if (!customerId) {
+        const created = await customersApi.create({ name }, token);
+        setCustomers((prev) => [...prev, created]);
+        customerId = created._id;
+      }
+      const walkIn: WalkIn = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        customerId,
+        serviceId: selectedServiceId,
+        addedAt: new Date().toISOString(),
+      };
+      updateQueue((prev) => [...prev, walkIn]);
+      setSelectedCustomerId(null);
+      setNewCustomerName('');
+      setSelectedServiceId(null);
+      setResetSeed((prev) => prev + 1);
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    updateQueue((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  const handleAssign = async (walkIn: WalkIn) => {
+    const employeeId =
+      pickedEmployees[walkIn.id] ?? getCandidatesFor(walkIn.serviceId)[0]?.employee._id;
+    if (!employeeId) {
+      setError(t('errorNoCheckedInTechnician'));
+      return;
+    }
+    setError(null);
+    setLoading(true);
+    try {
+      // Creating the walk-in assignment is what counts the technician's turn.
+      await assignmentsApi.create(
+        {
+          customerId: walkIn.customerId,
+          serviceId: walkIn.serviceId,
+          employeeId,
+          scheduledAt: new Date().toISOString(),
+          price: getService(walkIn.serviceId)?.price ?? 0,
+          walkIn: true,
+        },
+        token,
+      );
+      updateQueue((prev) => prev.filter((item) => item.id !== walkIn.id));
+      setPickedEmployees((prev) => {
+        const next = { ...prev };
+        delete next[walkIn.id];
+        return next;
+      });
+      await load();
+      const candidate = candidates.find((item) => item.employee._id === employeeId);
+      Alert.alert(
+        t('successTitle'),
+        t('walkInAssigned').replace(
+          '{name}',
+          candidate ? getEmployeeLabel(candidate.employee) : t('employeeFallback'),
+        ),
+      );
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container} lightColor={Palette.background}>
+      <FlatList
+        data={queue}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText type="title">{t('walkInQueue')}</ThemedText>
+            <Section title={t('checkedInTechnicians')}>
+              {candidates.length === 0 ? (
+                <ThemedText style={styles.helperText}>{t('noCheckedInTechnicians')}</ThemedText>
+              ) : (
+                candidates.map((candidate, index) => (
+                  <View key={candidate.employee._id} style={styles.turnRow}>
+                    <ThemedText style={styles.turnRank}>{index + 1}</ThemedText>
+                    <View style={styles.turnInfo}>
+                      <ThemedText type="defaultSemiBold">
+                        {getEmployeeLabel(candidate.employee)}
+                      </ThemedText>
+                      <ThemedText style={styles.helperText}>
+                        {t('checkedInAt').replace('{time}', formatTime24(candidate.checkInAt, locale))}
+                        {candidate.busy ? ` · ${t('technicianBusy')}` : ''}
+                      </ThemedText>
+                    </View>
+                    <ThemedText style={styles.turnCount}>
+                      {t('turnCount').replace('{n}', String(candidate.turns))}
+                    </ThemedText>
+                  </View>
+                ))
+              )}
+            </Section>
+            <Section title={t('addWalkIn')}>
+              <SearchSelect
+                key={`customer-${resetSeed}`}
+                title={t('selectCustomer')}
+                placeholder={t('searchCustomersPlaceholder')}
+                items={customers.map((customer) => ({
+                  id: customer._id,
+                  label: locale === 'en' && customer.nameEn ? customer.nameEn : customer.name,
+                  subtitle: customer.phone ? `${t('phone')}: ${customer.phone}` : undefined,
+                  warning: getReliabilityWarning(customer, t) ?? undefined,
+                }))}
+                selectedId={selectedCustomerId}
+                onSelect={(item) => {
+                  setSelectedCustomerId(item.id);
+                  setNewCustomerName('');
+                }}
+                onClear={() => setSelectedCustomerId(null)}
+              />
+              {!selectedCustomerId && (
+                <FormInput
+                  label={t('newWalkInCustomer')}
+                  value={newCustomerName}
+                  onChangeText={setNewCustomerName}
+                />
+              )}
+              <SearchSelect
+                key={`service-${resetSeed}`}
+                title={t('selectService')}
+                placeholder={t('searchServicesPlaceholder')}
+                items={services.map((service) => ({
+                  id: service._id,
+                  label: locale === 'en' && service.nameEn ? service.nameEn : service.name,
+                }))}
+                selectedId={selectedServiceId}
+                onSelect={(item) => setSelectedServiceId(item.id)}
+                onClear={() => setSelectedServiceId(null)}
+              />
+              <PrimaryButton
+                label={loading ? t('saving') : t('addToQueue')}
+                onPress={handleAdd}
+              />
+            </Section>
+            {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+            <ThemedText type="subtitle">
+              {t('waitingWalkIns').replace('{n}', String(queue.length))}
+            </ThemedText>
+          </View>
+        }
+        ListEmptyComponent={
+          <ThemedText style={styles.helperText}>{t('walkInQueueEmpty')}</ThemedText>
+        }
+        renderItem={({ item, index }) => {
+          const service = getService(item.serviceId);
+          const eligible = getCandidatesFor(item.serviceId);
+          const pickedId = pickedEmployees[item.id] ?? eligible[0]?.employee._id;
+          return (
+            <Card>
+              <View style={styles.cardHeaderRow}>
+                <ThemedText type="defaultSemiBold" style={styles.cardTitle}>
+                  {index + 1}. {getCustomerLabel(item.customerId)} -{' '}
+                  {(locale === 'en' && service?.nameEn ? service.nameEn : service?.name) ??
+                    t('serviceFallback')}
+                </ThemedText>
+                <IconButton
+                  icon="trash-outline"
+                  variant="danger"
+                  onPress={() => handleRemove(item.id)}
+                />
+              </View>
+              <ThemedText style={styles.helperText}>
+                {t('waitingSince').replace('{time}', formatTime24(new Date(item.addedAt), locale))}
+              </ThemedText>
+              {eligible.length > 0 && (
+                <View style={styles.pillRow}>
+                  {eligible.map((candidate, rank) => (
+                    <OptionPill
+                      key={candidate.employee._id}
+                      label={
+                        rank === 0
+                          ? `${getEmployeeLabel(candidate.employee)} · ${t('suggestedNext')}`
+                          : getEmployeeLabel(candidate.employee)
+                      }
+                      selected={pickedId === candidate.employee._id}
+                      onPress={() =>
+                        setPickedEmployees((prev) => ({
+                          ...prev,
+                          [item.id]: candidate.employee._id,
+                        }))
+                      }
+                    />
+                  ))}
+                </View>
+              )}
+              <PrimaryButton
+                label={t('assignWalkIn')}
+                onPress={() => handleAssign(item)}
+                disabled={loading || !pickedId}
+              />
+            </Card>
+          );
+        }}
+        contentContainerStyle={styles.content}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  header: {
+    gap: 12,
+  },
+  turnRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  turnRank: {
+    width: 24,
+    fontWeight: '700',
+    color: Palette.accentPurple,
+  },
+  turnInfo: {
+    flex: 1,
+  },
+  turnCount: {
+    fontWeight: '700',
+    color: Palette.navy,
+  },
+  cardHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cardTitle: {
+    flex: 1,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+  error: {
+    color: '#c00',
+  },
+});
@@ -1,4 +1,4 @@
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { Pressable, StyleSheet, View } from 'react-native';
 import Ionicons from '@expo/vector-icons/Ionicons';
@@ -10,10 +10,15 @@ import { FormInput } from '@/components/ui/form-input';
 import { LanguageToggle } from '@/components/ui/language-toggle';
 import { PrimaryButton } from '@/components/ui/primary-button';
 import { Palette } from '@/constants/theme';
+import { ApiError } from '@/lib/api';
+import { getErrorMessage } from '@/lib/api-errors';
+import { resolveReturnRoute } from '@/lib/route-access';
 
 export default function LoginScreen() {
   const { login, user } = useAuth();
   const { t } = useI18n();
+  const { reason, next } = useLocalSearchParams<{ reason?: string; next?: string }>();
+  const sessionExpired = reason === 'expired';
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -25,25 +30,23 @@ export default function LoginScreen() {
     try {
       await login(username.trim(), password);
     } catch (err) {
-      setError((err as Error).message || t('loginFailed'));
+      const rejected = err instanceof ApiError && err.status === 401;
+      setError(rejected ? t('loginFailed') : getErrorMessage(err, t));
     } finally {
       setLoading(false);
     }
   };
 
   useEffect(() => {
-    if (user?.role === 'admin') {
-      setTimeout(() => router.replace('/(admin)'), 0);
+    if (user) {
+      const target = resolveReturnRoute(next, user);
+      setTimeout(() => router.replace(target), 0);
       return;
     }
-    if (user?.role === 'employee') {
-      setTimeout(() => router.replace('/(employee)'), 0);
-      return;
-    }
-    if (!user && !router.canGoBack()) {
+    if (!sessionExpired && !next && !router.canGoBack()) {
       setTimeout(() => router.replace('/(public)'), 0);
     }
-  }, [user]);
+  }, [next, sessionExpired, user]);
 
   return (
     <ThemedView style={styles.container} lightColor={Palette.background}>
@@ -69,6 +72,9 @@ export default function LoginScreen() {
         </View>
       </View>
       <View style={styles.form}>
+        {sessionExpired && (
+          <ThemedText style={styles.notice}>{t('sessionExpiredNotice')}</ThemedText>
+        )}
         <FormInput
           label={t('username')}
           autoCapitalize="none"
@@ -153,6 +159,13 @@ const styles = StyleSheet.create({
     shadowRadius: 10,
     elevation: 3,
   },
+  notice: {
+    color: Palette.navy,
+    backgroundColor: `${Palette.accentOrange}22`,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
   error: {
     color: '#c00',
   },
@@ -4,26 +4,38 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiGet, apiPost } from '@/lib/api';
+import { useOutbox } from '@/context/outbox-context';
+import { useSalonHours } from '@/context/salon-hours-context';
 import { Card } from '@/components/ui/card';
+import { DayTimeline, type TimelineBlock } from '@/components/ui/day-timeline';
+import { OptionPill } from '@/components/ui/option-pill';
+import { OfflineNotice, SyncBadge } from '@/components/ui/sync-status';
+import { useCachedResource } from '@/hooks/use-cached-resource';
 import { Palette } from '@/constants/theme';
-
-type Appointment = {
-  _id: string;
-  customer?: { name: string; nameEn?: string };
-  service?: { name: string; nameEn?: string; price?: number };
-  assignedEmployee?: { displayName?: string; username?: string };
-  status: string;
-  scheduledAt: string;
-};
+import {
+  DEFAULT_SALON_HOURS,
+  getSalonHoursForDate,
+  parseClock,
+} from '@/constants/salon-hours';
+import { canTransition, getStatusLabel, STATUS_COLORS } from '@/lib/appointment-status';
+import {
+  formatServiceNames,
+  getServiceLines,
+  getServiceSegments,
+  getTotalPrice,
+} from '@/lib/appointment-services';
+import type { Appointment, AppointmentStatus } from '@/lib/domain';
+import { appointmentsApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
 
 type CalendarDay = { date: Date };
+type CalendarView = 'week' | 'day';
 type DayAppointment = {
   id: string;
   timeLabel: string;
   customerLabel: string;
   serviceLabel: string;
-  status: string;
+  status: AppointmentStatus;
 };
 
 const PERSON_COL_WIDTH = 86;
@@ -54,36 +66,68 @@ const buildWeekDays = (value: Date): CalendarDay[] => {
 };
 
 export default function EmployeeAppointmentsScreen() {
-  const { token } = useAuth();
+  const { user, token } = useAuth();
   const { t, locale } = useI18n();
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const { hours: salonHours } = useSalonHours();
+  const { entries, entriesByTarget, lastSyncedAt, submit, flush, discard } = useOutbox();
+  const {
+    data,
+    error: loadError,
+    stale,
+    savedAt,
+    reload,
+  } = useCachedResource<Appointment[]>(user ? `${user.id}:appointments/mine` : null, () =>
+    appointmentsApi.mine(token),
+  );
+  const appointments = useMemo(() => data ?? [], [data]);
   const [error, setError] = useState<string | null>(null);
   const [calendarWeek, setCalendarWeek] = useState(new Date());
-
-  const load = async () => {
-    try {
-      const data = await apiGet<Appointment[]>('/appointments/mine', token);
-      setAppointments(data);
-    } catch (err) {
-      setError((err as Error).message);
-    }
-  };
+  const [calendarView, setCalendarView] = useState<CalendarView>('week');
 
   useEffect(() => {
-    load();
-  }, [token]);
+    if (lastSyncedAt) reload();
+  }, [lastSyncedAt, reload]);
 
   const startAppointment = async (id: string) => {
     setError(null);
+    if (entriesByTarget.has(id)) return;
     try {
-      await apiPost(`/appointments/${id}/start`, {}, token);
-      await load();
+      const outcome = await submit('appointment.start', id);
+      if (outcome.queued) {
+        Alert.alert(t('queuedOfflineTitle'), t('queuedOfflineMessage'));
+        return;
+      }
+      await reload();
       Alert.alert(t('successTitle'), t('assignmentCreated'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
+  const markNoShow = (id: string) => {
+    if (entriesByTarget.has(id)) return;
+    Alert.alert(t('markNoShow'), t('noShowConfirm'), [
+      { text: t('close'), style: 'cancel' },
+      {
+        text: t('markNoShow'),
+        style: 'destructive',
+        onPress: async () => {
+          setError(null);
+          try {
+            const outcome = await submit('appointment.noShow', id);
+            if (outcome.queued) {
+              Alert.alert(t('queuedOfflineTitle'), t('queuedOfflineMessage'));
+              return;
+            }
+            await reload();
+          } catch (err) {
+            setError(getErrorMessage(err, t));
+          }
+        },
+      },
+    ]);
+  };
+
   const formatMoney = (value: number) => {
     if (locale === 'en') {
       const dollars = value / 27000;
@@ -92,23 +136,6 @@ export default function EmployeeAppointmentsScreen() {
     return new Intl.NumberFormat('vi-VN').format(value);
   };
 
-  const getStatusLabel = (status?: string) => {
-    switch ((status ?? '').toLowerCase()) {
-      case 'scheduled':
-        return t('statusScheduled');
-      case 'assigned':
-        return t('statusAssigned');
-      case 'completed':
-        return t('statusCompleted');
-      case 'cancelled':
-        return t('statusCancelled');
-      case 'in_progress':
-        return t('statusInProgress');
-      default:
-        return status ?? t('notAvailable');
-    }
-  };
-
   const visibleAppointments = useMemo(
     () => appointments,
     [appointments],
@@ -133,6 +160,78 @@ export default function EmployeeAppointmentsScreen() {
 
   const weekDays = useMemo(() => buildWeekDays(calendarWeek), [calendarWeek]);
 
+  const shiftCalendar = (direction: 1 | -1) => {
+    const step = calendarView === 'week' ? 7 : 1;
+    setCalendarWeek(
+      new Date(
+        calendarWeek.getFullYear(),
+        calendarWeek.getMonth(),
+        calendarWeek.getDate() + direction * step,
+      ),
+    );
+  };
+
+  const calendarLabel =
+    calendarView === 'week'
+      ? weekLabel
+      : calendarWeek.toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+          weekday: 'short',
+          day: '2-digit',
+          month: '2-digit',
+        });
+
+  const timelineHours = useMemo(() => {
+    const window =
+      getSalonHoursForDate(calendarWeek, salonHours) ??
+      DEFAULT_SALON_HOURS.weekly[calendarWeek.getDay()];
+    return {
+      start: window ? parseClock(window.start) : 9 * 60,
+      end: window ? parseClock(window.end) : 18 * 60,
+    };
+  }, [calendarWeek, salonHours]);
+
+  const timelineBlocks = useMemo(() => {
+    const dayKey = toDateKey(calendarWeek);
+    const blocks: TimelineBlock[] = [];
+    appointments.forEach((item) => {
+      if (item.status === 'cancelled' || item.status === 'no_show') return;
+      if (toDateKey(new Date(item.scheduledAt)) !== dayKey) return;
+      const lines = getServiceLines(item);
+      const segments = getServiceSegments(item.scheduledAt, lines);
+      // Only my part of a shared visit; fall back to the whole visit if lines are not attributed.
+      const mine = segments.filter((segment) => segment.employeeId === user?.id);
+      const customerLabel =
+        locale === 'en'
+          ? item.customer?.nameEn ?? item.customer?.name ?? t('customerFallback')
+          : item.customer?.name ?? item.customer?.nameEn ?? t('customerFallback');
+      const serviceLabel = formatServiceNames(lines, locale, t('serviceFallback'));
+      const spans = mine.length
+        ? mine
+        : [
+            {
+              start: segments[0].start,
+              end: segments[segments.length - 1].end,
+              busyStart: segments[0].busyStart,
+              busyEnd: segments[segments.length - 1].busyEnd,
+            },
+          ];
+      spans.forEach((span) => {
+        blocks.push({
+          id: item._id,
+          columnId: 'me',
+          start: span.start,
+          end: span.end,
+          bufferStart: span.busyStart,
+          bufferEnd: span.busyEnd,
+          title: customerLabel,
+          subtitle: `${formatTime24(span.start, locale)}-${formatTime24(span.end, locale)} · ${serviceLabel}`,
+          color: STATUS_COLORS[item.status] ?? Palette.slate,
+        });
+      });
+    });
+    return blocks;
+  }, [appointments, calendarWeek, locale, t, user?.id]);
+
   const weekDayKeys = useMemo(() => {
     const keys = new Set<string>();
     weekDays.forEach((day) => keys.add(toDateKey(day.date)));
@@ -150,10 +249,7 @@ export default function EmployeeAppointmentsScreen() {
         locale === 'en'
           ? item.customer?.nameEn ?? item.customer?.name ?? t('customerFallback')
           : item.customer?.name ?? item.customer?.nameEn ?? t('customerFallback');
-      const serviceLabel =
-        locale === 'en'
-          ? item.service?.nameEn ?? item.service?.name ?? t('serviceFallback')
-          : item.service?.name ?? item.service?.nameEn ?? t('serviceFallback');
+      const serviceLabel = formatServiceNames(getServiceLines(item), locale, t('serviceFallback'));
       const entry: DayAppointment = {
         id: item._id,
         timeLabel,
@@ -168,6 +264,14 @@ export default function EmployeeAppointmentsScreen() {
     return map;
   }, [appointments, locale, t, weekDayKeys]);
 
+  const pendingCount = entries.filter((item) => item.status !== 'failed').length;
+  const visibleError = error ?? (loadError && !data ? getErrorMessage(loadError, t) : null);
+
+  const retrySync = async () => {
+    await flush();
+    await reload();
+  };
+
   return (
     <ThemedView style={styles.container} lightColor={Palette.background}>
       <FlatList
@@ -176,138 +280,163 @@ export default function EmployeeAppointmentsScreen() {
         ListHeaderComponent={
           <View style={styles.header}>
             <ThemedText type="title">{t('employeeAppointmentsTitle')}</ThemedText>
+            <OfflineNotice
+              stale={stale}
+              savedAt={savedAt}
+              pendingCount={pendingCount}
+              onRetry={retrySync}
+            />
             <View style={styles.calendarCard}>
               <View style={styles.calendarHeader}>
                 <ThemedText type="defaultSemiBold">{t('schedule')}</ThemedText>
                 <View style={styles.calendarNav}>
-                  <Pressable
-                    onPress={() =>
-                      setCalendarWeek(
-                        new Date(
-                          calendarWeek.getFullYear(),
-                          calendarWeek.getMonth(),
-                          calendarWeek.getDate() - 7,
-                        ),
-                      )
-                    }
-                    style={styles.navButton}
-                  >
+                  <Pressable onPress={() => shiftCalendar(-1)} style={styles.navButton}>
                     <ThemedText style={styles.navText}>{'<'}</ThemedText>
                   </Pressable>
-                  <ThemedText style={styles.monthText}>{weekLabel}</ThemedText>
-                  <Pressable
-                    onPress={() =>
-                      setCalendarWeek(
-                        new Date(
-                          calendarWeek.getFullYear(),
-                          calendarWeek.getMonth(),
-                          calendarWeek.getDate() + 7,
-                        ),
-                      )
-                    }
-                    style={styles.navButton}
-                  >
+                  <ThemedText style={styles.monthText}>{calendarLabel}</ThemedText>
+                  <Pressable onPress={() => shiftCalendar(1)} style={styles.navButton}>
                     <ThemedText style={styles.navText}>{'>'}</ThemedText>
                   </Pressable>
                 </View>
               </View>
-              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                <View style={styles.rosterGrid}>
-                  <View style={styles.rosterHeaderRow}>
-                    <View style={[styles.rosterCell, styles.personHeader]}>
-                      <ThemedText style={styles.rosterHeaderText}>{t('employee')}</ThemedText>
+              <View style={styles.pillRow}>
+                <OptionPill
+                  label={t('weekView')}
+                  selected={calendarView === 'week'}
+                  onPress={() => setCalendarView('week')}
+                />
+                <OptionPill
+                  label={t('dayView')}
+                  selected={calendarView === 'day'}
+                  onPress={() => setCalendarView('day')}
+                />
+              </View>
+              {calendarView === 'day' ? (
+                <DayTimeline
+                  day={calendarWeek}
+                  columns={[{ id: 'me', label: t('me') }]}
+                  blocks={timelineBlocks}
+                  startMinute={timelineHours.start}
+                  endMinute={timelineHours.end}
+                />
+              ) : (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <View style={styles.rosterGrid}>
+                    <View style={styles.rosterHeaderRow}>
+                      <View style={[styles.rosterCell, styles.personHeader]}>
+                        <ThemedText style={styles.rosterHeaderText}>{t('employee')}</ThemedText>
+                      </View>
+                      {weekDays.map((day, index) => (
+                        <View key={dayLabels[index]} style={[styles.rosterCell, styles.dayHeader]}>
+                          <ThemedText style={styles.rosterHeaderText}>
+                            {dayLabels[index]} {day.date.getDate()}
+                          </ThemedText>
+                        </View>
+                      ))}
                     </View>
-                    {weekDays.map((day, index) => (
-                      <View key={dayLabels[index]} style={[styles.rosterCell, styles.dayHeader]}>
-                        <ThemedText style={styles.rosterHeaderText}>
-                          {dayLabels[index]} {day.date.getDate()}
+                    <View style={styles.rosterRow}>
+                      <View style={[styles.rosterCell, styles.personCell]}>
+                        <ThemedText style={styles.personText} numberOfLines={1}>
+                          {t('me')}
                         </ThemedText>
                       </View>
-                    ))}
-                  </View>
-                  <View style={styles.rosterRow}>
-                    <View style={[styles.rosterCell, styles.personCell]}>
-                      <ThemedText style={styles.personText} numberOfLines={1}>
-                        {t('me')}
-                      </ThemedText>
+                      {weekDays.map((day) => {
+                        const dayKey = toDateKey(day.date);
+                        const dayAppointments = rosterMap.get(dayKey) ?? [];
+                        return (
+                          <View key={dayKey} style={[styles.rosterCell, styles.shiftCell]}>
+                            {dayAppointments.length === 0 ? null : (
+                              <View style={styles.shiftStack}>
+                                {dayAppointments.map((appointment) => (
+                                  <Pressable
+                                    key={appointment.id}
+                                    onPress={() =>
+                                      canTransition(appointment.status, 'in_progress')
+                                        ? startAppointment(appointment.id)
+                                        : null
+                                    }
+                                    style={styles.shiftPill}
+                                  >
+                                    <ThemedText style={styles.shiftTime}>
+                                      {appointment.timeLabel}
+                                    </ThemedText>
+                                    <ThemedText style={styles.shiftMeta} numberOfLines={1}>
+                                      {appointment.customerLabel}
+                                    </ThemedText>
+                                    <ThemedText style={styles.shiftMeta} numberOfLines={1}>
+                                      {appointment.serviceLabel}
+                                    </ThemedText>
+                                  </Pressable>
+                                ))}
+                              </View>
+                            )}
+                          </View>
+                        );
+                      })}
                     </View>
-                    {weekDays.map((day) => {
-                      const dayKey = toDateKey(day.date);
-                      const dayAppointments = rosterMap.get(dayKey) ?? [];
-                      return (
-                        <View key={dayKey} style={[styles.rosterCell, styles.shiftCell]}>
-                          {dayAppointments.length === 0 ? null : (
-                            <View style={styles.shiftStack}>
-                              {dayAppointments.map((appointment) => (
-                                <Pressable
-                                  key={appointment.id}
-                                  onPress={() =>
-                                    appointment.status === 'scheduled'
-                                      ? startAppointment(appointment.id)
-                                      : null
-                                  }
-                                  style={styles.shiftPill}
-                                >
-                                  <ThemedText style={styles.shiftTime}>
-                                    {appointment.timeLabel}
-                                  </ThemedText>
-                                  <ThemedText style={styles.shiftMeta} numberOfLines={1}>
-                                    {appointment.customerLabel}
-                                  </ThemedText>
-                                  <ThemedText style={styles.shiftMeta} numberOfLines={1}>
-                                    {appointment.serviceLabel}
-                                  </ThemedText>
-                                </Pressable>
-                              ))}
-                            </View>
-                          )}
-                        </View>
-                      );
-                    })}
                   </View>
-                </View>
-              </ScrollView>
+                </ScrollView>
+              )}
             </View>
-            {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+            {visibleError && <ThemedText style={styles.error}>{visibleError}</ThemedText>}
           </View>
         }
-        renderItem={({ item }) => (
-          <Card>
-            <View style={styles.cardHeaderRow}>
-              <View style={styles.titleBlock}>
-                <ThemedText type="defaultSemiBold" numberOfLines={2}>
-                  {(locale === 'en' && item.customer?.nameEn ? item.customer.nameEn : item.customer?.name ?? t('customerFallback'))}{' '}
-                  - {(locale === 'en' && item.service?.nameEn ? item.service.nameEn : item.service?.name ?? t('serviceFallback'))}
-                </ThemedText>
+        renderItem={({ item }) => {
+          const queued = entriesByTarget.get(item._id) ?? [];
+          return (
+            <Card>
+              <View style={styles.cardHeaderRow}>
+                <View style={styles.titleBlock}>
+                  <ThemedText type="defaultSemiBold" numberOfLines={2}>
+                    {(locale === 'en' && item.customer?.nameEn ? item.customer.nameEn : item.customer?.name ?? t('customerFallback'))}{' '}
+                    - {formatServiceNames(getServiceLines(item), locale, t('serviceFallback'))}
+                  </ThemedText>
+                  {queued.map((entry) => (
+                    <SyncBadge
+                      key={entry.id}
+                      status={entry.status}
+                      onDiscard={() => discard(entry.id)}
+                    />
+                  ))}
+                </View>
+                <View style={styles.actionsRow}>
+                  {canTransition(item.status, 'in_progress') && queued.length === 0 && (
+                    <ActionButton
+                      label={t('startWork')}
+                      color={Palette.accentBlue}
+                      onPress={() => startAppointment(item._id)}
+                    />
+                  )}
+                  {canTransition(item.status, 'no_show') &&
+                    queued.length === 0 &&
+                    new Date(item.scheduledAt) < new Date() && (
+                      <ActionButton
+                        label={t('markNoShow')}
+                        color={Palette.danger}
+                        onPress={() => markNoShow(item._id)}
+                      />
+                    )}
+                </View>
               </View>
-              <View style={styles.actionsRow}>
-                {item.status === 'scheduled' && (
-                  <ActionButton
-                    label={t('startWork')}
-                    color={Palette.accentBlue}
-                    onPress={() => startAppointment(item._id)}
-                  />
-                )}
+              <View style={styles.infoRow}>
+                <InfoPill
+                  label={t('fee')}
+                  value={formatMoney(getTotalPrice(getServiceLines(item)))}
+                  color={Palette.accentPurple}
+                />
+                <InfoPill
+                  label={t('time')}
+                  value={new Date(item.scheduledAt).toLocaleString()}
+                  color={Palette.accentTeal}
+                />
               </View>
-            </View>
-            <View style={styles.infoRow}>
-              <InfoPill
-                label={t('fee')}
-                value={formatMoney(item.service?.price ?? 0)}
-                color={Palette.accentPurple}
-              />
-              <InfoPill
-                label={t('time')}
-                value={new Date(item.scheduledAt).toLocaleString()}
-                color={Palette.accentTeal}
-              />
-            </View>
-            <ThemedText>
-              {t('employee')}: {item.assignedEmployee?.displayName ?? item.assignedEmployee?.username ?? t('notAvailable')}
-            </ThemedText>
-            <ThemedText>{t('status')}: {getStatusLabel(item.status)}</ThemedText>
-          </Card>
-        )}
+              <ThemedText>
+                {t('employee')}: {item.assignedEmployee?.displayName ?? item.assignedEmployee?.username ?? t('notAvailable')}
+              </ThemedText>
+              <ThemedText>{t('status')}: {getStatusLabel(item.status, t)}</ThemedText>
+            </Card>
+          );
+        }}
         ListEmptyComponent={<ThemedText style={styles.empty}>{t('noData')}</ThemedText>}
         contentContainerStyle={styles.content}
       />
@@ -375,6 +504,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
   calendarNav: {
     flexDirection: 'row',
     alignItems: 'center',
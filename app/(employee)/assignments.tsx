@@ -1,60 +1,70 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Alert, FlatList, Pressable, StyleSheet, View } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiGet, apiPatch } from '@/lib/api';
+import { useOutbox } from '@/context/outbox-context';
 import { Card } from '@/components/ui/card';
+import { OfflineNotice, SyncBadge } from '@/components/ui/sync-status';
+import { useCachedResource } from '@/hooks/use-cached-resource';
 import { Palette } from '@/constants/theme';
-
-type Assignment = {
-  _id: string;
-  customer?: { name: string; nameEn?: string };
-  service?: { name: string; nameEn?: string };
-  price: number;
-  status: string;
-  scheduledAt: string;
-  checkInAt?: string;
-  completedAt?: string;
-};
+import {
+  canTransitionAssignment,
+  getStatusLabel,
+  STATUS_COLORS,
+} from '@/lib/appointment-status';
+import type { Assignment } from '@/lib/domain';
+import { assignmentsApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
 
 export default function EmployeeAssignmentsScreen() {
-  const { token } = useAuth();
+  const { user, token } = useAuth();
   const { t, locale } = useI18n();
-  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const { entries, entriesByTarget, lastSyncedAt, submit, flush, discard } = useOutbox();
+  const {
+    data,
+    error: loadError,
+    stale,
+    savedAt,
+    reload,
+  } = useCachedResource<Assignment[]>(user ? `${user.id}:assignments/mine` : null, () =>
+    assignmentsApi.mine(token),
+  );
+  const assignments = useMemo(() => data ?? [], [data]);
   const [error, setError] = useState<string | null>(null);
 
-  const load = async () => {
-    try {
-      const data = await apiGet<Assignment[]>('/assignments/mine', token);
-      setAssignments(data);
-    } catch (err) {
-      setError((err as Error).message);
-    }
-  };
-
   useEffect(() => {
-    load();
-  }, [token]);
+    if (lastSyncedAt) reload();
+  }, [lastSyncedAt, reload]);
 
   const checkIn = async (id: string) => {
+    setError(null);
     try {
-      await apiPatch(`/assignments/${id}/check-in`, {}, token);
-      await load();
+      const outcome = await submit('assignment.checkIn', id);
+      if (outcome.queued) {
+        Alert.alert(t('queuedOfflineTitle'), t('queuedOfflineMessage'));
+        return;
+      }
+      await reload();
       Alert.alert(t('successTitle'), t('checkInSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
   const complete = async (id: string) => {
+    setError(null);
     try {
-      await apiPatch(`/assignments/${id}/complete`, {}, token);
-      await load();
+      const outcome = await submit('assignment.complete', id);
+      if (outcome.queued) {
+        Alert.alert(t('queuedOfflineTitle'), t('queuedOfflineMessage'));
+        return;
+      }
+      await reload();
       Alert.alert(t('successTitle'), t('completeSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
@@ -66,6 +76,14 @@ export default function EmployeeAssignmentsScreen() {
     return new Intl.NumberFormat('vi-VN').format(value);
   };
 
+  const pendingCount = entries.filter((item) => item.status !== 'failed').length;
+  const visibleError = error ?? (loadError && !data ? getErrorMessage(loadError, t) : null);
+
+  const retrySync = async () => {
+    await flush();
+    await reload();
+  };
+
   return (
     <ThemedView style={styles.container} lightColor={Palette.background}>
       <FlatList
@@ -74,22 +92,21 @@ export default function EmployeeAssignmentsScreen() {
         ListHeaderComponent={
           <View style={styles.header}>
             <ThemedText type="title">{t('employeeAssignmentsTitle')}</ThemedText>
-            {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+            <OfflineNotice
+              stale={stale}
+              savedAt={savedAt}
+              pendingCount={pendingCount}
+              onRetry={retrySync}
+            />
+            {visibleError && <ThemedText style={styles.error}>{visibleError}</ThemedText>}
           </View>
         }
         renderItem={({ item }) => {
-          const statusLabel =
-            item.status === 'completed'
-              ? t('statusCompleted')
-              : item.status === 'in_progress'
-              ? t('statusInProgress')
-              : t('statusScheduled');
-          const statusColor =
-            item.status === 'completed'
-              ? Palette.accentGreen
-              : item.status === 'in_progress'
-              ? Palette.accentOrange
-              : Palette.accentBlue;
+          const queued = entriesByTarget.get(item._id) ?? [];
+          const checkInQueued = queued.some((entry) => entry.kind === 'assignment.checkIn');
+          const completeQueued = queued.some((entry) => entry.kind === 'assignment.complete');
+          const statusLabel = getStatusLabel(item.status, t);
+          const statusColor = STATUS_COLORS[item.status] ?? Palette.accentBlue;
           return (
             <Card>
               <View style={styles.cardHeaderRow}>
@@ -104,16 +121,27 @@ export default function EmployeeAssignmentsScreen() {
                       {statusLabel}
                     </ThemedText>
                   </View>
+                  {queued.map((entry) => (
+                    <SyncBadge
+                      key={entry.id}
+                      status={entry.status}
+                      onDiscard={() => discard(entry.id)}
+                    />
+                  ))}
                 </View>
                 <View style={styles.actionsRow}>
-                  {!item.checkInAt && (
+                  {!item.checkInAt &&
+                    !checkInQueued &&
+                    canTransitionAssignment(item.status, 'in_progress') && (
                     <ActionButton
                       label={t('checkIn')}
                       color={Palette.accentBlue}
                       onPress={() => checkIn(item._id)}
                     />
                   )}
-                  {item.checkInAt && !item.completedAt && (
+                  {(checkInQueued || canTransitionAssignment(item.status, 'completed')) &&
+                    !item.completedAt &&
+                    !completeQueued && (
                     <ActionButton
                       label={t('complete')}
                       color={Palette.accentGreen}
@@ -1,13 +1,16 @@
 import React, { useState } from 'react';
-import { Alert, StyleSheet } from 'react-native';
+import { Alert, ScrollView, StyleSheet } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { FormInput } from '@/components/ui/form-input';
 import { PrimaryButton } from '@/components/ui/primary-button';
+import { Section } from '@/components/ui/section';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiPatch } from '@/lib/api';
 import { Palette } from '@/constants/theme';
+import { usersApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
+import { isValidPin } from '@/lib/kiosk';
 
 export default function ChangePasswordScreen() {
   const { token } = useAuth();
@@ -17,6 +20,11 @@ export default function ChangePasswordScreen() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pinPassword, setPinPassword] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [pinLoading, setPinLoading] = useState(false);
+  const [pinError, setPinError] = useState<string | null>(null);
 
   const handleSave = async () => {
     if (!currentPassword.trim() || !newPassword.trim() || !confirmPassword.trim()) {
@@ -30,48 +38,105 @@ export default function ChangePasswordScreen() {
     setError(null);
     setLoading(true);
     try {
-      await apiPatch(
-        '/users/me/password',
-        { currentPassword, newPassword },
-        token,
-      );
+      await usersApi.changePassword({ currentPassword, newPassword }, token);
       setCurrentPassword('');
       setNewPassword('');
       setConfirmPassword('');
       Alert.alert(t('successTitle'), t('changePasswordSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSavePin = async () => {
+    if (!pinPassword.trim()) {
+      setPinError(t('errorPasswordRequired'));
+      return;
+    }
+    if (!isValidPin(pin)) {
+      setPinError(t('errorPinFormat'));
+      return;
+    }
+    if (pin !== confirmPin) {
+      setPinError(t('errorPinMismatch'));
+      return;
+    }
+    setPinError(null);
+    setPinLoading(true);
+    try {
+      await usersApi.changePin({ currentPassword: pinPassword, pin }, token);
+      setPinPassword('');
+      setPin('');
+      setConfirmPin('');
+      Alert.alert(t('successTitle'), t('kioskPinSaved'));
+    } catch (err) {
+      setPinError(getErrorMessage(err, t));
+    } finally {
+      setPinLoading(false);
+    }
+  };
+
   return (
     <ThemedView style={styles.container} lightColor={Palette.background}>
-      <ThemedText type="title">{t('changePasswordTitle')}</ThemedText>
-      <FormInput
-        label={t('currentPassword')}
-        value={currentPassword}
-        onChangeText={setCurrentPassword}
-        secureTextEntry
-      />
-      <FormInput
-        label={t('newPassword')}
-        value={newPassword}
-        onChangeText={setNewPassword}
-        secureTextEntry
-      />
-      <FormInput
-        label={t('confirmPassword')}
-        value={confirmPassword}
-        onChangeText={setConfirmPassword}
-        secureTextEntry
-      />
-      {error && <ThemedText style={styles.error}>{error}</ThemedText>}
-      <PrimaryButton
-        label={loading ? t('saving') : t('changePassword')}
-        onPress={handleSave}
-      />
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText type="title">{t('changePasswordTitle')}</ThemedText>
+        <FormInput
+          label={t('currentPassword')}
+          value={currentPassword}
+          onChangeText={setCurrentPassword}
+          secureTextEntry
+        />
+        <FormInput
+          label={t('newPassword')}
+          value={newPassword}
+          onChangeText={setNewPassword}
+          secureTextEntry
+        />
+        <FormInput
+          label={t('confirmPassword')}
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+          secureTextEntry
+        />
+        {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+        <PrimaryButton
+          label={loading ? t('saving') : t('changePassword')}
+          onPress={handleSave}
+        />
+        <Section title={t('kioskPin')}>
+          <ThemedText style={styles.helperText}>{t('kioskPinHint')}</ThemedText>
+          <FormInput
+            label={t('currentPassword')}
+            value={pinPassword}
+            onChangeText={setPinPassword}
+            secureTextEntry
+          />
+          <FormInput
+            label={t('kioskNewPin')}
+            value={pin}
+            onChangeText={setPin}
+            keyboardType="number-pad"
+            maxLength={6}
+            secureTextEntry
+          />
+          <FormInput
+            label={t('kioskConfirmPin')}
+            value={confirmPin}
+            onChangeText={setConfirmPin}
+            keyboardType="number-pad"
+            maxLength={6}
+            secureTextEntry
+          />
+          {pinError && <ThemedText style={styles.error}>{pinError}</ThemedText>}
+          <PrimaryButton
+            label={pinLoading ? t('saving') : t('kioskSavePin')}
+            disabled={pinLoading}
+            onPress={handleSavePin}
+          />
+        </Section>
+      </ScrollView>
     </ThemedView>
   );
 }
@@ -79,9 +144,15 @@ export default function ChangePasswordScreen() {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
+  },
+  content: {
     padding: 16,
     gap: 12,
   },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
   error: {
     color: '#c00',
   },
@@ -4,25 +4,13 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiGet } from '@/lib/api';
 import { Card } from '@/components/ui/card';
 import { FormInput } from '@/components/ui/form-input';
 import { DateTimeInput } from '@/components/ui/date-time-input';
 import { Palette } from '@/constants/theme';
-
-type Commission = {
-  _id: string;
-  ownerPercent: number;
-  employeePercent: number;
-  ownerAmount: number;
-  employeeAmount: number;
-  assignment?: {
-    scheduledAt?: string;
-    completedAt?: string;
-    service?: { name?: string; nameEn?: string };
-    customer?: { name?: string; nameEn?: string };
-  };
-};
+import type { Commission } from '@/lib/domain';
+import { commissionsApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
 
 export default function EmployeeCommissionsScreen() {
   const { token } = useAuth();
@@ -36,14 +24,14 @@ export default function EmployeeCommissionsScreen() {
   useEffect(() => {
     const load = async () => {
       try {
-        const data = await apiGet<Commission[]>('/commissions/mine', token);
+        const data = await commissionsApi.mine(token);
         setCommissions(data);
       } catch (err) {
-        setError((err as Error).message);
+        setError(getErrorMessage(err, t));
       }
     };
     load();
-  }, [token]);
+  }, [token, t]);
 
   const formatMoney = (value: number) => {
     if (locale === 'en') {
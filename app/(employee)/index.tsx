@@ -6,7 +6,7 @@ import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
 import { LanguageToggle } from '@/components/ui/language-toggle';
-import { apiGet } from '@/lib/api';
+import { assignmentsApi, commissionsApi, workSchedulesApi } from '@/lib/resources';
 import { Palette } from '@/constants/theme';
 
 export default function EmployeeHome() {
@@ -23,9 +23,9 @@ export default function EmployeeHome() {
     const load = async () => {
       try {
         const [schedules, assignments, commissions] = await Promise.all([
-          apiGet<any[]>('/work-schedules/mine', token),
-          apiGet<any[]>('/assignments/mine', token),
-          apiGet<any[]>('/commissions/mine', token),
+          workSchedulesApi.mine(token),
+          assignmentsApi.mine(token),
+          commissionsApi.mine(token),
         ]);
         const pending = assignments.filter((item) => item.status !== 'completed').length;
         setStats({
@@ -41,13 +41,14 @@ export default function EmployeeHome() {
   }, [token]);
 
   const handleLogout = async () => {
+    // The group's RoleGate moves a signed-out user to the public home.
     await logout();
-    router.replace('/(public)');
   };
 
   const actions = useMemo(
     () => [
       { label: t('employeeSchedule'), color: Palette.accentTeal, path: '/(employee)/schedule' },
+      { label: t('timeOffTitle'), color: Palette.accentOrange, path: '/(employee)/time-off' },
       { label: t('employeeAppointments'), color: Palette.accentPurple, path: '/(employee)/appointments' },
       { label: t('employeeAssignments'), color: Palette.accentBlue, path: '/(employee)/assignments' },
       { label: t('employeeCommissions'), color: Palette.accentPink, path: '/(employee)/commissions' },
@@ -4,22 +4,11 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiGet } from '@/lib/api';
 import { Card } from '@/components/ui/card';
 import { Palette } from '@/constants/theme';
-
-type Payroll = {
-  _id: string;
-  periodStart: string;
-  periodEnd: string;
-  serviceSales: number;
-  supplyFee: number;
-  netServiceSales: number;
-  serviceCommission: number;
-  tip: number;
-  productSales: number;
-  workingHours: number;
-};
+import type { Payroll } from '@/lib/domain';
+import { payrollsApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
 
 export default function EmployeePayrollsScreen() {
   const { token } = useAuth();
@@ -30,14 +19,14 @@ export default function EmployeePayrollsScreen() {
   useEffect(() => {
     const load = async () => {
       try {
-        const data = await apiGet<Payroll[]>('/payrolls/mine', token);
+        const data = await payrollsApi.mine(token);
         setPayrolls(data);
       } catch (err) {
-        setError((err as Error).message);
+        setError(getErrorMessage(err, t));
       }
     };
     load();
-  }, [token]);
+  }, [token, t]);
 
   const formatMoney = useMemo(() => {
     return (value: number) => {
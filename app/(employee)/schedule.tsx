@@ -4,22 +4,39 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/auth-context';
 import { useI18n } from '@/context/i18n-context';
-import { apiGet, apiPatch } from '@/lib/api';
+import { useOutbox } from '@/context/outbox-context';
+import { useSalonHours } from '@/context/salon-hours-context';
 import { Card } from '@/components/ui/card';
+import { FormInput } from '@/components/ui/form-input';
+import { OptionPill } from '@/components/ui/option-pill';
+import { PrimaryButton } from '@/components/ui/primary-button';
+import { Section } from '@/components/ui/section';
+import { OfflineNotice, SyncBadge } from '@/components/ui/sync-status';
+import { useCachedResource } from '@/hooks/use-cached-resource';
 import { Palette } from '@/constants/theme';
-
-type WorkSchedule = {
-  _id: string;
-  startAt: string;
-  endAt: string;
-  note?: string;
-  checkInAt?: string;
-  checkOutAt?: string;
-};
+import type { BreakType, PublicEmployee, ShiftSwap, TimeOffRequest, WorkSchedule } from '@/lib/domain';
+import { shiftSwapsApi, timeOffApi, usersApi, workSchedulesApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
+import {
+  BREAK_TYPE_LABEL_KEYS,
+  getBreakLimit,
+  getBreakMinutes,
+  getOpenBreak,
+  getWorkedHours,
+  isBreakOverPolicy,
+} from '@/lib/shift-breaks';
+import { isSwapActive, isSwapOfferedTo, SHIFT_SWAP_STATUS_LABEL_KEYS } from '@/lib/shift-swaps';
+import { getApprovedLeave } from '@/lib/time-off';
 
 type CalendarDay = { date: Date };
 type DayShift = { id: string; timeLabel: string; note?: string };
 
+const BREAK_KINDS = [
+  'workSchedule.startPaidBreak',
+  'workSchedule.startUnpaidBreak',
+  'workSchedule.endBreak',
+];
+
 const PERSON_COL_WIDTH = 86;
 const DAY_COL_WIDTH = 80;
 
@@ -48,32 +65,71 @@ const buildWeekDays = (value: Date): CalendarDay[] => {
 };
 
 export default function EmployeeScheduleScreen() {
-  const { token } = useAuth();
+  const { user, token } = useAuth();
   const { t, locale } = useI18n();
-  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const { entries, entriesByTarget, lastSyncedAt, submit, flush, discard } = useOutbox();
+  const { hours: salonHours } = useSalonHours();
+  const {
+    data,
+    error: loadError,
+    stale,
+    savedAt,
+    reload,
+  } = useCachedResource<WorkSchedule[]>(user ? `${user.id}:work-schedules/mine` : null, () =>
+    workSchedulesApi.mine(token),
+  );
+  const schedules = useMemo(() => data ?? [], [data]);
   const [error, setError] = useState<string | null>(null);
   const [calendarWeek, setCalendarWeek] = useState(new Date());
+  const [timeOff, setTimeOff] = useState<TimeOffRequest[]>([]);
+  const [swaps, setSwaps] = useState<ShiftSwap[]>([]);
+  const [colleagues, setColleagues] = useState<PublicEmployee[]>([]);
+  const [offeringId, setOfferingId] = useState<string | null>(null);
+  const [offerTargets, setOfferTargets] = useState<string[]>([]);
+  const [offerNote, setOfferNote] = useState('');
+  const [returnShiftIds, setReturnShiftIds] = useState<Record<string, string | null>>({});
+  const [swapBusy, setSwapBusy] = useState(false);
 
-  const load = async () => {
+  const loadSwaps = async () => {
     try {
-      const data = await apiGet<WorkSchedule[]>('/work-schedules/mine', token);
-      setSchedules(data);
+      const [swapsData, colleaguesData] = await Promise.all([
+        shiftSwapsApi.mine(token),
+        usersApi.listPublicEmployees(),
+      ]);
+      setSwaps(swapsData);
+      setColleagues(colleaguesData.filter((item) => item._id !== user?.id));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
     }
   };
 
   useEffect(() => {
-    load();
+    loadSwaps();
   }, [token]);
 
+  useEffect(() => {
+    timeOffApi
+      .mine(token)
+      .then(setTimeOff)
+      .catch(() => {
+        // Leave shading is a hint; the shifts still load without it.
+      });
+  }, [token]);
+
+  useEffect(() => {
+    if (lastSyncedAt) reload();
+  }, [lastSyncedAt, reload]);
+
   const checkIn = async (id: string) => {
+    setError(null);
     try {
-      const result = await apiPatch<{
-        lateMinutes?: number;
-        isLate?: boolean;
-      }>(`/work-schedules/${id}/check-in`, {}, token);
-      await load();
+      const outcome = await submit('workSchedule.checkIn', id);
+      if (outcome.queued) {
+        Alert.alert(t('queuedOfflineTitle'), t('queuedOfflineMessage'));
+        return;
+      }
+      const result = outcome.result;
+      await reload();
       if (result?.isLate) {
         const minutes = result.lateMinutes ?? 0;
         Alert.alert(
@@ -84,20 +140,164 @@ export default function EmployeeScheduleScreen() {
         Alert.alert(t('successTitle'), t('checkInSuccess'));
       }
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
+    }
+  };
+
+  const startBreak = async (id: string, type: BreakType) => {
+    setError(null);
+    try {
+      const outcome = await submit(
+        type === 'paid' ? 'workSchedule.startPaidBreak' : 'workSchedule.startUnpaidBreak',
+        id,
+      );
+      if (outcome.queued) {
+        Alert.alert(t('queuedOfflineTitle'), t('queuedOfflineMessage'));
+        return;
+      }
+      await reload();
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    }
+  };
+
+  const endBreak = async (id: string) => {
+    setError(null);
+    try {
+      const outcome = await submit('workSchedule.endBreak', id);
+      if (outcome.queued) {
+        Alert.alert(t('queuedOfflineTitle'), t('queuedOfflineMessage'));
+        return;
+      }
+      await reload();
+      const ended = outcome.result.breaks?.[outcome.result.breaks.length - 1];
+      if (ended && isBreakOverPolicy(ended, salonHours)) {
+        Alert.alert(
+          t('longBreakTitle'),
+          t('longBreakWarning')
+            .replace('{minutes}', String(getBreakMinutes(ended)))
+            .replace('{limit}', String(getBreakLimit(ended.type, salonHours))),
+        );
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, t));
     }
   };
 
   const checkOut = async (id: string) => {
+    setError(null);
     try {
-      await apiPatch(`/work-schedules/${id}/check-out`, {}, token);
-      await load();
+      const outcome = await submit('workSchedule.checkOut', id);
+      if (outcome.queued) {
+        Alert.alert(t('queuedOfflineTitle'), t('queuedOfflineMessage'));
+        return;
+      }
+      await reload();
       Alert.alert(t('successTitle'), t('checkOutSuccess'));
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
+    }
+  };
+
+  const openOfferForm = (scheduleId: string) => {
+    setOfferingId((prev) => (prev === scheduleId ? null : scheduleId));
+    setOfferTargets([]);
+    setOfferNote('');
+  };
+
+  const toggleOfferTarget = (employeeId: string) => {
+    setOfferTargets((prev) =>
+      prev.includes(employeeId) ? prev.filter((id) => id !== employeeId) : [...prev, employeeId],
+    );
+  };
+
+  const handleOffer = async (scheduleId: string) => {
+    setError(null);
+    setSwapBusy(true);
+    try {
+      await shiftSwapsApi.create(
+        {
+          scheduleId,
+          offeredToIds: offerTargets.length ? offerTargets : undefined,
+          note: offerNote.trim() || undefined,
+        },
+        token,
+      );
+      setOfferingId(null);
+      await loadSwaps();
+      Alert.alert(t('successTitle'), t('swapOfferedMessage'));
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setSwapBusy(false);
+    }
+  };
+
+  const handleAcceptSwap = async (swap: ShiftSwap) => {
+    setError(null);
+    setSwapBusy(true);
+    try {
+      await shiftSwapsApi.accept(
+        swap._id,
+        { returnScheduleId: returnShiftIds[swap._id] ?? undefined },
+        token,
+      );
+      await loadSwaps();
+      Alert.alert(t('successTitle'), t('swapAcceptedMessage'));
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setSwapBusy(false);
+    }
+  };
+
+  const handleCancelSwap = async (swap: ShiftSwap) => {
+    setError(null);
+    try {
+      await shiftSwapsApi.cancel(swap._id, token);
+      await loadSwaps();
+    } catch (err) {
+      setError(getErrorMessage(err, t));
     }
   };
 
+  const activeSwapBySchedule = useMemo(() => {
+    const map = new Map<string, ShiftSwap>();
+    swaps.forEach((item) => {
+      if (isSwapActive(item) && item.fromEmployee?._id === user?.id) {
+        map.set(item.schedule._id, item);
+      }
+    });
+    return map;
+  }, [swaps, user?.id]);
+
+  const incomingOffers = useMemo(
+    () => swaps.filter((item) => isSwapOfferedTo(item, user?.id)),
+    [swaps, user?.id],
+  );
+
+  // Shifts I could hand back in exchange: upcoming, not started and not already on offer.
+  const returnCandidates = useMemo(
+    () =>
+      schedules.filter(
+        (item) =>
+          new Date(item.startAt) > new Date() &&
+          !item.checkInAt &&
+          !activeSwapBySchedule.has(item._id),
+      ),
+    [activeSwapBySchedule, schedules],
+  );
+
+  const swapShiftLabel = (shift: WorkSchedule) => {
+    const start = new Date(shift.startAt);
+    const date = start.toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+      weekday: 'short',
+      day: '2-digit',
+      month: '2-digit',
+    });
+    return `${date} ${formatTime24(start, locale)} - ${formatTime24(new Date(shift.endAt), locale)}`;
+  };
+
   const dayLabels = useMemo(
     () => [t('dayMon'), t('dayTue'), t('dayWed'), t('dayThu'), t('dayFri'), t('daySat'), t('daySun')],
     [t],
@@ -141,6 +341,26 @@ export default function EmployeeScheduleScreen() {
     return map;
   }, [locale, schedules, weekDayKeys]);
 
+  const leaveByDay = useMemo(() => {
+    const map = new Map<string, string>();
+    getApprovedLeave(timeOff).forEach((window) => {
+      const { partialHours } = window.request;
+      map.set(
+        toDateKey(window.start),
+        partialHours ? `${partialHours.start} - ${partialHours.end}` : t('timeOffFullDay'),
+      );
+    });
+    return map;
+  }, [t, timeOff]);
+
+  const pendingCount = entries.filter((item) => item.status !== 'failed').length;
+  const visibleError = error ?? (loadError && !data ? getErrorMessage(loadError, t) : null);
+
+  const retrySync = async () => {
+    await flush();
+    await reload();
+  };
+
   return (
     <ThemedView style={styles.container} lightColor="#f6f7f9">
       <FlatList
@@ -149,6 +369,12 @@ export default function EmployeeScheduleScreen() {
         ListHeaderComponent={
           <View style={styles.header}>
             <ThemedText type="title">{t('employeeSchedulesTitle')}</ThemedText>
+            <OfflineNotice
+              stale={stale}
+              savedAt={savedAt}
+              pendingCount={pendingCount}
+              onRetry={retrySync}
+            />
             <View style={styles.calendarCard}>
               <View style={styles.calendarHeader}>
                 <ThemedText type="defaultSemiBold">{t('schedule')}</ThemedText>
@@ -207,8 +433,17 @@ export default function EmployeeScheduleScreen() {
                     {weekDays.map((day) => {
                       const dayKey = toDateKey(day.date);
                       const shifts = scheduleMap.get(dayKey) ?? [];
+                      const leaveLabel = leaveByDay.get(dayKey);
                       return (
-                        <View key={dayKey} style={[styles.rosterCell, styles.shiftCell]}>
+                        <View
+                          key={dayKey}
+                          style={[styles.rosterCell, styles.shiftCell, leaveLabel && styles.leaveCell]}
+                        >
+                          {leaveLabel ? (
+                            <ThemedText style={styles.leaveText} numberOfLines={2}>
+                              {`${t('onLeave')} · ${leaveLabel}`}
+                            </ThemedText>
+                          ) : null}
                           {shifts.length === 0 ? null : (
                             <View style={styles.shiftStack}>
                               {shifts.map((shift) => (
@@ -230,10 +465,57 @@ export default function EmployeeScheduleScreen() {
                 </View>
               </ScrollView>
             </View>
-            {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+            {incomingOffers.length > 0 && (
+              <Section title={t('shiftOffers')}>
+                {incomingOffers.map((swap) => (
+                  <View key={swap._id} style={styles.offerRow}>
+                    <ThemedText type="defaultSemiBold">
+                      {t('swapOfferFrom').replace(
+                        '{name}',
+                        swap.fromEmployee?.displayName ??
+                          swap.fromEmployee?.username ??
+                          t('employeeFallback'),
+                      )}
+                    </ThemedText>
+                    <ThemedText>{swapShiftLabel(swap.schedule)}</ThemedText>
+                    {swap.note ? <ThemedText style={styles.offerHint}>{swap.note}</ThemedText> : null}
+                    <ThemedText style={styles.offerHint}>{t('swapGiveBackHint')}</ThemedText>
+                    <View style={styles.pillRow}>
+                      <OptionPill
+                        label={t('swapCoverOnly')}
+                        selected={!returnShiftIds[swap._id]}
+                        onPress={() => setReturnShiftIds((prev) => ({ ...prev, [swap._id]: null }))}
+                      />
+                      {returnCandidates.map((shift) => (
+                        <OptionPill
+                          key={shift._id}
+                          label={swapShiftLabel(shift)}
+                          selected={returnShiftIds[swap._id] === shift._id}
+                          onPress={() =>
+                            setReturnShiftIds((prev) => ({ ...prev, [swap._id]: shift._id }))
+                          }
+                        />
+                      ))}
+                    </View>
+                    <PrimaryButton
+                      label={t('swapAccept')}
+                      disabled={swapBusy}
+                      onPress={() => handleAcceptSwap(swap)}
+                    />
+                  </View>
+                ))}
+              </Section>
+            )}
+            {visibleError && <ThemedText style={styles.error}>{visibleError}</ThemedText>}
           </View>
         }
         renderItem={({ item }) => {
+          const queued = entriesByTarget.get(item._id) ?? [];
+          const checkInQueued = queued.some((entry) => entry.kind === 'workSchedule.checkIn');
+          const checkOutQueued = queued.some((entry) => entry.kind === 'workSchedule.checkOut');
+          const breakQueued = queued.some((entry) => BREAK_KINDS.includes(entry.kind));
+          const openBreak = getOpenBreak(item);
+          const onShift = Boolean(item.checkInAt) && !item.checkOutAt && !checkOutQueued;
           const statusLabel = item.checkOutAt
             ? t('checkOut')
             : item.checkInAt
@@ -244,6 +526,8 @@ export default function EmployeeScheduleScreen() {
             : item.checkInAt
             ? Palette.accentOrange
             : Palette.accentBlue;
+          const activeSwap = activeSwapBySchedule.get(item._id);
+          const canOffer = !item.checkInAt && new Date(item.startAt) > new Date();
           return (
             <Card>
               <View style={styles.cardHeaderRow}>
@@ -257,16 +541,23 @@ export default function EmployeeScheduleScreen() {
                       {statusLabel}
                     </ThemedText>
                   </View>
+                  {queued.map((entry) => (
+                    <SyncBadge
+                      key={entry.id}
+                      status={entry.status}
+                      onDiscard={() => discard(entry.id)}
+                    />
+                  ))}
                 </View>
                 <View style={styles.actionsRow}>
-                  {!item.checkInAt && (
+                  {!item.checkInAt && !checkInQueued && (
                     <ActionButton
                       label={t('checkIn')}
                       color={Palette.accentBlue}
                       onPress={() => checkIn(item._id)}
                     />
                   )}
-                  {item.checkInAt && !item.checkOutAt && (
+                  {(item.checkInAt || checkInQueued) && !item.checkOutAt && !checkOutQueued && (
                     <ActionButton
                       label={t('checkOut')}
                       color={Palette.accentGreen}
@@ -291,7 +582,104 @@ export default function EmployeeScheduleScreen() {
                   value={item.checkOutAt ? new Date(item.checkOutAt).toLocaleString() : t('notCheckedOut')}
                   color={Palette.accentGreen}
                 />
+                <InfoPill
+                  label={t('workedHours')}
+                  value={
+                    item.checkOutAt
+                      ? t('hoursValue').replace('{n}', String(Number(getWorkedHours(item).toFixed(2))))
+                      : t('notAvailable')
+                  }
+                  color={Palette.accentTeal}
+                />
               </View>
+              {onShift && !breakQueued && (
+                <View style={styles.breakActions}>
+                  {openBreak ? (
+                    <>
+                      <ThemedText style={styles.offerHint}>
+                        {t('onBreakSince')
+                          .replace('{type}', t(BREAK_TYPE_LABEL_KEYS[openBreak.type]))
+                          .replace('{time}', formatTime24(new Date(openBreak.startAt), locale))}
+                      </ThemedText>
+                      <PrimaryButton label={t('endBreak')} onPress={() => endBreak(item._id)} />
+                    </>
+                  ) : (
+                    (['paid', 'unpaid'] as BreakType[]).map((type) => (
+                      <View key={type} style={styles.breakButton}>
+                        <PrimaryButton
+                          label={t(type === 'paid' ? 'startPaidBreak' : 'startUnpaidBreak')}
+                          variant="secondary"
+                          onPress={() => startBreak(item._id, type)}
+                        />
+                      </View>
+                    ))
+                  )}
+                </View>
+              )}
+              {item.breaks?.map((entry) => {
+                const over = isBreakOverPolicy(entry, salonHours);
+                const range = entry.endAt
+                  ? `${formatTime24(new Date(entry.startAt), locale)} - ${formatTime24(new Date(entry.endAt), locale)}`
+                  : formatTime24(new Date(entry.startAt), locale);
+                const minutes = t('minutesValue').replace('{n}', String(getBreakMinutes(entry)));
+                return (
+                  <ThemedText key={entry._id} style={[styles.offerHint, over && styles.breakOver]}>
+                    {`${t(BREAK_TYPE_LABEL_KEYS[entry.type])}: ${range} (${minutes})`}
+                    {over ? ` · ${t('breakOverLimit')}` : ''}
+                  </ThemedText>
+                );
+              })}
+              {activeSwap ? (
+                <View style={styles.offerRow}>
+                  <ThemedText style={styles.offerHint}>
+                    {activeSwap.status === 'accepted'
+                      ? t('swapAcceptedBy').replace(
+                          '{name}',
+                          activeSwap.acceptedBy?.displayName ??
+                            activeSwap.acceptedBy?.username ??
+                            t('employeeFallback'),
+                        )
+                      : t(SHIFT_SWAP_STATUS_LABEL_KEYS[activeSwap.status])}
+                  </ThemedText>
+                  <PrimaryButton
+                    label={t('swapWithdraw')}
+                    variant="secondary"
+                    onPress={() => handleCancelSwap(activeSwap)}
+                  />
+                </View>
+              ) : canOffer ? (
+                <PrimaryButton
+                  label={offeringId === item._id ? t('close') : t('offerShift')}
+                  variant="secondary"
+                  onPress={() => openOfferForm(item._id)}
+                />
+              ) : null}
+              {offeringId === item._id && !activeSwap && (
+                <View style={styles.offerRow}>
+                  <ThemedText style={styles.offerHint}>{t('offerShiftHint')}</ThemedText>
+                  <View style={styles.pillRow}>
+                    <OptionPill
+                      label={t('swapOfferedToEveryone')}
+                      selected={offerTargets.length === 0}
+                      onPress={() => setOfferTargets([])}
+                    />
+                    {colleagues.map((colleague) => (
+                      <OptionPill
+                        key={colleague._id}
+                        label={colleague.displayName ?? colleague.username ?? t('employeeFallback')}
+                        selected={offerTargets.includes(colleague._id)}
+                        onPress={() => toggleOfferTarget(colleague._id)}
+                      />
+                    ))}
+                  </View>
+                  <FormInput label={t('note')} value={offerNote} onChangeText={setOfferNote} />
+                  <PrimaryButton
+                    label={swapBusy ? t('saving') : t('sendOffer')}
+                    disabled={swapBusy}
+                    onPress={() => handleOffer(item._id)}
+                  />
+                </View>
+              )}
             </Card>
           );
         }}
@@ -430,6 +818,37 @@ const styles = StyleSheet.create({
     backgroundColor: '#fff',
     width: DAY_COL_WIDTH,
   },
+  leaveCell: {
+    backgroundColor: '#e5e7eb',
+  },
+  leaveText: {
+    fontSize: 10,
+    color: Palette.mutedText,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  offerRow: {
+    gap: 8,
+  },
+  breakActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  breakButton: {
+    flex: 1,
+  },
+  breakOver: {
+    color: Palette.danger,
+  },
+  offerHint: {
+    fontSize: 12,
+    color: Palette.mutedText,
+  },
   shiftStack: {
     gap: 6,
   },
@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, FlatList, StyleSheet, View } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/context/auth-context';
+import { useI18n } from '@/context/i18n-context';
+import { Card } from '@/components/ui/card';
+import { FormInput } from '@/components/ui/form-input';
+import { OptionPill } from '@/components/ui/option-pill';
+import { PrimaryButton } from '@/components/ui/primary-button';
+import { Section } from '@/components/ui/section';
+import { Palette } from '@/constants/theme';
+import { isValidClock, parseClock } from '@/constants/salon-hours';
+import type { TimeOffRequest } from '@/lib/domain';
+import { timeOffApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
+import {
+  parseDateKey,
+  TIME_OFF_STATUS_COLORS,
+  TIME_OFF_STATUS_LABEL_KEYS,
+} from '@/lib/time-off';
+
+const todayKey = () => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+export default function EmployeeTimeOffScreen() {
+  const { token } = useAuth();
+  const { t, locale } = useI18n();
+  const [requests, setRequests] = useState<TimeOffRequest[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState(todayKey());
+  const [endDate, setEndDate] = useState(todayKey());
+  const [partialDay, setPartialDay] = useState(false);
+  const [partialStart, setPartialStart] = useState('09:00');
+  const [partialEnd, setPartialEnd] = useState('13:00');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const load = async () => {
+    try {
+      const data = await timeOffApi.mine(token);
+      setRequests([...data].sort((a, b) => b.startDate.localeCompare(a.startDate)));
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [token]);
+
+  const handleSubmit = async () => {
+    const first = parseDateKey(startDate.trim());
+    const last = parseDateKey(endDate.trim());
+    if (!first || !last) {
+      setError(t('errorInvalidDate'));
+      return;
+    }
+    if (last < first) {
+      setError(t('errorCopyRangeOrder'));
+      return;
+    }
+    const now = new Date();
+    if (first < new Date(now.getFullYear(), now.getMonth(), now.getDate())) {
+      setError(t('errorTimeOffPast'));
+      return;
+    }
+    if (partialDay) {
+      if (!isValidClock(partialStart.trim()) || !isValidClock(partialEnd.trim())) {
+        setError(t('errorInvalidClock'));
+        return;
+      }
+      if (parseClock(partialStart.trim()) >= parseClock(partialEnd.trim())) {
+        setError(t('errorScheduleEndBeforeStart'));
+        return;
+      }
+    }
+    setError(null);
+    setLoading(true);
+    try {
+      await timeOffApi.create(
+        {
+          startDate: startDate.trim(),
+          endDate: endDate.trim(),
+          partialHours: partialDay
+            ? { start: partialStart.trim(), end: partialEnd.trim() }
+            : undefined,
+          reason: reason.trim() || undefined,
+        },
+        token,
+      );
+      setReason('');
+      setPartialDay(false);
+      await load();
+      Alert.alert(t('successTitle'), t('timeOffSubmitted'));
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdraw = (request: TimeOffRequest) => {
+    Alert.alert(t('timeOffTitle'), t('timeOffWithdrawConfirm'), [
+      { text: t('close'), style: 'cancel' },
+      {
+        text: t('timeOffWithdraw'),
+        style: 'destructive',
+        onPress: async () => {
+          setError(null);
+          try {
+            await timeOffApi.withdraw(request._id, token);
+            await load();
+          } catch (err) {
+            setError(getErrorMessage(err, t));
+          }
+        },
+      },
+    ]);
+  };
+
+  const formatDate = (value: string) =>
+    parseDateKey(value)?.toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US') ?? value;
+
+  return (
+    <ThemedView style={styles.container} lightColor={Palette.background}>
+      <FlatList
+        data={requests}
+        keyExtractor={(item) => item._id}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText type="title">{t('timeOffTitle')}</ThemedText>
+            <Section title={t('requestTimeOff')}>
+              <FormInput
+                label={t('timeOffFrom')}
+                placeholder="YYYY-MM-DD"
+                value={startDate}
+                onChangeText={setStartDate}
+              />
+              <FormInput
+                label={t('timeOffUntil')}
+                placeholder="YYYY-MM-DD"
+                value={endDate}
+                onChangeText={setEndDate}
+              />
+              <View style={styles.pillRow}>
+                <OptionPill
+                  label={t('timeOffFullDay')}
+                  selected={!partialDay}
+                  onPress={() => setPartialDay(false)}
+                />
+                <OptionPill
+                  label={t('timeOffPartialDay')}
+                  selected={partialDay}
+                  onPress={() => setPartialDay(true)}
+                />
+              </View>
+              {partialDay && (
+                <View style={styles.clockRow}>
+                  <View style={styles.clockInput}>
+                    <FormInput
+                      label={t('startAt')}
+                      placeholder="HH:mm"
+                      value={partialStart}
+                      onChangeText={setPartialStart}
+                    />
+                  </View>
+                  <View style={styles.clockInput}>
+                    <FormInput
+                      label={t('endAt')}
+                      placeholder="HH:mm"
+                      value={partialEnd}
+                      onChangeText={setPartialEnd}
+                    />
+                  </View>
+                </View>
+              )}
+              <FormInput
+                label={t('timeOffReason')}
+                value={reason}
+                onChangeText={setReason}
+                multiline
+              />
+              <PrimaryButton
+                label={loading ? t('saving') : t('submitTimeOff')}
+                disabled={loading}
+                onPress={handleSubmit}
+              />
+            </Section>
+            {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+            <ThemedText type="subtitle">{t('myTimeOff')}</ThemedText>
+          </View>
+        }
+        ListEmptyComponent={<ThemedText style={styles.helperText}>{t('noTimeOff')}</ThemedText>}
+        renderItem={({ item }) => (
+          <Card>
+            <View style={styles.cardHeader}>
+              <ThemedText type="defaultSemiBold">
+                {item.startDate === item.endDate
+                  ? formatDate(item.startDate)
+                  : `${formatDate(item.startDate)} - ${formatDate(item.endDate)}`}
+              </ThemedText>
+              <View
+                style={[styles.statusBadge, { backgroundColor: `${TIME_OFF_STATUS_COLORS[item.status]}22` }]}
+              >
+                <ThemedText style={[styles.statusText, { color: TIME_OFF_STATUS_COLORS[item.status] }]}>
+                  {t(TIME_OFF_STATUS_LABEL_KEYS[item.status])}
+                </ThemedText>
+              </View>
+            </View>
+            <ThemedText style={styles.helperText}>
+              {item.partialHours
+                ? `${item.partialHours.start} - ${item.partialHours.end}`
+                : t('timeOffFullDay')}
+            </ThemedText>
+            {item.reason ? <ThemedText>{item.reason}</ThemedText> : null}
+            {item.status === 'pending' && (
+              <PrimaryButton
+                label={t('timeOffWithdraw')}
+                variant="secondary"
+                onPress={() => handleWithdraw(item)}
+              />
+            )}
+          </Card>
+        )}
+        contentContainerStyle={styles.content}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  header: {
+    gap: 12,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  clockRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  clockInput: {
+    flex: 1,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  statusBadge: {
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+  error: {
+    color: '#c00',
+  },
+});
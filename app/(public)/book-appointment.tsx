@@ -1,41 +1,49 @@
 import { router, Stack } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Alert, Pressable, ScrollView, StyleSheet, View } from 'react-native';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import { DateTimeInput } from '@/components/ui/date-time-input';
 import { FormInput } from '@/components/ui/form-input';
+import { IconButton } from '@/components/ui/icon-button';
 import { PrimaryButton } from '@/components/ui/primary-button';
 import { SearchSelect } from '@/components/ui/search-select';
+import { SlotPicker } from '@/components/ui/slot-picker';
 import { useI18n } from '@/context/i18n-context';
-import { apiPublicGet, apiPublicPost } from '@/lib/api';
+import { useSalonHours } from '@/context/salon-hours-context';
 import { Palette } from '@/constants/theme';
-import { isWithinSalonHoursForAppointment } from '@/constants/salon-hours';
-
-type ServiceItem = {
-  _id: string;
-  name?: string;
-  nameEn?: string;
-  price?: number;
-};
-
-type EmployeeItem = {
-  _id: string;
-  displayName?: string;
-  username?: string;
-};
+import { getAppointmentHoursError } from '@/constants/salon-hours';
+import { usePublicAvailability } from '@/hooks/use-public-availability';
+import {
+  getServiceMinutes,
+  getTotalMinutes,
+  getTotalPrice,
+  getVisitBuffers,
+} from '@/lib/appointment-services';
+import type { PublicEmployee, ServiceItem } from '@/lib/domain';
+import { appointmentsApi, servicesApi, usersApi } from '@/lib/resources';
+import { canPerform } from '@/lib/skills';
+import { ApiError } from '@/lib/api';
+import { getErrorMessage } from '@/lib/api-errors';
 
 export default function PublicBookAppointmentScreen() {
   const { t, locale } = useI18n();
+  const { hours: salonHours } = useSalonHours();
   const [services, setServices] = useState<ServiceItem[]>([]);
-  const [employees, setEmployees] = useState<EmployeeItem[]>([]);
+  const [employees, setEmployees] = useState<PublicEmployee[]>([]);
   const [name, setName] = useState('');
   const [phone, setPhone] = useState('');
-  const [selectedServiceId, setSelectedServiceId] = useState<string | null>(null);
+  const [selectedServiceIds, setSelectedServiceIds] = useState<string[]>([]);
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string | null>(null);
-  const [scheduledAt, setScheduledAt] = useState(new Date().toISOString());
+  const [scheduledAt, setScheduledAt] = useState<string | null>(null);
+  const {
+    availability,
+    loading: availabilityLoading,
+    error: availabilityError,
+    reload: reloadAvailability,
+  } = usePublicAvailability();
   const [note, setNote] = useState('');
+  const [bookedReference, setBookedReference] = useState<string | null>(null);
   const [resetSeed, setResetSeed] = useState(0);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -44,21 +52,51 @@ export default function PublicBookAppointmentScreen() {
     const load = async () => {
       try {
         const [serviceData, employeeData] = await Promise.all([
-          apiPublicGet<ServiceItem[]>('/services/public'),
-          apiPublicGet<EmployeeItem[]>('/users/public/employees'),
+          servicesApi.listPublic(),
+          usersApi.listPublicEmployees(),
         ]);
         setServices(serviceData);
         setEmployees(employeeData);
       } catch (err) {
-        setError((err as Error).message);
+        setError(getErrorMessage(err, t));
       }
     };
     load();
-  }, []);
+  }, [t]);
+
+  const selectedLines = selectedServiceIds.map((id) => ({
+    service: services.find((item) => item._id === id),
+  }));
+
+  // One technician does the whole public booking, so they must cover every service.
+  const eligibleEmployees = useMemo(
+    () => employees.filter((employee) => canPerform(employee, selectedServiceIds)),
+    [employees, selectedServiceIds],
+  );
+
+  const eligibleEmployeeIds = useMemo(
+    () =>
+      eligibleEmployees.length === employees.length
+        ? null
+        : eligibleEmployees.map((employee) => employee._id),
+    [eligibleEmployees, employees.length],
+  );
+
+  const addService = (id: string) => {
+    setSelectedServiceIds((prev) => (prev.includes(id) ? prev : [...prev, id]));
+    const employee = employees.find((item) => item._id === selectedEmployeeId);
+    if (employee && !canPerform(employee, [id])) setSelectedEmployeeId(null);
+    setScheduledAt(null);
+  };
+
+  const removeService = (id: string) => {
+    setSelectedServiceIds((prev) => prev.filter((item) => item !== id));
+    setScheduledAt(null);
+  };
 
   const handleSubmit = async () => {
     setError(null);
-    if (!name.trim() || !phone.trim() || !selectedServiceId || !scheduledAt) {
+    if (!name.trim() || !phone.trim() || !selectedServiceIds.length || !scheduledAt) {
       setError(t('errorPublicBookingRequired'));
       return;
     }
@@ -66,30 +104,45 @@ export default function PublicBookAppointmentScreen() {
       setError(t('errorAppointmentPast'));
       return;
     }
-    if (!isWithinSalonHoursForAppointment(new Date(scheduledAt))) {
-      setError(t('errorAppointmentOutsideHours'));
+    const hoursError = getAppointmentHoursError(new Date(scheduledAt), salonHours, t);
+    if (hoursError) {
+      setError(hoursError);
       return;
     }
+    const totalPrice = getTotalPrice(selectedLines);
     setLoading(true);
     try {
-      await apiPublicPost('/appointments/public', {
+      const created = await appointmentsApi.createPublic({
         name: name.trim(),
         phone: phone.trim(),
-        serviceId: selectedServiceId,
-        assignedEmployeeId: selectedEmployeeId ?? undefined,
+        services: selectedServiceIds.map((serviceId) => ({
+          serviceId,
+          assignedEmployeeId: selectedEmployeeId ?? undefined,
+        })),
         scheduledAt,
         note: note.trim() || undefined,
       });
-      Alert.alert(t('successTitle'), t('bookAppointmentSuccess'));
+      setBookedReference(created.reference ?? null);
+      const summary = `${t('bookAppointmentSuccess')}\n${t('totalPrice')}: ${formatMoney(totalPrice)}`;
+      Alert.alert(
+        t('successTitle'),
+        created.reference ? `${summary}\n${t('bookingReference')}: ${created.reference}` : summary,
+      );
       setName('');
       setPhone('');
-      setSelectedServiceId(null);
+      setSelectedServiceIds([]);
       setSelectedEmployeeId(null);
-      setScheduledAt(new Date().toISOString());
+      setScheduledAt(null);
       setNote('');
       setResetSeed((prev) => prev + 1);
+      await reloadAvailability();
     } catch (err) {
-      setError((err as Error).message);
+      setError(getErrorMessage(err, t));
+      if (err instanceof ApiError && err.code === 'APPOINTMENT_CONFLICT') {
+        // Someone took the slot meanwhile; show what is still open.
+        setScheduledAt(null);
+        await reloadAvailability();
+      }
     } finally {
       setLoading(false);
     }
@@ -137,32 +190,74 @@ export default function PublicBookAppointmentScreen() {
             key={`service-${resetSeed}`}
             title={t('selectService')}
             placeholder={t('searchServicesPlaceholder')}
-            items={services.map((service) => ({
-              id: service._id,
-              label: locale === 'en' && service.nameEn ? service.nameEn : service.name ?? '',
-              subtitle: service.price ? `${t('price')}: ${formatMoney(service.price)}` : undefined,
-            }))}
-            selectedId={selectedServiceId}
-            onSelect={(item) => setSelectedServiceId(item.id)}
-            onClear={() => setSelectedServiceId(null)}
+            items={services
+              .filter((service) => !selectedServiceIds.includes(service._id))
+              .map((service) => ({
+                id: service._id,
+                label: locale === 'en' && service.nameEn ? service.nameEn : service.name ?? '',
+                subtitle: service.price ? `${t('price')}: ${formatMoney(service.price)}` : undefined,
+              }))}
+            selectedId={null}
+            onSelect={(item) => addService(item.id)}
           />
+          {selectedLines.length > 0 && (
+            <View style={styles.selectedServices}>
+              <ThemedText type="defaultSemiBold">{t('selectedServices')}</ThemedText>
+              {selectedLines.map(({ service }, index) => (
+                <View key={selectedServiceIds[index]} style={styles.selectedServiceRow}>
+                  <View style={styles.selectedServiceText}>
+                    <ThemedText numberOfLines={1}>
+                      {index + 1}.{' '}
+                      {(locale === 'en' && service?.nameEn ? service.nameEn : service?.name) ??
+                        t('serviceFallback')}
+                    </ThemedText>
+                    <ThemedText style={styles.helperText}>
+                      {t('minutesValue').replace('{n}', String(getServiceMinutes(service)))}
+                      {service?.price ? ` · ${formatMoney(service.price)}` : ''}
+                    </ThemedText>
+                  </View>
+                  <IconButton
+                    icon="close"
+                    variant="danger"
+                    onPress={() => removeService(selectedServiceIds[index])}
+                  />
+                </View>
+              ))}
+              <ThemedText style={styles.summaryText}>
+                {t('totalDuration')}:{' '}
+                {t('minutesValue').replace('{n}', String(getTotalMinutes(selectedLines)))}
+                {'  ·  '}
+                {t('totalPrice')}: {formatMoney(getTotalPrice(selectedLines))}
+              </ThemedText>
+            </View>
+          )}
           <SearchSelect
             key={`employee-${resetSeed}`}
             title={`${t('selectEmployee')} (${t('optional')})`}
             placeholder={t('searchEmployeesPlaceholder')}
-            items={employees.map((employee) => ({
+            items={eligibleEmployees.map((employee) => ({
               id: employee._id,
               label: employee.displayName ?? employee.username ?? t('employeeFallback'),
             }))}
             selectedId={selectedEmployeeId}
-            onSelect={(item) => setSelectedEmployeeId(item.id)}
-            onClear={() => setSelectedEmployeeId(null)}
+            onSelect={(item) => {
+              setSelectedEmployeeId(item.id);
+              setScheduledAt(null);
+            }}
+            onClear={() => {
+              setSelectedEmployeeId(null);
+              setScheduledAt(null);
+            }}
           />
-          <DateTimeInput
-            label={t('time')}
+          <SlotPicker
+            durationMinutes={selectedLines.length ? getTotalMinutes(selectedLines) : null}
+            {...getVisitBuffers(selectedLines)}
+            employeeId={selectedEmployeeId}
+            eligibleEmployeeIds={eligibleEmployeeIds}
+            availability={availability}
+            loading={availabilityLoading}
             value={scheduledAt}
             onChange={setScheduledAt}
-            minimumDate={new Date()}
           />
           <FormInput
             label={t('note')}
@@ -171,11 +266,33 @@ export default function PublicBookAppointmentScreen() {
             placeholder={t('optional')}
           />
           {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+          {!error && availabilityError ? (
+            <ThemedText style={styles.error}>{getErrorMessage(availabilityError, t)}</ThemedText>
+          ) : null}
           <PrimaryButton
             label={loading ? t('saving') : t('bookAppointment')}
             onPress={handleSubmit}
           />
         </View>
+        {bookedReference && (
+          <View style={styles.referenceCard}>
+            <ThemedText style={styles.referenceLabel}>{t('bookingReference')}</ThemedText>
+            <ThemedText type="title" selectable>
+              {bookedReference}
+            </ThemedText>
+            <ThemedText style={styles.helperText}>{t('bookingReferenceHint')}</ThemedText>
+            <PrimaryButton
+              label={t('manageBooking')}
+              variant="secondary"
+              onPress={() =>
+                router.push({
+                  pathname: '/(public)/manage-booking',
+                  params: { reference: bookedReference },
+                })
+              }
+            />
+          </View>
+        )}
       </ScrollView>
     </ThemedView>
   );
@@ -225,6 +342,38 @@ const styles = StyleSheet.create({
   heroSubtitle: {
     color: '#f6effb',
   },
+  referenceCard: {
+    gap: 8,
+    padding: 18,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: `${Palette.accentGreen}66`,
+    backgroundColor: `${Palette.accentGreen}14`,
+  },
+  referenceLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Palette.mutedText,
+  },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+  selectedServices: {
+    gap: 8,
+  },
+  selectedServiceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  selectedServiceText: {
+    flex: 1,
+  },
+  summaryText: {
+    fontWeight: '600',
+    color: Palette.navy,
+  },
   formCard: {
     gap: 12,
     backgroundColor: '#fffafc',
@@ -63,6 +63,11 @@ export default function PublicIndex() {
           label={t('bookAppointment')}
           onPress={() => router.push('/(public)/book-appointment')}
         />
+        <PrimaryButton
+          label={t('manageBooking')}
+          variant="secondary"
+          onPress={() => router.push('/(public)/manage-booking')}
+        />
       </View>
 
       <View style={styles.card}>
@@ -0,0 +1,330 @@
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { FormInput } from '@/components/ui/form-input';
+import { PrimaryButton } from '@/components/ui/primary-button';
+import { SlotPicker } from '@/components/ui/slot-picker';
+import { useI18n } from '@/context/i18n-context';
+import { useSalonHours } from '@/context/salon-hours-context';
+import { Palette } from '@/constants/theme';
+import { getAppointmentHoursError, isBeforeChangeCutoff } from '@/constants/salon-hours';
+import { usePublicAvailability } from '@/hooks/use-public-availability';
+import { getStatusLabel } from '@/lib/appointment-status';
+import {
+  formatServiceNames,
+  getServiceLines,
+  getServiceSegments,
+  getTotalMinutes,
+  getVisitBuffers,
+} from '@/lib/appointment-services';
+import type { PublicBooking } from '@/lib/domain';
+import { appointmentsApi } from '@/lib/resources';
+import { getErrorMessage } from '@/lib/api-errors';
+
+/** Bookings a customer may still move or cancel online. */
+const ACTIVE_STATUSES = ['scheduled', 'confirmed', 'assigned'];
+
+export default function ManageBookingScreen() {
+  const { t, locale } = useI18n();
+  const { hours: salonHours } = useSalonHours();
+  const params = useLocalSearchParams<{ reference?: string }>();
+  const { availability, loading: availabilityLoading, reload: reloadAvailability } =
+    usePublicAvailability();
+  const [reference, setReference] = useState(params.reference ?? '');
+  const [phone, setPhone] = useState('');
+  const [booking, setBooking] = useState<PublicBooking | null>(null);
+  const [rescheduling, setRescheduling] = useState(false);
+  const [newScheduledAt, setNewScheduledAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lookup = () => ({ reference: reference.trim().toUpperCase(), phone: phone.trim() });
+
+  const handleFind = async () => {
+    setError(null);
+    if (!reference.trim() || !phone.trim()) {
+      setError(t('errorBookingLookupRequired'));
+      return;
+    }
+    setLoading(true);
+    try {
+      setBooking(await appointmentsApi.lookupPublic(lookup()));
+      setRescheduling(false);
+      setNewScheduledAt(null);
+    } catch (err) {
+      setBooking(null);
+      setError(getErrorMessage(err, t));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const bookingLines = useMemo(() => (booking ? getServiceLines(booking) : []), [booking]);
+
+  // The booking's own time must not block the slots it could move to.
+  const availabilityExcludingBooking = useMemo(() => {
+    if (!availability || !booking) return availability;
+    const ownStarts = getServiceSegments(booking.scheduledAt, bookingLines).map((segment) => ({
+      employeeId: segment.employeeId,
+      start: segment.start.getTime(),
+    }));
+    return {
+      ...availability,
+      busy: availability.busy.filter(
+        (block) =>
+          !ownStarts.some(
+            (own) =>
+              own.employeeId === block.employeeId && own.start === new Date(block.startAt).getTime(),
+          ),
+      ),
+    };
+  }, [availability, booking, bookingLines]);
+
+  const handleReschedule = async () => {
+    if (!booking || !newScheduledAt) return;
+    setError(null);
+    const hoursError = getAppointmentHoursError(new Date(newScheduledAt), salonHours, t);
+    if (hoursError) {
+      setError(hoursError);
+      return;
+    }
+    setLoading(true);
+    try {
+      const updated = await appointmentsApi.reschedulePublic({
+        ...lookup(),
+        scheduledAt: newScheduledAt,
+      });
+      setBooking(updated);
+      setRescheduling(false);
+      setNewScheduledAt(null);
+      Alert.alert(t('successTitle'), t('bookingRescheduled'));
+      await reloadAvailability();
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    Alert.alert(t('cancelBooking'), t('cancelBookingConfirm'), [
+      { text: t('close'), style: 'cancel' },
+      {
+        text: t('cancelBooking'),
+        style: 'destructive',
+        onPress: async () => {
+          setError(null);
+          setLoading(true);
+          try {
+            setBooking(await appointmentsApi.cancelPublic(lookup()));
+            setRescheduling(false);
+            Alert.alert(t('successTitle'), t('bookingCancelled'));
+          } catch (err) {
+            setError(getErrorMessage(err, t));
+          } finally {
+            setLoading(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const isActive = booking ? ACTIVE_STATUSES.includes(booking.status) : false;
+  const canChange =
+    booking && isActive ? isBeforeChangeCutoff(new Date(booking.scheduledAt), salonHours) : false;
+
+  return (
+    <ThemedView style={styles.container} lightColor={Palette.background}>
+      <Stack.Screen options={{ title: t('manageBooking') }} />
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.topRow}>
+          <Pressable style={styles.backButton} onPress={() => router.back()}>
+            <Ionicons name="arrow-back" size={18} color="#ffffff" />
+            <ThemedText style={styles.backText} lightColor="#ffffff">
+              {t('back')}
+            </ThemedText>
+          </Pressable>
+        </View>
+        <View style={styles.hero}>
+          <ThemedText type="title" lightColor="#ffffff">
+            {t('manageBooking')}
+          </ThemedText>
+          <ThemedText style={styles.heroSubtitle} lightColor="#f6effb">
+            {t('manageBookingSubtitle')}
+          </ThemedText>
+        </View>
+
+        <View style={styles.formCard}>
+          <FormInput
+            label={t('bookingReference')}
+            value={reference}
+            onChangeText={setReference}
+            autoCapitalize="characters"
+          />
+          <FormInput
+            label={t('customerPhone')}
+            value={phone}
+            onChangeText={setPhone}
+            keyboardType="phone-pad"
+          />
+          <PrimaryButton
+            label={loading && !booking ? t('loading') : t('findBooking')}
+            onPress={handleFind}
+          />
+          {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+        </View>
+
+        {booking && (
+          <View style={styles.formCard}>
+            <ThemedText type="subtitle">{booking.reference}</ThemedText>
+            <ThemedText>
+              {t('customerName')}: {booking.customerName}
+            </ThemedText>
+            <ThemedText>
+              {t('serviceFallback')}: {formatServiceNames(bookingLines, locale, t('serviceFallback'))}
+            </ThemedText>
+            <ThemedText>
+              {t('time')}: {new Date(booking.scheduledAt).toLocaleString()}
+            </ThemedText>
+            <ThemedText>
+              {t('employee')}:{' '}
+              {booking.assignedEmployee?.displayName ??
+                booking.assignedEmployee?.username ??
+                t('notAvailable')}
+            </ThemedText>
+            <ThemedText>
+              {t('status')}: {getStatusLabel(booking.status, t)}
+            </ThemedText>
+            {isActive && !canChange && (
+              <ThemedText style={styles.notice}>
+                {t('bookingCutoffNotice').replace('{hours}', String(salonHours.changeCutoffHours))}
+              </ThemedText>
+            )}
+            {canChange && !rescheduling && (
+              <View style={styles.actionsRow}>
+                <PrimaryButton
+                  label={t('rescheduleBooking')}
+                  variant="secondary"
+                  onPress={() => setRescheduling(true)}
+                  style={styles.actionButton}
+                />
+                <PrimaryButton
+                  label={t('cancelBooking')}
+                  variant="danger"
+                  onPress={handleCancel}
+                  style={styles.actionButton}
+                />
+              </View>
+            )}
+            {canChange && rescheduling && (
+              <>
+                <SlotPicker
+                  durationMinutes={getTotalMinutes(bookingLines)}
+                  {...getVisitBuffers(bookingLines)}
+                  employeeId={booking.assignedEmployee?._id}
+                  availability={availabilityExcludingBooking}
+                  loading={availabilityLoading}
+                  value={newScheduledAt}
+                  onChange={setNewScheduledAt}
+                />
+                <View style={styles.actionsRow}>
+                  <PrimaryButton
+                    label={t('close')}
+                    variant="secondary"
+                    onPress={() => {
+                      setRescheduling(false);
+                      setNewScheduledAt(null);
+                    }}
+                    style={styles.actionButton}
+                  />
+                  <PrimaryButton
+                    label={loading ? t('saving') : t('confirmReschedule')}
+                    onPress={handleReschedule}
+                    disabled={!newScheduledAt || loading}
+                    style={styles.actionButton}
+                  />
+                </View>
+              </>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  topRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-start',
+    marginTop: 24,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 999,
+    backgroundColor: Palette.accentPurple,
+    shadowColor: Palette.navyDark,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.14,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  backText: {
+    fontWeight: '700',
+  },
+  hero: {
+    gap: 6,
+    padding: 18,
+    borderRadius: 24,
+    backgroundColor: Palette.accentTeal,
+    shadowColor: Palette.navyDark,
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.16,
+    shadowRadius: 12,
+    elevation: 4,
+  },
+  heroSubtitle: {
+    color: '#f6effb',
+  },
+  formCard: {
+    gap: 12,
+    backgroundColor: '#fffafc',
+    borderRadius: 18,
+    padding: 18,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    shadowColor: Palette.navyDark,
+    shadowOffset: { width: 0, height: 6 },
+    shadowOpacity: 0.08,
+    shadowRadius: 10,
+    elevation: 3,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  notice: {
+    color: Palette.accentOrange,
+    fontWeight: '600',
+  },
+  error: {
+    color: '#c00',
+  },
+});
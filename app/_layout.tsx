@@ -5,6 +5,8 @@ import 'react-native-reanimated';
 
 import { AuthProvider } from '@/context/auth-context';
 import { I18nProvider } from '@/context/i18n-context';
+import { OutboxProvider } from '@/context/outbox-context';
+import { SalonHoursProvider } from '@/context/salon-hours-context';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
 function RootStack() {
@@ -28,7 +30,11 @@ export default function RootLayout() {
   return (
     <I18nProvider>
       <AuthProvider>
-        <RootStack />
+        <SalonHoursProvider>
+          <OutboxProvider>
+            <RootStack />
+          </OutboxProvider>
+        </SalonHoursProvider>
       </AuthProvider>
     </I18nProvider>
   );
@@ -1,6 +1,7 @@
 import { Redirect } from 'expo-router';
 import React from 'react';
 import { useAuth } from '@/context/auth-context';
+import { homeRouteForRole } from '@/lib/route-access';
 
 export default function Index() {
   const { user, loading } = useAuth();
@@ -13,9 +14,5 @@ export default function Index() {
     return <Redirect href="/(public)" />;
   }
 
-  if (user.role === 'admin') {
-    return <Redirect href="/(admin)" />;
-  }
-
-  return <Redirect href="/(employee)" />;
+  return <Redirect href={homeRouteForRole(user.role)} />;
 }
@@ -0,0 +1,17 @@
+import React from 'react';
+import { useCan } from '@/hooks/use-can';
+import type { Capability } from '@/lib/domain';
+
+/** Renders `children` only when the signed-in user holds capability `I`. */
+export function Can({
+  I,
+  children,
+  fallback = null,
+}: {
+  I: Capability;
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}) {
+  const can = useCan();
+  return <>{can(I) ? children : fallback}</>;
+}
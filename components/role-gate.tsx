@@ -0,0 +1,41 @@
+import { Redirect, usePathname } from 'expo-router';
+import React from 'react';
+import { useAuth } from '@/context/auth-context';
+import {
+  canEnterGroup,
+  canOpenRoute,
+  groupPath,
+  homeRouteForRole,
+  type GuardedGroup,
+} from '@/lib/route-access';
+
+/**
+ * Renders a signed-in route group only for the roles allowed in it, and each
+ * screen only with its capability. Visitors without a session go to login
+ * carrying the requested path as `next`.
+ */
+export function RoleGate({ group, children }: { group: GuardedGroup; children: React.ReactNode }) {
+  const { user, loading, sessionEnd } = useAuth();
+  const pathname = usePathname();
+
+  if (loading) {
+    return null;
+  }
+
+  if (!user) {
+    if (sessionEnd === 'signed_out') {
+      return <Redirect href="/(public)" />;
+    }
+    const params: { next: string; reason?: string } = { next: groupPath(group, pathname) };
+    if (sessionEnd === 'expired') {
+      params.reason = 'expired';
+    }
+    return <Redirect href={{ pathname: '/(auth)/login', params }} />;
+  }
+
+  if (!canEnterGroup(user.role, group) || !canOpenRoute(user, groupPath(group, pathname))) {
+    return <Redirect href={homeRouteForRole(user.role)} />;
+  }
+
+  return <>{children}</>;
+}
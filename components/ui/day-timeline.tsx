@@ -0,0 +1,368 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { Hatch } from '@/components/ui/hatch';
+import { Palette } from '@/constants/theme';
+
+export type TimelineColumn = { id: string; label: string };
+
+export type TimelineBlock = {
+  id: string;
+  columnId: string;
+  start: Date;
+  end: Date;
+  title: string;
+  subtitle?: string;
+  color: string;
+  /** Prep and cleanup around the block, drawn hatched. */
+  bufferStart?: Date;
+  bufferEnd?: Date;
+};
+
+/** Time a column is unavailable, such as approved leave; drawn greyed out. */
+export type TimelineShade = { columnId: string; start: Date; end: Date };
+
+type Props = {
+  day: Date;
+  columns: TimelineColumn[];
+  blocks: TimelineBlock[];
+  shaded?: TimelineShade[];
+  /** Visible range in minutes since midnight; widened to fit blocks outside it. */
+  startMinute: number;
+  endMinute: number;
+  onPressBlock?: (blockId: string) => void;
+  /** Called with the tapped column and the time under the finger, snapped to the grid. */
+  onPressGap?: (columnId: string, start: Date) => void;
+};
+
+type PlacedBlock = TimelineBlock & { lane: number; lanes: number };
+
+const HOUR_HEIGHT = 64;
+const TIME_COL_WIDTH = 44;
+const COLUMN_WIDTH = 120;
+const SNAP_MINUTES = 15;
+
+const minutesOf = (value: Date) => value.getHours() * 60 + value.getMinutes();
+
+const outerStart = (block: TimelineBlock) => block.bufferStart ?? block.start;
+const outerEnd = (block: TimelineBlock) => block.bufferEnd ?? block.end;
+
+/**
+ * Overlapping blocks share the column width: each cluster of overlaps gets as
+ * many lanes as it needs at its busiest, and every block takes the first free lane.
+ * Buffers count, so hatched edges never sit under a neighbour.
+ */
+function placeBlocks(blocks: TimelineBlock[]): PlacedBlock[] {
+  const sorted = [...blocks].sort((a, b) => outerStart(a).getTime() - outerStart(b).getTime());
+  const placed: PlacedBlock[] = [];
+  let cluster: PlacedBlock[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = 0;
+
+  const closeCluster = () => {
+    cluster.forEach((block) => {
+      block.lanes = laneEnds.length;
+    });
+    cluster = [];
+    laneEnds = [];
+    clusterEnd = 0;
+  };
+
+  sorted.forEach((block) => {
+    const start = outerStart(block).getTime();
+    const end = outerEnd(block).getTime();
+    if (cluster.length > 0 && start >= clusterEnd) closeCluster();
+    let lane = laneEnds.findIndex((end) => end <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(0);
+    }
+    laneEnds[lane] = end;
+    clusterEnd = Math.max(clusterEnd, end);
+    const entry: PlacedBlock = { ...block, lane, lanes: 1 };
+    cluster.push(entry);
+    placed.push(entry);
+  });
+  closeCluster();
+  return placed;
+}
+
+/** Technicians as columns, time as rows; block height follows the booked duration. */
+export function DayTimeline({
+  day,
+  columns,
+  blocks,
+  shaded = [],
+  startMinute,
+  endMinute,
+  onPressBlock,
+  onPressGap,
+}: Props) {
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const range = useMemo(() => {
+    let first = startMinute;
+    let last = endMinute;
+    blocks.forEach((block) => {
+      first = Math.min(first, minutesOf(outerStart(block)));
+      last = Math.max(last, minutesOf(outerEnd(block)) || 24 * 60);
+    });
+    return { first: Math.floor(first / 60) * 60, last: Math.ceil(last / 60) * 60 };
+  }, [blocks, endMinute, startMinute]);
+
+  const placedByColumn = useMemo(() => {
+    const map = new Map<string, PlacedBlock[]>();
+    columns.forEach((column) => {
+      map.set(
+        column.id,
+        placeBlocks(blocks.filter((block) => block.columnId === column.id)),
+      );
+    });
+    return map;
+  }, [blocks, columns]);
+
+  const toOffset = (minute: number) => ((minute - range.first) / 60) * HOUR_HEIGHT;
+  const height = toOffset(range.last);
+  const hours = Array.from(
+    { length: (range.last - range.first) / 60 },
+    (_, index) => range.first / 60 + index,
+  );
+  const isToday = now.toDateString() === day.toDateString();
+  const nowMinute = minutesOf(now);
+  const showNow = isToday && nowMinute >= range.first && nowMinute <= range.last;
+
+  const handleGapPress = (columnId: string, locationY: number) => {
+    if (!onPressGap) return;
+    const minute = range.first + (locationY / HOUR_HEIGHT) * 60;
+    const snapped = Math.floor(minute / SNAP_MINUTES) * SNAP_MINUTES;
+    const start = new Date(day);
+    start.setHours(Math.floor(snapped / 60), snapped % 60, 0, 0);
+    onPressGap(columnId, start);
+  };
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View>
+        <View style={styles.headerRow}>
+          <View style={styles.timeColumn} />
+          {columns.map((column) => (
+            <View key={column.id} style={styles.columnHeader}>
+              <ThemedText style={styles.columnHeaderText} numberOfLines={1}>
+                {column.label}
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+        <View style={[styles.body, { height }]}>
+          <View style={styles.timeColumn}>
+            {hours.map((hour) => (
+              <ThemedText key={hour} style={[styles.hourLabel, { top: toOffset(hour * 60) }]}>
+                {`${String(hour).padStart(2, '0')}:00`}
+              </ThemedText>
+            ))}
+          </View>
+          {columns.map((column) => (
+            <Pressable
+              key={column.id}
+              style={styles.column}
+              disabled={!onPressGap}
+              onPress={(event) => handleGapPress(column.id, event.nativeEvent.locationY)}
+            >
+              {hours.map((hour) => (
+                <View
+                  key={hour}
+                  pointerEvents="none"
+                  style={[styles.hourLine, { top: toOffset(hour * 60) }]}
+                />
+              ))}
+              {shaded
+                .filter((shade) => shade.columnId === column.id)
+                .map((shade) => {
+                  const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+                  const dayEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+                  if (shade.end <= dayStart || shade.start >= dayEnd) return null;
+                  const start = shade.start > dayStart ? minutesOf(shade.start) : 0;
+                  const end = shade.end < dayEnd ? minutesOf(shade.end) : 24 * 60;
+                  const top = Math.max(toOffset(start), 0);
+                  const bottom = Math.min(toOffset(end), height);
+                  if (bottom <= top) return null;
+                  return (
+                    <View
+                      key={`shade-${shade.start.getTime()}`}
+                      pointerEvents="none"
+                      style={[styles.shade, { top, height: bottom - top }]}
+                    />
+                  );
+                })}
+              {(placedByColumn.get(column.id) ?? []).map((block) => {
+                const top = toOffset(minutesOf(block.start));
+                const bottom = toOffset(minutesOf(block.end) || 24 * 60);
+                const laneWidth = (COLUMN_WIDTH - 4) / block.lanes;
+                const left = 2 + block.lane * laneWidth;
+                const width = laneWidth - 2;
+                const prepTop = block.bufferStart ? toOffset(minutesOf(block.bufferStart)) : top;
+                const cleanupBottom = block.bufferEnd
+                  ? toOffset(minutesOf(block.bufferEnd) || 24 * 60)
+                  : bottom;
+                return (
+                  <React.Fragment key={`${block.id}-${block.start.getTime()}`}>
+                    {prepTop < top && (
+                      <Hatch
+                        color={block.color}
+                        style={[
+                          styles.buffer,
+                          styles.bufferTop,
+                          { top: prepTop, height: top - prepTop, left, width },
+                        ]}
+                      />
+                    )}
+                    {cleanupBottom > bottom && (
+                      <Hatch
+                        color={block.color}
+                        style={[
+                          styles.buffer,
+                          styles.bufferBottom,
+                          { top: bottom - 2, height: cleanupBottom - bottom, left, width },
+                        ]}
+                      />
+                    )}
+                    <Pressable
+                      onPress={() => onPressBlock?.(block.id)}
+                      style={[
+                        styles.block,
+                        {
+                          top,
+                          height: Math.max(bottom - top - 2, 14),
+                          left,
+                          width,
+                          borderLeftColor: block.color,
+                        },
+                      ]}
+                    >
+                      <ThemedText style={styles.blockTitle} numberOfLines={1}>
+                        {block.title}
+                      </ThemedText>
+                      {block.subtitle ? (
+                        <ThemedText style={styles.blockSubtitle} numberOfLines={2}>
+                          {block.subtitle}
+                        </ThemedText>
+                      ) : null}
+                    </Pressable>
+                  </React.Fragment>
+                );
+              })}
+            </Pressable>
+          ))}
+          {showNow && (
+            <View pointerEvents="none" style={[styles.nowLine, { top: toOffset(nowMinute) }]}>
+              <View style={styles.nowDot} />
+            </View>
+          )}
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: Palette.border,
+  },
+  columnHeader: {
+    width: COLUMN_WIDTH,
+    paddingVertical: 6,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+    borderLeftWidth: 1,
+    borderLeftColor: Palette.border,
+  },
+  columnHeaderText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: Palette.navy,
+  },
+  body: {
+    flexDirection: 'row',
+  },
+  timeColumn: {
+    width: TIME_COL_WIDTH,
+  },
+  hourLabel: {
+    position: 'absolute',
+    left: 2,
+    fontSize: 10,
+    lineHeight: 12,
+    color: Palette.mutedText,
+  },
+  column: {
+    width: COLUMN_WIDTH,
+    borderLeftWidth: 1,
+    borderLeftColor: Palette.border,
+  },
+  hourLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: Palette.border,
+  },
+  shade: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    backgroundColor: '#e5e7eb',
+  },
+  block: {
+    position: 'absolute',
+    padding: 4,
+    borderRadius: 6,
+    borderLeftWidth: 3,
+    backgroundColor: '#f6effb',
+    overflow: 'hidden',
+  },
+  buffer: {
+    position: 'absolute',
+  },
+  bufferTop: {
+    borderTopLeftRadius: 6,
+    borderTopRightRadius: 6,
+  },
+  bufferBottom: {
+    borderBottomLeftRadius: 6,
+    borderBottomRightRadius: 6,
+  },
+  blockTitle: {
+    fontSize: 11,
+    lineHeight: 14,
+    fontWeight: '700',
+    color: Palette.navy,
+  },
+  blockSubtitle: {
+    fontSize: 10,
+    lineHeight: 12,
+    color: Palette.mutedText,
+  },
+  nowLine: {
+    position: 'absolute',
+    left: TIME_COL_WIDTH - 4,
+    right: 0,
+    height: 2,
+    backgroundColor: Palette.danger,
+  },
+  nowDot: {
+    position: 'absolute',
+    left: 0,
+    top: -3,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: Palette.danger,
+  },
+});
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import {
+  Animated,
+  PanResponder,
+  StyleSheet,
+  View,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { Palette } from '@/constants/theme';
+
+export type DropPoint = { pageX: number; pageY: number };
+
+type DraggableProps = {
+  children: React.ReactNode;
+  style?: StyleProp<ViewStyle>;
+  disabled?: boolean;
+  onDragStart?: () => void;
+  /** Called with the release point in window coordinates. */
+  onDrop: (point: DropPoint) => void;
+  /** Called after every drag, dropped or not. */
+  onDragEnd?: () => void;
+};
+
+/**
+ * Wraps content with a drag handle in its corner. Dragging starts from the
+ * handle only, so taps, long presses and scrolling on the content still work.
+ */
+export function Draggable({
+  children,
+  style,
+  disabled,
+  onDragStart,
+  onDrop,
+  onDragEnd,
+}: DraggableProps) {
+  const offset = useRef(new Animated.ValueXY()).current;
+  const [dragging, setDragging] = useState(false);
+  // The responder is created once; keep the latest callbacks reachable from it.
+  const callbacks = useRef({ onDragStart, onDrop, onDragEnd });
+  callbacks.current = { onDragStart, onDrop, onDragEnd };
+
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        setDragging(true);
+        callbacks.current.onDragStart?.();
+      },
+      onPanResponderMove: Animated.event([null, { dx: offset.x, dy: offset.y }], {
+        useNativeDriver: false,
+      }),
+      onPanResponderRelease: (event) => {
+        offset.setValue({ x: 0, y: 0 });
+        setDragging(false);
+        callbacks.current.onDrop({
+          pageX: event.nativeEvent.pageX,
+          pageY: event.nativeEvent.pageY,
+        });
+        callbacks.current.onDragEnd?.();
+      },
+      onPanResponderTerminate: () => {
+        offset.setValue({ x: 0, y: 0 });
+        setDragging(false);
+        callbacks.current.onDragEnd?.();
+      },
+    }),
+  ).current;
+
+  return (
+    <Animated.View
+      style={[
+        style,
+        dragging && styles.dragging,
+        { transform: offset.getTranslateTransform() },
+      ]}
+    >
+      {children}
+      {!disabled && (
+        <View {...responder.panHandlers} style={styles.handle} hitSlop={8}>
+          <Ionicons name="move" size={12} color={Palette.navy} />
+        </View>
+      )}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  handle: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffffcc',
+  },
+  dragging: {
+    zIndex: 10,
+    opacity: 0.85,
+    shadowColor: Palette.navyDark,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+});
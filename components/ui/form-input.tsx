@@ -5,17 +5,20 @@ import { Palette } from '@/constants/theme';
 
 type Props = TextInputProps & {
   label: string;
+  /** Shown under the field, e.g. a server validation message for it. */
+  error?: string;
 };
 
-export function FormInput({ label, style, ...props }: Props) {
+export function FormInput({ label, error, style, ...props }: Props) {
   return (
     <View style={styles.container}>
       <ThemedText style={styles.label}>{label}</ThemedText>
       <TextInput
         {...props}
-        style={[styles.input, style]}
+        style={[styles.input, error ? styles.inputError : null, style]}
         placeholderTextColor="#9a8fa0"
       />
+      {error ? <ThemedText style={styles.error}>{error}</ThemedText> : null}
     </View>
   );
 }
@@ -37,4 +40,11 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     backgroundColor: '#fff7fb',
   },
+  inputError: {
+    borderColor: Palette.danger,
+  },
+  error: {
+    fontSize: 12,
+    color: Palette.danger,
+  },
 });
@@ -0,0 +1,39 @@
+import React from 'react';
+import { StyleProp, StyleSheet, View, ViewStyle } from 'react-native';
+
+type HatchProps = {
+  color: string;
+  style?: StyleProp<ViewStyle>;
+};
+
+const STRIPE_GAP = 6;
+const STRIPE_COUNT = 40;
+
+/** Diagonal stripes over a pale fill, used for buffer time around a booking. */
+export function Hatch({ color, style }: HatchProps) {
+  return (
+    <View pointerEvents="none" style={[styles.container, style]}>
+      {Array.from({ length: STRIPE_COUNT }, (_, index) => (
+        <View
+          key={index}
+          style={[styles.stripe, { left: index * STRIPE_GAP - 40, backgroundColor: color }]}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    backgroundColor: '#f7f5fa',
+  },
+  stripe: {
+    position: 'absolute',
+    top: -40,
+    bottom: -40,
+    width: 1.5,
+    opacity: 0.45,
+    transform: [{ rotate: '45deg' }],
+  },
+});
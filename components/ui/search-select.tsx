@@ -10,6 +10,8 @@ type Item = {
   label: string;
   subtitle?: string;
   disabled?: boolean;
+  /** Shown flagged in the list and as a badge once the item is picked. */
+  warning?: string;
 };
 
 type Props = {
@@ -46,6 +48,8 @@ export function SearchSelect({
       .slice(0, 12);
   }, [items, query]);
 
+  const selectedWarning = selectedId ? items.find((i) => i.id === selectedId)?.warning : undefined;
+
   return (
     <View style={styles.container}>
       <ThemedText type="defaultSemiBold">{title}</ThemedText>
@@ -101,6 +105,11 @@ export function SearchSelect({
                   {item.subtitle}
                 </ThemedText>
               ) : null}
+              {item.warning ? (
+                <ThemedText style={styles.optionWarning} numberOfLines={1} ellipsizeMode="tail">
+                  {item.warning}
+                </ThemedText>
+              ) : null}
             </Pressable>
           );
         })}
@@ -125,6 +134,12 @@ export function SearchSelect({
           ) : null}
         </View>
       ) : null}
+      {selectedWarning ? (
+        <View style={styles.warningBadge}>
+          <Ionicons name="warning-outline" size={16} color={Palette.danger} />
+          <ThemedText style={styles.warningText}>{selectedWarning}</ThemedText>
+        </View>
+      ) : null}
     </View>
   );
 }
@@ -196,4 +211,24 @@ const styles = StyleSheet.create({
   clearButton: {
     padding: 4,
   },
+  optionWarning: {
+    color: Palette.danger,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  warningBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 10,
+    backgroundColor: '#fde8e8',
+  },
+  warningText: {
+    flex: 1,
+    color: Palette.danger,
+    fontSize: 12,
+    fontWeight: '600',
+  },
 });
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { OptionPill } from '@/components/ui/option-pill';
+import { Palette } from '@/constants/theme';
+import { useI18n } from '@/context/i18n-context';
+import { useSalonHours } from '@/context/salon-hours-context';
+import { BOOKING_DAYS } from '@/hooks/use-public-availability';
+import { findOpenSlots } from '@/lib/availability';
+import type { PublicAvailability } from '@/lib/domain';
+
+type SlotPickerProps = {
+  /** Null until a service is chosen; no slots are offered without it. */
+  durationMinutes: number | null;
+  prepMinutes?: number;
+  cleanupMinutes?: number;
+  employeeId?: string | null;
+  /** Technicians able to do the chosen services; null when any technician will do. */
+  eligibleEmployeeIds?: string[] | null;
+  availability: PublicAvailability | null;
+  loading?: boolean;
+  value: string | null;
+  onChange: (nextIso: string | null) => void;
+};
+
+const startOfDay = (value: Date) =>
+  new Date(value.getFullYear(), value.getMonth(), value.getDate(), 0, 0, 0, 0);
+
+const formatTime24 = (value: Date, locale: string) =>
+  value.toLocaleTimeString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+/** Day strip plus a grid of open start times computed from shifts and bookings. */
+export function SlotPicker({
+  durationMinutes,
+  prepMinutes,
+  cleanupMinutes,
+  employeeId,
+  eligibleEmployeeIds,
+  availability,
+  loading,
+  value,
+  onChange,
+}: SlotPickerProps) {
+  const { t, locale } = useI18n();
+  const { hours: salonHours } = useSalonHours();
+  const [selectedDay, setSelectedDay] = useState(() => startOfDay(new Date()));
+
+  const days = useMemo(() => {
+    const today = startOfDay(new Date());
+    return Array.from(
+      { length: BOOKING_DAYS },
+      (_, index) => new Date(today.getFullYear(), today.getMonth(), today.getDate() + index),
+    );
+  }, []);
+
+  const slots = useMemo(() => {
+    if (!durationMinutes || !availability) return [];
+    return findOpenSlots({
+      day: selectedDay,
+      durationMinutes,
+      prepMinutes,
+      cleanupMinutes,
+      shifts: availability.shifts,
+      busy: availability.busy,
+      salonHours,
+      employeeId,
+      eligibleEmployeeIds,
+    });
+  }, [
+    availability,
+    cleanupMinutes,
+    durationMinutes,
+    eligibleEmployeeIds,
+    employeeId,
+    prepMinutes,
+    salonHours,
+    selectedDay,
+  ]);
+
+  const formatDayLabel = (day: Date) =>
+    day.toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+      weekday: 'short',
+      day: '2-digit',
+      month: '2-digit',
+    });
+
+  return (
+    <View style={styles.container}>
+      <ThemedText type="defaultSemiBold">{t('availableTimes')}</ThemedText>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.dayRow}>
+          {days.map((day) => (
+            <OptionPill
+              key={day.toISOString()}
+              label={formatDayLabel(day)}
+              selected={day.getTime() === selectedDay.getTime()}
+              onPress={() => {
+                setSelectedDay(day);
+                onChange(null);
+              }}
+            />
+          ))}
+        </View>
+      </ScrollView>
+      {!durationMinutes ? (
+        <ThemedText style={styles.helperText}>{t('selectServiceForSlots')}</ThemedText>
+      ) : loading && !availability ? (
+        <ThemedText style={styles.helperText}>{t('loading')}</ThemedText>
+      ) : slots.length === 0 ? (
+        <ThemedText style={styles.helperText}>{t('noOpenSlots')}</ThemedText>
+      ) : (
+        <View style={styles.slotGrid}>
+          {slots.map((slot) => {
+            const iso = slot.start.toISOString();
+            return (
+              <OptionPill
+                key={iso}
+                label={formatTime24(slot.start, locale)}
+                selected={value === iso}
+                onPress={() => onChange(iso)}
+                style={styles.slotPill}
+              />
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  slotPill: {
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  helperText: {
+    color: Palette.mutedText,
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,130 @@
+import React from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { Palette } from '@/constants/theme';
+import { useI18n } from '@/context/i18n-context';
+import type { OutboxStatus } from '@/context/outbox-context';
+
+const statusColors: Record<OutboxStatus, string> = {
+  pending: Palette.accentOrange,
+  syncing: Palette.accentBlue,
+  failed: Palette.danger,
+};
+
+const statusKeys: Record<OutboxStatus, string> = {
+  pending: 'syncPending',
+  syncing: 'syncInProgress',
+  failed: 'syncFailed',
+};
+
+export function SyncBadge({ status, onDiscard }: { status: OutboxStatus; onDiscard?: () => void }) {
+  const { t } = useI18n();
+  const color = statusColors[status];
+  return (
+    <View style={[styles.badge, { backgroundColor: `${color}22` }]}>
+      <View style={[styles.dot, { backgroundColor: color }]} />
+      <ThemedText style={[styles.badgeText, { color }]}>{t(statusKeys[status])}</ThemedText>
+      {status === 'failed' && onDiscard ? (
+        <Pressable onPress={onDiscard} hitSlop={8}>
+          <ThemedText style={[styles.badgeText, styles.discard]}>{t('discard')}</ThemedText>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+/** Banner shown above employee lists while rendering cached data or holding queued actions. */
+export function OfflineNotice({
+  stale,
+  savedAt,
+  pendingCount,
+  onRetry,
+}: {
+  stale: boolean;
+  savedAt: string | null;
+  pendingCount: number;
+  onRetry: () => void;
+}) {
+  const { t, locale } = useI18n();
+  if (!stale && pendingCount === 0) return null;
+  const savedLabel = savedAt
+    ? new Date(savedAt).toLocaleString(locale === 'vi' ? 'vi-VN' : 'en-US')
+    : t('notAvailable');
+  return (
+    <View style={styles.banner}>
+      <View style={styles.bannerText}>
+        {stale ? (
+          <ThemedText style={styles.bannerTitle}>
+            {t('offlineShowingCached').replace('{time}', savedLabel)}
+          </ThemedText>
+        ) : null}
+        {pendingCount > 0 ? (
+          <ThemedText style={styles.bannerMeta}>
+            {t('offlinePendingActions').replace('{count}', String(pendingCount))}
+          </ThemedText>
+        ) : null}
+      </View>
+      <Pressable onPress={onRetry} style={styles.retryButton}>
+        <ThemedText style={styles.retryText}>{t('syncNow')}</ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 999,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 999,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  discard: {
+    color: Palette.slate,
+    textDecorationLine: 'underline',
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: `${Palette.accentOrange}66`,
+    backgroundColor: `${Palette.accentOrange}18`,
+  },
+  bannerText: {
+    flex: 1,
+    gap: 2,
+  },
+  bannerTitle: {
+    fontWeight: '600',
+    color: Palette.navy,
+  },
+  bannerMeta: {
+    fontSize: 12,
+    color: Palette.slate,
+  },
+  retryButton: {
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: Palette.accentOrange,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+});
@@ -1,23 +1,139 @@
-/** Salon operating hours (local time). */
-export const SALON_OPEN_HOUR = 7;
-export const SALON_CLOSE_HOUR = 21;
+import type { SalonHours, TimeRange } from '@/lib/domain';
+
+/** Used until the saved settings load: 7:00–21:00 every day, no break. */
+export const DEFAULT_SALON_HOURS: SalonHours = {
+  weekly: Array.from({ length: 7 }, () => ({ start: '07:00', end: '21:00' })),
+  overrides: [],
+  breakWindow: null,
+  changeCutoffHours: 24,
+  noShowThreshold: 3,
+  breakPolicy: { paid: 15, unpaid: 60 },
+};
+
+const CLOCK_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidClock = (value: string) => CLOCK_PATTERN.test(value);
+
+/** 'HH:mm' → minutes since midnight. */
+export function parseClock(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
 
 function minutesSinceMidnight(d: Date): number {
   return d.getHours() * 60 + d.getMinutes();
 }
 
-/** Appointment start must be in [7:00, 21:00); cannot start at or after 21:00. */
-export function isWithinSalonHoursForAppointment(d: Date): boolean {
+export const toSalonDateKey = (d: Date) => {
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/** Opening window for the calendar day of `d` after date overrides; null when closed. */
+export function getSalonHoursForDate(d: Date, hours: SalonHours = DEFAULT_SALON_HOURS): TimeRange | null {
+  const override = hours.overrides.find((item) => item.date === toSalonDateKey(d));
+  if (override) {
+    if (override.closed) return null;
+    if (override.hours) return override.hours;
+  }
+  return hours.weekly[d.getDay()] ?? null;
+}
+
+export function isDuringSalonBreak(d: Date, hours: SalonHours = DEFAULT_SALON_HOURS): boolean {
+  if (!hours.breakWindow) return false;
   const m = minutesSinceMidnight(d);
-  return m >= SALON_OPEN_HOUR * 60 && m < SALON_CLOSE_HOUR * 60;
+  return m >= parseClock(hours.breakWindow.start) && m < parseClock(hours.breakWindow.end);
 }
 
-/** Work schedule start/end must be in [7:00, 21:00] (inclusive). */
-export function isWithinSalonHoursForSchedule(d: Date): boolean {
+function isWithinOpeningWindow(d: Date, hours: SalonHours): boolean {
+  const window = getSalonHoursForDate(d, hours);
+  if (!window) return false;
   const m = minutesSinceMidnight(d);
-  return m >= SALON_OPEN_HOUR * 60 && m <= SALON_CLOSE_HOUR * 60;
+  return m >= parseClock(window.start) && m < parseClock(window.end);
+}
+
+/** Appointment start must be in [open, close) of its day and outside the break. */
+export function isWithinSalonHoursForAppointment(
+  d: Date,
+  hours: SalonHours = DEFAULT_SALON_HOURS,
+): boolean {
+  return isWithinOpeningWindow(d, hours) && !isDuringSalonBreak(d, hours);
+}
+
+/** Work schedule start/end must be in [open, close] (inclusive) of its day. */
+export function isWithinSalonHoursForSchedule(
+  d: Date,
+  hours: SalonHours = DEFAULT_SALON_HOURS,
+): boolean {
+  const window = getSalonHoursForDate(d, hours);
+  if (!window) return false;
+  const m = minutesSinceMidnight(d);
+  return m >= parseClock(window.start) && m <= parseClock(window.end);
+}
+
+/** 'HH:mm - HH:mm' for the day of `d`, or null when the salon is closed that day. */
+export function formatSalonHours(d: Date, hours: SalonHours = DEFAULT_SALON_HOURS): string | null {
+  const window = getSalonHoursForDate(d, hours);
+  return window ? `${window.start} - ${window.end}` : null;
+}
+
+/** Whole-hour span covering every opening window, for hour-row grids. */
+export function getSalonHourRange(hours: SalonHours = DEFAULT_SALON_HOURS) {
+  const windows = [
+    ...hours.weekly,
+    ...hours.overrides.map((item) => (item.closed ? null : item.hours ?? null)),
+  ].filter((item): item is TimeRange => Boolean(item));
+  if (windows.length === 0) {
+    return { startHour: 7, endHour: 21 };
+  }
+  return {
+    startHour: Math.floor(Math.min(...windows.map((item) => parseClock(item.start))) / 60),
+    endHour: Math.ceil(Math.max(...windows.map((item) => parseClock(item.end))) / 60),
+  };
+}
+
+/** Localized reason an appointment cannot start at `d`, or null when it can. */
+export function getAppointmentHoursError(
+  d: Date,
+  hours: SalonHours,
+  t: (key: string) => string,
+): string | null {
+  if (isWithinSalonHoursForAppointment(d, hours)) return null;
+  if (isWithinOpeningWindow(d, hours) && hours.breakWindow) {
+    return t('errorAppointmentDuringBreak')
+      .replace('{start}', hours.breakWindow.start)
+      .replace('{end}', hours.breakWindow.end);
+  }
+  return t('errorAppointmentOutsideHours').replace(
+    '{hours}',
+    formatSalonHours(d, hours) ?? t('salonClosedDay'),
+  );
+}
+
+/** Localized reason a shift from `start` to `end` falls outside opening hours, or null. */
+export function getScheduleHoursError(
+  start: Date,
+  end: Date,
+  hours: SalonHours,
+  t: (key: string) => string,
+): string | null {
+  if (isWithinSalonHoursForSchedule(start, hours) && isWithinSalonHoursForSchedule(end, hours)) {
+    return null;
+  }
+  return t('errorScheduleOutsideHours').replace(
+    '{hours}',
+    formatSalonHours(start, hours) ?? t('salonClosedDay'),
+  );
 }
 
-export function formatSalonHours(): string {
-  return `${SALON_OPEN_HOUR}:00 - ${SALON_CLOSE_HOUR}:00`;
+/** Whether a customer may still reschedule or cancel a booking starting at `scheduledAt`. */
+export function isBeforeChangeCutoff(
+  scheduledAt: Date,
+  hours: SalonHours = DEFAULT_SALON_HOURS,
+  now: Date = new Date(),
+): boolean {
+  const cutoffHours = hours.changeCutoffHours ?? DEFAULT_SALON_HOURS.changeCutoffHours;
+  return scheduledAt.getTime() - now.getTime() > cutoffHours * 60 * 60 * 1000;
 }
@@ -1,18 +1,18 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
-import { apiLogin } from '@/lib/api';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { apiLogin, apiRefresh, setSessionHandlers } from '@/lib/api';
+import type { AuthUser } from '@/lib/domain';
 
-export type AuthUser = {
-  id: string;
-  username: string;
-  role: 'admin' | 'employee';
-  displayName?: string;
-};
+export type { AuthUser };
+
+/** Why the last session ended, so route guards know where to send the user. */
+export type SessionEnd = 'signed_out' | 'expired';
 
 type AuthContextValue = {
   user: AuthUser | null;
   token: string | null;
   loading: boolean;
+  sessionEnd: SessionEnd | null;
   login: (username: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
 };
@@ -20,20 +20,32 @@ type AuthContextValue = {
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
 const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'auth_refresh_token';
 const USER_KEY = 'auth_user';
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionEnd, setSessionEnd] = useState<SessionEnd | null>(null);
+  // The request layer reads these outside of React renders.
+  const tokenRef = useRef<string | null>(null);
+  const refreshTokenRef = useRef<string | null>(null);
+
+  const applyToken = useCallback((nextToken: string | null) => {
+    tokenRef.current = nextToken;
+    setToken(nextToken);
+  }, []);
 
   useEffect(() => {
     const load = async () => {
       try {
         const storedToken = await AsyncStorage.getItem(TOKEN_KEY);
+        const storedRefreshToken = await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
         const storedUser = await AsyncStorage.getItem(USER_KEY);
         if (storedToken && storedUser) {
-          setToken(storedToken);
+          refreshTokenRef.current = storedRefreshToken;
+          applyToken(storedToken);
           setUser(JSON.parse(storedUser) as AuthUser);
         }
       } finally {
@@ -41,26 +53,70 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       }
     };
     load();
-  }, []);
+  }, [applyToken]);
 
-  const login = useCallback(async (username: string, password: string) => {
-    const result = await apiLogin(username, password);
-    setToken(result.accessToken);
-    setUser(result.user);
-    await AsyncStorage.setItem(TOKEN_KEY, result.accessToken);
-    await AsyncStorage.setItem(USER_KEY, JSON.stringify(result.user));
-  }, []);
+  const login = useCallback(
+    async (username: string, password: string) => {
+      const result = await apiLogin(username, password);
+      refreshTokenRef.current = result.refreshToken ?? null;
+      applyToken(result.accessToken);
+      setUser(result.user);
+      setSessionEnd(null);
+      await AsyncStorage.setItem(TOKEN_KEY, result.accessToken);
+      await AsyncStorage.setItem(USER_KEY, JSON.stringify(result.user));
+      if (result.refreshToken) {
+        await AsyncStorage.setItem(REFRESH_TOKEN_KEY, result.refreshToken);
+      } else {
+        await AsyncStorage.removeItem(REFRESH_TOKEN_KEY);
+      }
+    },
+    [applyToken],
+  );
 
-  const logout = useCallback(async () => {
-    setToken(null);
-    setUser(null);
-    await AsyncStorage.removeItem(TOKEN_KEY);
-    await AsyncStorage.removeItem(USER_KEY);
-  }, []);
+  const endSession = useCallback(
+    async (reason: SessionEnd) => {
+      refreshTokenRef.current = null;
+      applyToken(null);
+      setUser(null);
+      setSessionEnd(reason);
+      await AsyncStorage.removeItem(TOKEN_KEY);
+      await AsyncStorage.removeItem(REFRESH_TOKEN_KEY);
+      await AsyncStorage.removeItem(USER_KEY);
+    },
+    [applyToken],
+  );
+
+  const logout = useCallback(() => endSession('signed_out'), [endSession]);
+
+  useEffect(() => {
+    setSessionHandlers({
+      getAccessToken: () => tokenRef.current,
+      refresh: async () => {
+        const refreshToken = refreshTokenRef.current;
+        if (!refreshToken) return null;
+        const result = await apiRefresh(refreshToken);
+        applyToken(result.accessToken);
+        await AsyncStorage.setItem(TOKEN_KEY, result.accessToken);
+        if (result.refreshToken) {
+          refreshTokenRef.current = result.refreshToken;
+          await AsyncStorage.setItem(REFRESH_TOKEN_KEY, result.refreshToken);
+        }
+        return result.accessToken;
+      },
+      onExpired: () => {
+        // Several in-flight requests can fail together; only the first one signs out.
+        // The route guards then send the user to login with the page they were on.
+        if (!tokenRef.current) return;
+        tokenRef.current = null;
+        endSession('expired');
+      },
+    });
+    return () => setSessionHandlers(null);
+  }, [applyToken, endSession]);
 
   const value = useMemo(
-    () => ({ user, token, loading, login, logout }),
-    [user, token, loading, login, logout],
+    () => ({ user, token, loading, sessionEnd, login, logout }),
+    [user, token, loading, sessionEnd, login, logout],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
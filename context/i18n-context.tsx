@@ -26,6 +26,7 @@ const dictionary: Dictionary = {
   assignments: { vi: 'Giao dịch vụ', en: 'Assignments' },
   commissions: { vi: 'Hoa hồng', en: 'Commissions' },
   payrolls: { vi: 'Bảng lương', en: 'Payrolls' },
+  salonSettings: { vi: 'Giờ mở cửa', en: 'Salon hours' },
   employeesTitle: { vi: 'Nhân viên', en: 'Employees' },
   customersTitle: { vi: 'Khách hàng', en: 'Customers' },
   servicesTitle: { vi: 'Dịch vụ', en: 'Services' },
@@ -98,6 +99,394 @@ const dictionary: Dictionary = {
     vi: 'Vui lòng nhập tên, số điện thoại, dịch vụ và thời gian',
     en: 'Please enter name, phone, service, and time',
   },
+  availableTimes: { vi: 'Giờ còn trống', en: 'Available times' },
+  selectServiceForSlots: {
+    vi: 'Chọn dịch vụ để xem giờ còn trống',
+    en: 'Choose a service to see open times',
+  },
+  noOpenSlots: {
+    vi: 'Ngày này đã kín lịch. Vui lòng chọn ngày khác.',
+    en: 'No open times on this day. Please pick another day.',
+  },
+  loading: { vi: 'Đang tải...', en: 'Loading...' },
+  bookingReference: { vi: 'Mã đặt lịch', en: 'Booking reference' },
+  bookingReferenceHint: {
+    vi: 'Lưu mã này cùng số điện thoại để xem, đổi giờ hoặc huỷ lịch.',
+    en: 'Keep this code with your phone number to view, reschedule or cancel.',
+  },
+  manageBooking: { vi: 'Quản lý lịch đã đặt', en: 'Manage my booking' },
+  manageBookingSubtitle: {
+    vi: 'Nhập mã đặt lịch và số điện thoại đã dùng khi đặt.',
+    en: 'Enter your booking reference and the phone number you booked with.',
+  },
+  findBooking: { vi: 'Tìm lịch hẹn', en: 'Find booking' },
+  rescheduleBooking: { vi: 'Đổi giờ', en: 'Reschedule' },
+  confirmReschedule: { vi: 'Xác nhận đổi giờ', en: 'Confirm new time' },
+  cancelBooking: { vi: 'Huỷ lịch', en: 'Cancel booking' },
+  cancelBookingConfirm: {
+    vi: 'Bạn có chắc muốn huỷ lịch hẹn này?',
+    en: 'Are you sure you want to cancel this booking?',
+  },
+  bookingRescheduled: { vi: 'Đã đổi giờ lịch hẹn', en: 'Your booking was rescheduled' },
+  bookingCancelled: { vi: 'Đã huỷ lịch hẹn', en: 'Your booking was cancelled' },
+  bookingCutoffNotice: {
+    vi: 'Chỉ có thể đổi hoặc huỷ trực tuyến trước giờ hẹn {hours} giờ. Vui lòng gọi salon.',
+    en: 'Online changes close {hours} hours before the start. Please call the salon.',
+  },
+  errorBookingLookupRequired: {
+    vi: 'Vui lòng nhập mã đặt lịch và số điện thoại',
+    en: 'Please enter your booking reference and phone number',
+  },
+  errorBookingNotFound: {
+    vi: 'Không tìm thấy lịch hẹn với mã và số điện thoại này',
+    en: 'No booking matches this reference and phone number',
+  },
+  errorBookingCutoff: {
+    vi: 'Đã quá thời hạn đổi hoặc huỷ lịch trực tuyến',
+    en: 'It is too late to change this booking online',
+  },
+  changeCutoffHours: { vi: 'Hạn đổi/huỷ trực tuyến (giờ trước giờ hẹn)', en: 'Online change cutoff (hours before start)' },
+  bookingPolicy: { vi: 'Chính sách đặt lịch', en: 'Booking policy' },
+  noShowThreshold: {
+    vi: 'Số lần không đến/huỷ muộn trước khi cần duyệt',
+    en: 'No-shows and late cancels before approval is needed',
+  },
+  noShowThresholdHint: {
+    vi: 'Khi đạt ngưỡng, khách cần quản trị viên duyệt mới đặt lịch trực tuyến được. Nhập 0 để tắt.',
+    en: 'Once reached, the customer needs an admin approval to book online again. Enter 0 to turn off.',
+  },
+  reliabilityCounts: {
+    vi: 'Không đến: {noShows} · Huỷ muộn: {lateCancels}',
+    en: 'No-shows: {noShows} · Late cancels: {lateCancels}',
+  },
+  onlineBookingHeld: { vi: 'Đặt trực tuyến cần duyệt', en: 'Online booking on hold' },
+  approveOnlineBooking: { vi: 'Cho phép đặt trực tuyến', en: 'Allow online booking' },
+  onlineBookingApproved: {
+    vi: 'Khách hàng có thể đặt lịch trực tuyến trở lại',
+    en: 'The customer can book online again',
+  },
+  noShowConfirm: {
+    vi: 'Đánh dấu khách không đến cho lịch hẹn này?',
+    en: 'Mark this customer as a no-show for this appointment?',
+  },
+  errorBookingApprovalRequired: {
+    vi: 'Vui lòng liên hệ tiệm để xác nhận trước khi đặt lịch trực tuyến',
+    en: 'Please contact the salon to confirm before booking online',
+  },
+  walkInQueue: { vi: 'Khách vãng lai', en: 'Walk-in queue' },
+  checkedInTechnicians: { vi: 'Thợ đã chấm công', en: 'Checked-in technicians' },
+  noCheckedInTechnicians: {
+    vi: 'Chưa có thợ nào chấm công vào hôm nay',
+    en: 'No technician has checked in today',
+  },
+  checkedInAt: { vi: 'Vào ca lúc {time}', en: 'Checked in at {time}' },
+  technicianBusy: { vi: 'Đang làm', en: 'Busy' },
+  turnCount: { vi: '{n} lượt', en: '{n} turns' },
+  addWalkIn: { vi: 'Thêm khách vãng lai', en: 'Add walk-in' },
+  newWalkInCustomer: {
+    vi: 'Hoặc nhập tên khách mới',
+    en: 'Or enter a new customer name',
+  },
+  addToQueue: { vi: 'Thêm vào hàng chờ', en: 'Add to queue' },
+  waitingWalkIns: { vi: 'Đang chờ ({n})', en: 'Waiting ({n})' },
+  walkInQueueEmpty: { vi: 'Không có khách đang chờ', en: 'No one is waiting' },
+  waitingSince: { vi: 'Chờ từ {time}', en: 'Waiting since {time}' },
+  suggestedNext: { vi: 'Lượt kế', en: 'Next turn' },
+  assignWalkIn: { vi: 'Giao cho thợ', en: 'Assign technician' },
+  walkInAssigned: { vi: 'Đã giao khách cho {name}', en: 'Walk-in assigned to {name}' },
+  errorWalkInRequired: {
+    vi: 'Vui lòng chọn hoặc nhập khách hàng và chọn dịch vụ',
+    en: 'Please pick or enter a customer and choose a service',
+  },
+  errorNoCheckedInTechnician: {
+    vi: 'Chưa có thợ nào chấm công để nhận khách',
+    en: 'No checked-in technician is available',
+  },
+  weekView: { vi: 'Tuần', en: 'Week' },
+  dayView: { vi: 'Ngày', en: 'Day' },
+  timelineGapHint: {
+    vi: 'Chạm vào khoảng trống để tạo lịch hẹn cho thợ đó vào giờ đó.',
+    en: 'Tap an empty gap to book that technician at that time.',
+  },
+  skillsTitle: { vi: 'Dịch vụ có thể làm', en: 'Services they can do' },
+  skillsHint: {
+    vi: 'Để trống nếu nhân viên làm được mọi dịch vụ.',
+    en: 'Leave all unset if they can do every service.',
+  },
+  skillNone: { vi: 'Không', en: 'No' },
+  skillJunior: { vi: 'Mới', en: 'Junior' },
+  skillStandard: { vi: 'Thạo', en: 'Standard' },
+  skillSenior: { vi: 'Giỏi', en: 'Senior' },
+  allServices: { vi: 'Tất cả dịch vụ', en: 'All services' },
+  errorEmployeeNotQualified: {
+    vi: 'Nhân viên này chưa được phân công làm dịch vụ đã chọn',
+    en: 'This technician is not set up to perform the selected service',
+  },
+  outsideShiftTitle: {
+    vi: 'Thợ không có ca làm vào giờ này',
+    en: 'Technician is not on shift for this time',
+  },
+  shiftsThatDay: { vi: 'Ca trong ngày', en: 'Shifts that day' },
+  dayOff: { vi: 'Nghỉ', en: 'Day off' },
+  noSchedulePublished: {
+    vi: 'Chưa có lịch làm cho ngày này',
+    en: 'No schedule published for this day yet',
+  },
+  overrideReason: { vi: 'Lý do vẫn đặt lịch', en: 'Reason to book anyway' },
+  outsideShiftNoOverride: {
+    vi: 'Chọn giờ khác hoặc nhờ admin đặt lịch ngoài ca.',
+    en: 'Pick another time or ask an admin to book outside the shift.',
+  },
+  shiftOverrideNote: { vi: 'Đặt ngoài ca', en: 'Booked outside shift' },
+  errorOutsideShift: {
+    vi: 'Thời gian dịch vụ phải nằm trọn trong một ca làm của thợ',
+    en: "The whole service must fit inside one of the technician's shifts",
+  },
+  errorOverrideReasonRequired: {
+    vi: 'Vui lòng nhập lý do đặt lịch ngoài ca',
+    en: 'Please enter a reason for booking outside the shift',
+  },
+  unassignedLane: { vi: 'Chưa giao', en: 'Unassigned' },
+  unassignedCount: { vi: 'lịch chưa có thợ', en: 'without a technician' },
+  pendingTimeOffCount: { vi: 'yêu cầu chờ duyệt', en: 'waiting for approval' },
+  assignSuggestions: { vi: 'Gợi ý thợ', en: 'Suggested technicians' },
+  suggestionFree: { vi: 'Rảnh', en: 'Free' },
+  suggestionBusy: { vi: 'Bận hoặc ngoài ca', en: 'Busy or off shift' },
+  bookedToday: { vi: 'Đã có {n} phút', en: '{n} min booked' },
+  assign: { vi: 'Giao', en: 'Assign' },
+  prepMinutes: { vi: 'Chuẩn bị trước (phút)', en: 'Prep before (minutes)' },
+  cleanupMinutes: { vi: 'Dọn dẹp sau (phút)', en: 'Cleanup after (minutes)' },
+  bufferHint: {
+    vi: 'Thợ được giữ trống trong thời gian này, nhưng không tính vào thời gian hẹn của khách.',
+    en: 'The technician is kept free for this time, but it is not added to the customer’s visit.',
+  },
+  bufferSummary: {
+    vi: 'Chuẩn bị {prep} phút · dọn dẹp {cleanup} phút',
+    en: 'Prep {prep} min · cleanup {cleanup} min',
+  },
+  shiftTemplates: { vi: 'Mẫu ca', en: 'Shift templates' },
+  shiftTemplatesHint: {
+    vi: 'Chạm để điền giờ của mẫu. Nhấn giữ để xóa mẫu.',
+    en: 'Tap a template to fill in its hours. Long-press to delete it.',
+  },
+  templateName: { vi: 'Tên mẫu ca', en: 'Template name' },
+  templateNamePlaceholder: { vi: 'VD: Ca sáng', en: 'e.g. Morning' },
+  saveAsTemplate: { vi: 'Lưu giờ thành mẫu', en: 'Save hours as template' },
+  deleteTemplateConfirm: { vi: 'Xóa mẫu ca "{name}"?', en: 'Delete the "{name}" template?' },
+  errorTemplateNameRequired: { vi: 'Vui lòng nhập tên mẫu ca', en: 'Please enter a template name' },
+  copyWeek: { vi: 'Sao chép tuần này', en: 'Copy this week' },
+  copyWeekTitle: { vi: 'Sao chép ca tuần {week}', en: 'Copy shifts of {week}' },
+  copyToNextWeek: { vi: 'Sang tuần sau', en: 'To next week' },
+  copyToRange: { vi: 'Sang khoảng ngày', en: 'To a date range' },
+  copyFrom: { vi: 'Từ ngày (YYYY-MM-DD)', en: 'From (YYYY-MM-DD)' },
+  copyUntil: { vi: 'Đến ngày (YYYY-MM-DD)', en: 'Until (YYYY-MM-DD)' },
+  copyPreviewSummary: {
+    vi: '{ready} ca sẽ được tạo · bỏ qua {skipped}',
+    en: '{ready} shifts to create · {skipped} skipped',
+  },
+  copySkippedOverlap: { vi: 'Bỏ qua: trùng ca đã có', en: 'Skipped: overlaps an existing shift' },
+  copySkippedPast: { vi: 'Bỏ qua: đã qua', en: 'Skipped: in the past' },
+  createCopiedShifts: { vi: 'Tạo {n} ca', en: 'Create {n} shifts' },
+  shiftsCopied: { vi: 'Đã tạo {n} ca', en: '{n} shifts created' },
+  shiftsCopiedPartial: {
+    vi: 'Đã tạo {n} ca, {failed} ca không tạo được',
+    en: '{n} shifts created, {failed} could not be created',
+  },
+  errorCopyRangeOrder: {
+    vi: 'Ngày kết thúc phải bằng hoặc sau ngày bắt đầu',
+    en: 'The end date must be on or after the start date',
+  },
+  errorCopyRangeTooLong: {
+    vi: 'Chỉ sao chép tối đa {n} ngày mỗi lần',
+    en: 'Copy at most {n} days at a time',
+  },
+  errorNothingToCopy: { vi: 'Không có ca nào để sao chép', en: 'There are no shifts to copy' },
+  copySkippedLeave: { vi: 'Bỏ qua: nhân viên nghỉ phép', en: 'Skipped: employee is on leave' },
+  copySkippedClosed: {
+    vi: 'Bỏ qua: ngoài giờ mở cửa của tiệm',
+    en: 'Skipped: outside salon hours that day',
+  },
+  timeOffTitle: { vi: 'Nghỉ phép', en: 'Time off' },
+  timeOffQueue: { vi: 'Duyệt nghỉ phép', en: 'Time-off requests' },
+  requestTimeOff: { vi: 'Xin nghỉ phép', en: 'Request time off' },
+  timeOffFrom: { vi: 'Từ ngày (YYYY-MM-DD)', en: 'From (YYYY-MM-DD)' },
+  timeOffUntil: { vi: 'Đến ngày (YYYY-MM-DD)', en: 'Until (YYYY-MM-DD)' },
+  timeOffFullDay: { vi: 'Cả ngày', en: 'Full day' },
+  timeOffPartialDay: { vi: 'Một phần ngày', en: 'Part of the day' },
+  timeOffReason: { vi: 'Lý do', en: 'Reason' },
+  submitTimeOff: { vi: 'Gửi yêu cầu', en: 'Send request' },
+  timeOffSubmitted: {
+    vi: 'Đã gửi yêu cầu, chờ quản lý duyệt',
+    en: 'Request sent and waiting for approval',
+  },
+  myTimeOff: { vi: 'Yêu cầu của tôi', en: 'My requests' },
+  noTimeOff: { vi: 'Chưa có yêu cầu nghỉ phép', en: 'No time-off requests' },
+  timeOffPending: { vi: 'Chờ duyệt', en: 'Pending' },
+  timeOffApproved: { vi: 'Đã duyệt', en: 'Approved' },
+  timeOffRejected: { vi: 'Từ chối', en: 'Rejected' },
+  timeOffWithdraw: { vi: 'Rút yêu cầu', en: 'Withdraw' },
+  timeOffWithdrawConfirm: { vi: 'Rút yêu cầu nghỉ phép này?', en: 'Withdraw this time-off request?' },
+  timeOffAffects: {
+    vi: 'Trùng {shifts} ca làm và {bookings} lịch hẹn, cần sắp xếp lại sau khi duyệt.',
+    en: 'Overlaps {shifts} shifts and {bookings} appointments; reassign them after approving.',
+  },
+  timeOffApprovedMessage: { vi: 'Đã duyệt nghỉ phép', en: 'Time off approved' },
+  timeOffRejectedMessage: { vi: 'Đã từ chối nghỉ phép', en: 'Time off rejected' },
+  approve: { vi: 'Duyệt', en: 'Approve' },
+  reject: { vi: 'Từ chối', en: 'Reject' },
+  onLeave: { vi: 'Nghỉ phép', en: 'On leave' },
+  onLeaveThatDay: { vi: 'Nghỉ phép ngày này', en: 'On leave that day' },
+  errorEmployeeOnLeave: {
+    vi: 'Nhân viên đang nghỉ phép vào thời gian này',
+    en: 'The employee is on approved leave at this time',
+  },
+  errorTimeOffPast: { vi: 'Không thể xin nghỉ cho ngày đã qua', en: 'Time off cannot start in the past' },
+  shiftSwaps: { vi: 'Đổi ca', en: 'Shift swaps' },
+  noShiftSwaps: { vi: 'Không có yêu cầu đổi ca', en: 'No shift swaps' },
+  swapOpen: { vi: 'Đang mời', en: 'Offered' },
+  swapAccepted: { vi: 'Chờ duyệt', en: 'Awaiting approval' },
+  swapApproved: { vi: 'Đã duyệt', en: 'Approved' },
+  swapRejected: { vi: 'Bị từ chối', en: 'Rejected' },
+  swapCancelled: { vi: 'Đã hủy', en: 'Cancelled' },
+  swapsAwaitingCount: { vi: 'đổi ca chờ duyệt', en: 'swaps awaiting approval' },
+  swapReturnShift: { vi: 'Đổi lại ca: {shift}', en: 'Gives back: {shift}' },
+  swapOfferedTo: { vi: 'Mời: {names}', en: 'Offered to: {names}' },
+  swapOfferedToEveryone: { vi: 'Tất cả đồng nghiệp', en: 'Everyone eligible' },
+  swapWillFlag: {
+    vi: '{n} lịch hẹn trong ca sẽ được đánh dấu cần xếp thợ khác.',
+    en: '{n} appointments in this shift will be flagged for reassignment.',
+  },
+  swapApprovedMessage: { vi: 'Đã duyệt đổi ca', en: 'Shift swap approved' },
+  swapApprovedFlagged: {
+    vi: 'Đã duyệt đổi ca. {n} lịch hẹn cần xếp thợ khác.',
+    en: 'Shift swap approved. {n} appointments need reassignment.',
+  },
+  offerShift: { vi: 'Nhờ người làm thay', en: 'Offer shift' },
+  offerShiftHint: {
+    vi: 'Chọn đồng nghiệp, hoặc để trống để mời tất cả.',
+    en: 'Pick colleagues, or leave it on everyone eligible.',
+  },
+  sendOffer: { vi: 'Gửi lời mời', en: 'Send offer' },
+  swapOfferedMessage: {
+    vi: 'Đã gửi lời mời, chờ đồng nghiệp nhận',
+    en: 'Offer sent; waiting for a colleague to accept',
+  },
+  swapWithdraw: { vi: 'Rút lời mời', en: 'Withdraw offer' },
+  swapAcceptedBy: { vi: '{name} đã nhận, chờ quản lý duyệt', en: '{name} accepted; awaiting approval' },
+  shiftOffers: { vi: 'Ca được mời làm thay', en: 'Shift offers' },
+  swapOfferFrom: { vi: '{name} nhờ làm thay', en: '{name} is offering' },
+  swapGiveBackHint: {
+    vi: 'Có thể đổi lại một ca của bạn, hoặc chỉ làm thay.',
+    en: 'Give back one of your shifts in exchange, or just cover it.',
+  },
+  swapCoverOnly: { vi: 'Chỉ làm thay', en: 'Cover only' },
+  swapAccept: { vi: 'Nhận ca', en: 'Accept shift' },
+  swapAcceptedMessage: {
+    vi: 'Đã nhận ca, chờ quản lý duyệt',
+    en: 'Shift accepted; waiting for an admin to approve',
+  },
+  needsReassignmentHint: {
+    vi: 'Thợ đã đổi ca, cần xếp thợ khác cho lịch hẹn này.',
+    en: 'The technician swapped this shift away; reassign this appointment.',
+  },
+  kioskTitle: { vi: 'Chấm công tại quầy', en: 'Staff clock-in kiosk' },
+  kioskHint: {
+    vi: 'Chọn tên của bạn và nhập mã PIN để vào hoặc ra ca.',
+    en: 'Tap your name and enter your PIN to clock in or out.',
+  },
+  kioskNoShifts: { vi: 'Hôm nay không có ca làm', en: 'No shifts scheduled today' },
+  kioskOnShift: { vi: 'Đang trong ca', en: 'On shift' },
+  kioskDone: { vi: 'Đã ra ca', en: 'Clocked out' },
+  kioskEnterPin: { vi: 'Nhập mã PIN', en: 'Enter your PIN' },
+  kioskClear: { vi: 'Xóa', en: 'Clear' },
+  kioskClockedIn: { vi: '{name} đã vào ca', en: '{name} clocked in' },
+  kioskClockedOut: { vi: '{name} đã ra ca', en: '{name} clocked out' },
+  kioskPin: { vi: 'Mã PIN chấm công', en: 'Kiosk PIN' },
+  kioskPinHint: {
+    vi: 'Dùng mã 4–6 chữ số để chấm công trên máy tính bảng tại quầy.',
+    en: 'A 4–6 digit code for clocking in on the front-desk tablet.',
+  },
+  kioskNewPin: { vi: 'Mã PIN mới', en: 'New PIN' },
+  kioskConfirmPin: { vi: 'Nhập lại mã PIN', en: 'Confirm PIN' },
+  kioskSavePin: { vi: 'Lưu mã PIN', en: 'Save PIN' },
+  kioskPinSaved: { vi: 'Đã lưu mã PIN', en: 'PIN saved' },
+  errorPinFormat: { vi: 'Mã PIN gồm 4–6 chữ số', en: 'The PIN must be 4–6 digits' },
+  errorPinMismatch: { vi: 'Mã PIN không khớp', en: 'PINs do not match' },
+  errorInvalidPin: { vi: 'Mã PIN không đúng', en: 'Incorrect PIN' },
+  errorPinNotSet: {
+    vi: 'Bạn chưa đặt mã PIN, hãy đặt trong mục đổi mật khẩu',
+    en: 'No PIN set yet; set one under Change password',
+  },
+  errorPinLocked: {
+    vi: 'Nhập sai quá nhiều lần, vui lòng thử lại sau',
+    en: 'Too many wrong attempts; try again later',
+  },
+  breakPaid: { vi: 'Nghỉ có lương', en: 'Paid break' },
+  breakUnpaid: { vi: 'Nghỉ không lương', en: 'Unpaid break' },
+  startPaidBreak: { vi: 'Nghỉ ngắn', en: 'Paid break' },
+  startUnpaidBreak: { vi: 'Nghỉ trưa', en: 'Unpaid break' },
+  endBreak: { vi: 'Kết thúc nghỉ', en: 'End break' },
+  onBreakSince: { vi: '{type} từ {time}', en: '{type} since {time}' },
+  breakOverLimit: { vi: 'quá giới hạn', en: 'over the limit' },
+  longBreakTitle: { vi: 'Nghỉ quá lâu', en: 'Long break' },
+  longBreakWarning: {
+    vi: 'Bạn đã nghỉ {minutes} phút, vượt giới hạn {limit} phút.',
+    en: 'Your break lasted {minutes} minutes, over the {limit}-minute limit.',
+  },
+  kioskOnBreak: { vi: 'Đang nghỉ', en: 'On break' },
+  breakPolicy: { vi: 'Quy định giờ nghỉ', en: 'Break policy' },
+  paidBreakLimit: { vi: 'Nghỉ có lương tối đa (phút)', en: 'Longest paid break (minutes)' },
+  unpaidBreakLimit: { vi: 'Nghỉ không lương tối đa (phút)', en: 'Longest unpaid break (minutes)' },
+  breakPolicyHint: {
+    vi: 'Giờ nghỉ dài hơn sẽ bị đánh dấu; đặt 0 để bỏ giới hạn.',
+    en: 'Longer breaks are flagged; 0 turns the limit off.',
+  },
+  workingHoursHint: {
+    vi: 'Tính từ giờ vào đến giờ ra ca, trừ giờ nghỉ không lương.',
+    en: 'Clock-in to clock-out, less unpaid breaks.',
+  },
+  workedHours: { vi: 'Giờ làm thực tế', en: 'Hours worked' },
+  hoursValue: { vi: '{n} giờ', en: '{n} h' },
+  attendanceTitle: { vi: 'Chấm công trong tuần', en: 'Attendance this week' },
+  attendanceEmpty: { vi: 'Chưa có ai chấm công trong tuần này', en: 'No one has clocked in this week' },
+  longBreaksInPeriod: {
+    vi: '{n} lần nghỉ vượt quy định trong kỳ này',
+    en: '{n} breaks ran over the policy this period',
+  },
+  kioskExit: { vi: 'Thoát chế độ quầy', en: 'Exit kiosk' },
+  kioskExitHint: {
+    vi: 'Nhập mật khẩu của {name} để rời chế độ chấm công.',
+    en: "Enter {name}'s password to leave the kiosk.",
+  },
+  repeatNever: { vi: 'Một lần', en: 'One time' },
+  repeatWeekly: { vi: 'Lặp lại', en: 'Repeat' },
+  repeatEveryWeeks: { vi: 'Lặp lại mỗi (tuần)', en: 'Repeat every (weeks)' },
+  repeatForCount: { vi: 'Theo số lần', en: 'For a number of visits' },
+  repeatUntilDate: { vi: 'Đến ngày', en: 'Until date' },
+  occurrenceCount: { vi: 'Số lần hẹn', en: 'Number of visits' },
+  occurrencePreview: { vi: 'Các lịch sẽ tạo ({n})', en: 'Visits to book ({n})' },
+  occurrenceClear: { vi: 'Trống', en: 'Free' },
+  seriesSkipConfirm: {
+    vi: '{skipped}/{total} lịch bị trùng hoặc ngoài giờ và sẽ được bỏ qua. Tạo các lịch còn lại?',
+    en: '{skipped} of {total} visits conflict or fall outside salon hours and will be skipped. Book the rest?',
+  },
+  seriesCreated: { vi: 'Đã tạo {n} lịch hẹn lặp lại', en: 'Booked {n} recurring appointments' },
+  seriesMember: { vi: 'Thuộc chuỗi lịch hẹn lặp lại', en: 'Part of a recurring series' },
+  seriesEditScope: { vi: 'Áp dụng thay đổi cho', en: 'Apply changes to' },
+  seriesScopeThis: { vi: 'Chỉ lịch này', en: 'This one' },
+  seriesScopeFollowing: { vi: 'Lịch này và các lịch sau', en: 'This and following' },
+  seriesCancelPrompt: {
+    vi: 'Lịch hẹn này thuộc chuỗi lặp lại. Huỷ những lịch nào?',
+    en: 'This appointment is part of a recurring series. Which visits should be cancelled?',
+  },
+  errorRecurrenceInvalid: {
+    vi: 'Vui lòng nhập số tuần hợp lệ và ít nhất 2 lần hẹn',
+    en: 'Enter a valid number of weeks and at least 2 visits',
+  },
+  errorRecurrenceNoFreeDates: {
+    vi: 'Tất cả các ngày lặp lại đều bị trùng hoặc ngoài giờ',
+    en: 'Every repeat date conflicts or falls outside salon hours',
+  },
   optional: { vi: 'Tuỳ chọn', en: 'Optional' },
   clearSelection: { vi: 'Bỏ chọn', en: 'Clear selection' },
   back: { vi: 'Quay lại', en: 'Back' },
@@ -148,6 +537,21 @@ const dictionary: Dictionary = {
   selectCustomer: { vi: 'Chọn khách hàng', en: 'Select customer' },
   selectService: { vi: 'Chọn dịch vụ', en: 'Select service' },
   assignEmployeeOptional: { vi: 'Chọn nhân viên (tuỳ chọn)', en: 'Select employee (optional)' },
+  serviceLineTitle: { vi: 'Dịch vụ {n}', en: 'Service {n}' },
+  addServiceLine: { vi: 'Thêm dịch vụ khác', en: 'Add another service' },
+  selectedServices: { vi: 'Dịch vụ đã chọn', en: 'Selected services' },
+  totalDuration: { vi: 'Tổng thời lượng', en: 'Total duration' },
+  totalPrice: { vi: 'Tổng tiền', en: 'Total price' },
+  minutesValue: { vi: '{n} phút', en: '{n} min' },
+  rosterMoveHint: {
+    vi: 'Kéo biểu tượng di chuyển để đổi ngày hoặc nhân viên, nhấn giữ để chỉnh giờ',
+    en: 'Drag the move handle to change day or employee, long-press to adjust the time',
+  },
+  adjustTime: { vi: 'Chỉnh giờ', en: 'Adjust time' },
+  moveAppointmentTitle: { vi: 'Dời lịch hẹn', en: 'Move appointment' },
+  moveRejectedTitle: { vi: 'Không thể dời lịch hẹn', en: 'Could not move appointment' },
+  undo: { vi: 'Hoàn tác', en: 'Undo' },
+  retry: { vi: 'Thử lại', en: 'Retry' },
   period: { vi: 'Kỳ', en: 'Period' },
   periodStart: { vi: 'Từ ngày', en: 'From date' },
   periodEnd: { vi: 'Đến ngày', en: 'To date' },
@@ -178,6 +582,7 @@ const dictionary: Dictionary = {
   role: { vi: 'Vai trò', en: 'Role' },
   roleEmployee: { vi: 'Nhân viên', en: 'Employee' },
   roleAdmin: { vi: 'Admin', en: 'Admin' },
+  roleReceptionist: { vi: 'Lễ tân', en: 'Receptionist' },
   active: { vi: 'Trạng thái', en: 'Active' },
   yes: { vi: 'Có', en: 'Yes' },
   no: { vi: 'Không', en: 'No' },
@@ -195,8 +600,32 @@ const dictionary: Dictionary = {
   statusCompleted: { vi: 'Hoàn thành', en: 'Completed' },
   statusCancelled: { vi: 'Đã hủy', en: 'Cancelled' },
   statusInProgress: { vi: 'Đang làm', en: 'In Progress' },
+  statusConfirmed: { vi: 'Đã xác nhận', en: 'Confirmed' },
+  statusArrived: { vi: 'Đã đến', en: 'Arrived' },
+  statusNoShow: { vi: 'Không đến', en: 'No-show' },
+  markConfirmed: { vi: 'Xác nhận', en: 'Confirm' },
+  markArrived: { vi: 'Khách đã đến', en: 'Mark arrived' },
+  markNoShow: { vi: 'Khách không đến', en: 'Mark no-show' },
+  cancelAppointment: { vi: 'Huỷ lịch hẹn', en: 'Cancel appointment' },
+  statusChangeConfirm: {
+    vi: 'Chuyển lịch hẹn sang "{status}"? Không thể hoàn tác.',
+    en: 'Change this appointment to "{status}"? This cannot be undone.',
+  },
+  appointmentDetail: { vi: 'Chi tiết lịch hẹn', en: 'Appointment details' },
+  statusHistory: { vi: 'Lịch sử trạng thái', en: 'Status history' },
+  noStatusHistory: { vi: 'Chưa có thay đổi trạng thái', en: 'No status changes yet' },
+  systemActor: { vi: 'Hệ thống', en: 'System' },
+  errorInvalidStatusTransition: {
+    vi: 'Không thể chuyển sang trạng thái này từ trạng thái hiện tại',
+    en: 'This status change is not allowed from the current status',
+  },
   selected: { vi: 'Đã chọn', en: 'Selected' },
   loginFailed: { vi: 'Đăng nhập thất bại', en: 'Login failed' },
+  sessionExpired: { vi: 'Phiên đăng nhập đã hết hạn', en: 'Session expired' },
+  sessionExpiredNotice: {
+    vi: 'Phiên đăng nhập đã hết hạn. Vui lòng đăng nhập lại.',
+    en: 'Your session has expired. Please sign in again.',
+  },
   successTitle: { vi: 'Thành công', en: 'Success' },
   createSuccess: { vi: 'Tạo thành công', en: 'Created successfully' },
   assignmentCreated: { vi: 'Đã chuyển sang giao dịch vụ', en: 'Converted to assignment' },
@@ -210,6 +639,24 @@ const dictionary: Dictionary = {
   },
   checkOutSuccess: { vi: 'Check-out thành công', en: 'Checked out successfully' },
   completeSuccess: { vi: 'Hoàn thành thành công', en: 'Completed successfully' },
+  queuedOfflineTitle: { vi: 'Đã lưu ngoại tuyến', en: 'Saved offline' },
+  queuedOfflineMessage: {
+    vi: 'Không có kết nối. Thao tác sẽ được đồng bộ khi có mạng.',
+    en: 'No connection. This action will sync when you are back online.',
+  },
+  syncPending: { vi: 'Chờ đồng bộ', en: 'Pending sync' },
+  syncInProgress: { vi: 'Đang đồng bộ', en: 'Syncing' },
+  syncFailed: { vi: 'Đồng bộ thất bại', en: 'Sync failed' },
+  syncNow: { vi: 'Đồng bộ', en: 'Sync now' },
+  discard: { vi: 'Bỏ', en: 'Discard' },
+  offlineShowingCached: {
+    vi: 'Đang ngoại tuyến – hiển thị dữ liệu lưu lúc {time}',
+    en: 'Offline – showing data saved at {time}',
+  },
+  offlinePendingActions: {
+    vi: '{count} thao tác đang chờ đồng bộ',
+    en: '{count} action(s) waiting to sync',
+  },
   changePasswordSuccess: { vi: 'Đổi mật khẩu thành công', en: 'Password changed successfully' },
   errorUsernameRequired: { vi: 'Vui lòng nhập username', en: 'Please enter username' },
   defaultPasswordHint: { vi: 'Để trống = mật khẩu mặc định', en: 'Leave blank = default password' },
@@ -231,15 +678,23 @@ const dictionary: Dictionary = {
   errorScheduleConflict: { vi: 'Lịch hẹn bị trùng giờ với lịch đã có', en: 'Appointment time conflicts with existing schedule' },
   errorAppointmentPast: { vi: 'Không thể tạo lịch hẹn trong quá khứ', en: 'Cannot create appointment in the past' },
   errorAppointmentOutsideHours: {
-    vi: 'Salon chỉ làm việc 7h–21h. Không thể đặt lịch ngoài khung giờ này.',
-    en: 'Salon hours are 7:00–21:00. Cannot book outside this window.',
+    vi: 'Giờ mở cửa ngày này: {hours}. Không thể đặt lịch ngoài khung giờ này.',
+    en: 'Salon hours that day: {hours}. Cannot book outside this window.',
+  },
+  errorOutsideSalonHours: {
+    vi: 'Thời gian này nằm ngoài giờ mở cửa của salon.',
+    en: 'This time is outside salon hours.',
+  },
+  errorAppointmentDuringBreak: {
+    vi: 'Salon nghỉ giữa ca {start}–{end}. Vui lòng chọn giờ khác.',
+    en: 'The salon is on break {start}–{end}. Please pick another time.',
   },
   errorAssignmentRequired: { vi: 'Vui lòng chọn khách hàng, dịch vụ, nhân viên và phí', en: 'Please select customer, service, employee, and fee' },
   errorScheduleRequired: { vi: 'Vui lòng chọn nhân viên và thời gian', en: 'Please select employee and time' },
   errorSchedulePast: { vi: 'Không thể tạo lịch làm việc trong quá khứ', en: 'Cannot create work schedule in the past' },
   errorScheduleOutsideHours: {
-    vi: 'Lịch làm việc phải trong khung 7h–21h.',
-    en: 'Work schedule must be within 7:00–21:00.',
+    vi: 'Lịch làm việc phải nằm trong giờ mở cửa ({hours}).',
+    en: 'Work schedule must be within salon hours ({hours}).',
   },
   errorScheduleOverlapEmployee: {
     vi: 'Nhân viên đã có ca trùng giờ. Không thể xếp thêm ca trùng.',
@@ -249,8 +704,40 @@ const dictionary: Dictionary = {
     vi: 'Giờ kết thúc phải sau giờ bắt đầu.',
     en: 'End time must be after start time.',
   },
+  salonClosedDay: { vi: 'đóng cửa', en: 'closed' },
+  salonSettingsTitle: { vi: 'Cài đặt giờ mở cửa', en: 'Salon hours settings' },
+  weeklyHours: { vi: 'Giờ mở cửa hằng tuần', en: 'Weekly hours' },
+  dayOpen: { vi: 'Mở cửa', en: 'Open' },
+  dayClosed: { vi: 'Nghỉ', en: 'Closed' },
+  openTime: { vi: 'Giờ mở (HH:mm)', en: 'Opens (HH:mm)' },
+  closeTime: { vi: 'Giờ đóng (HH:mm)', en: 'Closes (HH:mm)' },
+  breakWindow: { vi: 'Giờ nghỉ giữa ca', en: 'Break window' },
+  breakEnabled: { vi: 'Có giờ nghỉ', en: 'Has a break' },
+  breakStart: { vi: 'Bắt đầu nghỉ (HH:mm)', en: 'Break starts (HH:mm)' },
+  breakEnd: { vi: 'Kết thúc nghỉ (HH:mm)', en: 'Break ends (HH:mm)' },
+  specialDates: { vi: 'Ngày nghỉ lễ & giờ đặc biệt', en: 'Holidays & special hours' },
+  specialDate: { vi: 'Ngày (YYYY-MM-DD)', en: 'Date (YYYY-MM-DD)' },
+  specialHours: { vi: 'Giờ đặc biệt', en: 'Special hours' },
+  addSpecialDate: { vi: 'Thêm ngày', en: 'Add date' },
+  saveSettings: { vi: 'Lưu cài đặt', en: 'Save settings' },
+  errorInvalidClock: { vi: 'Giờ phải theo định dạng HH:mm', en: 'Times must use the HH:mm format' },
+  errorClockOrder: { vi: 'Giờ đóng phải sau giờ mở', en: 'Closing time must be after opening time' },
+  errorInvalidDate: { vi: 'Ngày phải theo định dạng YYYY-MM-DD', en: 'Dates must use the YYYY-MM-DD format' },
   errorPasswordRequired: { vi: 'Vui lòng nhập đầy đủ mật khẩu', en: 'Please enter all password fields' },
   errorPasswordMismatch: { vi: 'Mật khẩu xác nhận không khớp', en: 'Password confirmation does not match' },
+  errorGeneric: { vi: 'Đã có lỗi xảy ra. Vui lòng thử lại.', en: 'Something went wrong. Please try again.' },
+  errorNetwork: {
+    vi: 'Không thể kết nối máy chủ. Kiểm tra kết nối mạng.',
+    en: 'Cannot reach the server. Check your connection.',
+  },
+  errorServer: { vi: 'Máy chủ đang gặp sự cố. Vui lòng thử lại sau.', en: 'Server error. Please try again later.' },
+  errorValidation: { vi: 'Dữ liệu không hợp lệ. Vui lòng kiểm tra lại.', en: 'Some fields are invalid. Please check and try again.' },
+  errorUnauthorized: { vi: 'Bạn cần đăng nhập lại.', en: 'Please sign in again.' },
+  errorForbidden: { vi: 'Bạn không có quyền thực hiện thao tác này.', en: 'You do not have permission to do this.' },
+  errorNotFound: { vi: 'Không tìm thấy dữ liệu.', en: 'The requested item was not found.' },
+  errorConflict: { vi: 'Dữ liệu bị trùng hoặc đã thay đổi.', en: 'This conflicts with existing data.' },
+  errorInvalidPassword: { vi: 'Mật khẩu hiện tại không đúng', en: 'Current password is incorrect' },
+  errorUsernameTaken: { vi: 'Tên đăng nhập đã tồn tại', en: 'Username is already taken' },
   customerFallback: { vi: 'Khách', en: 'Customer' },
   serviceFallback: { vi: 'Dịch vụ', en: 'Service' },
   employeeFallback: { vi: 'Nhân viên', en: 'Employee' },
@@ -0,0 +1,234 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from '@/context/auth-context';
+import { ApiError } from '@/lib/api';
+import { appointmentsApi, assignmentsApi, workSchedulesApi } from '@/lib/resources';
+
+/** Employee actions that may be recorded offline and replayed later, in order. */
+const performers = {
+  'workSchedule.checkIn': workSchedulesApi.checkIn,
+  'workSchedule.checkOut': workSchedulesApi.checkOut,
+  'workSchedule.startPaidBreak': (id: string, token: string | null) =>
+    workSchedulesApi.startBreak(id, 'paid', token),
+  'workSchedule.startUnpaidBreak': (id: string, token: string | null) =>
+    workSchedulesApi.startBreak(id, 'unpaid', token),
+  'workSchedule.endBreak': workSchedulesApi.endBreak,
+  'assignment.checkIn': assignmentsApi.checkIn,
+  'assignment.complete': assignmentsApi.complete,
+  'appointment.start': appointmentsApi.start,
+  'appointment.noShow': (id: string, token: string | null) =>
+    appointmentsApi.updateStatus(id, 'no_show', token),
+} satisfies Record<string, (id: string, token: string | null) => Promise<unknown>>;
+
+export type OutboxActionKind = keyof typeof performers;
+
+export type OutboxStatus = 'pending' | 'syncing' | 'failed';
+
+export type OutboxEntry = {
+  id: string;
+  kind: OutboxActionKind;
+  targetId: string;
+  createdAt: string;
+  status: OutboxStatus;
+  errorCode?: string;
+};
+
+type SubmitResult<K extends OutboxActionKind> =
+  | { queued: true }
+  | { queued: false; result: Awaited<ReturnType<(typeof performers)[K]>> };
+
+type OutboxContextValue = {
+  entries: OutboxEntry[];
+  entriesByTarget: Map<string, OutboxEntry[]>;
+  /** Bumped after queued actions reach the server so screens can reload. */
+  lastSyncedAt: number;
+  submit: <K extends OutboxActionKind>(kind: K, targetId: string) => Promise<SubmitResult<K>>;
+  flush: () => Promise<void>;
+  discard: (id: string) => Promise<void>;
+};
+
+const OutboxContext = createContext<OutboxContextValue | undefined>(undefined);
+
+const OUTBOX_KEY_PREFIX = 'outbox:';
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+const isOffline = (err: unknown) => err instanceof ApiError && err.status === 0;
+
+export function OutboxProvider({ children }: { children: React.ReactNode }) {
+  const { user, token } = useAuth();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [lastSyncedAt, setLastSyncedAt] = useState(0);
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const flushingRef = useRef(false);
+  const flushAgainRef = useRef(false);
+  const storageKey = user ? `${OUTBOX_KEY_PREFIX}${user.id}` : null;
+
+  const persist = useCallback(
+    async (next: OutboxEntry[]) => {
+      entriesRef.current = next;
+      setEntries(next);
+      if (!storageKey) return;
+      await AsyncStorage.setItem(storageKey, JSON.stringify(next));
+    },
+    [storageKey],
+  );
+
+  const flush = useCallback(async () => {
+    if (!token) return;
+    if (flushingRef.current) {
+      // Picked up by the running pass once it reaches the end of its list.
+      flushAgainRef.current = true;
+      return;
+    }
+    flushingRef.current = true;
+    let synced = false;
+    let offline = false;
+    try {
+      do {
+        flushAgainRef.current = false;
+        // Once an action fails, later ones for the same target would act on the wrong state.
+        const blockedTargets = new Set(
+          entriesRef.current.filter((item) => item.status === 'failed').map((item) => item.targetId),
+        );
+        for (const entry of entriesRef.current) {
+          if (entry.status === 'failed') continue;
+          if (blockedTargets.has(entry.targetId)) {
+            await persist(
+              entriesRef.current.map((item) =>
+                item.id === entry.id ? { ...item, status: 'failed' } : item,
+              ),
+            );
+            continue;
+          }
+          await persist(
+            entriesRef.current.map((item) =>
+              item.id === entry.id ? { ...item, status: 'syncing' } : item,
+            ),
+          );
+          try {
+            await performers[entry.kind](entry.targetId, token);
+            await persist(entriesRef.current.filter((item) => item.id !== entry.id));
+            synced = true;
+          } catch (err) {
+            if (isOffline(err)) {
+              // Still offline: keep this and everything after it for the next attempt.
+              await persist(
+                entriesRef.current.map((item) =>
+                  item.id === entry.id ? { ...item, status: 'pending' } : item,
+                ),
+              );
+              offline = true;
+              break;
+            }
+            const errorCode = err instanceof ApiError ? err.code : undefined;
+            blockedTargets.add(entry.targetId);
+            await persist(
+              entriesRef.current.map((item) =>
+                item.id === entry.id ? { ...item, status: 'failed', errorCode } : item,
+              ),
+            );
+          }
+        }
+      } while (flushAgainRef.current && !offline);
+    } finally {
+      flushingRef.current = false;
+      flushAgainRef.current = false;
+      if (synced) setLastSyncedAt(Date.now());
+    }
+  }, [persist, token]);
+
+  useEffect(() => {
+    entriesRef.current = [];
+    setEntries([]);
+    if (!storageKey) return;
+    let cancelled = false;
+    AsyncStorage.getItem(storageKey).then((raw) => {
+      if (cancelled || !raw) return;
+      // An app kill mid-sync leaves entries in 'syncing'; they are replayed again.
+      const stored = (JSON.parse(raw) as OutboxEntry[]).map((item) =>
+        item.status === 'syncing' ? { ...item, status: 'pending' as const } : item,
+      );
+      entriesRef.current = stored;
+      setEntries(stored);
+      flush();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [flush, storageKey]);
+
+  const hasPending = entries.some((item) => item.status !== 'failed');
+
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setInterval(flush, RETRY_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') flush();
+    });
+    return () => {
+      clearInterval(timer);
+      subscription.remove();
+    };
+  }, [flush, hasPending]);
+
+  const submit = useCallback(
+    async <K extends OutboxActionKind>(kind: K, targetId: string): Promise<SubmitResult<K>> => {
+      const queuedAhead = entriesRef.current.some((item) => item.status !== 'failed');
+      if (!queuedAhead) {
+        try {
+          const perform = performers[kind] as (id: string, token: string | null) => Promise<
+            Awaited<ReturnType<(typeof performers)[K]>>
+          >;
+          return { queued: false, result: await perform(targetId, token) };
+        } catch (err) {
+          if (!isOffline(err)) throw err;
+        }
+      }
+      const entry: OutboxEntry = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        kind,
+        targetId,
+        createdAt: new Date().toISOString(),
+        status: 'pending',
+      };
+      await persist([...entriesRef.current, entry]);
+      // Kick off a pass right away; an offline one just leaves the entry pending.
+      flush();
+      return { queued: true };
+    },
+    [flush, persist, token],
+  );
+
+  const discard = useCallback(
+    async (id: string) => {
+      await persist(entriesRef.current.filter((item) => item.id !== id));
+    },
+    [persist],
+  );
+
+  const entriesByTarget = useMemo(() => {
+    const map = new Map<string, OutboxEntry[]>();
+    entries.forEach((item) => {
+      const list = map.get(item.targetId) ?? [];
+      list.push(item);
+      map.set(item.targetId, list);
+    });
+    return map;
+  }, [entries]);
+
+  const value = useMemo(
+    () => ({ entries, entriesByTarget, lastSyncedAt, submit, flush, discard }),
+    [entries, entriesByTarget, lastSyncedAt, submit, flush, discard],
+  );
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>;
+}
+
+export function useOutbox() {
+  const ctx = useContext(OutboxContext);
+  if (!ctx) {
+    throw new Error('useOutbox must be used within OutboxProvider');
+  }
+  return ctx;
+}
@@ -0,0 +1,67 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_SALON_HOURS } from '@/constants/salon-hours';
+import { useAuth } from '@/context/auth-context';
+import type { SalonHours } from '@/lib/domain';
+import { readCache, writeCache } from '@/lib/offline-cache';
+import { settingsApi } from '@/lib/resources';
+
+type SalonHoursContextValue = {
+  hours: SalonHours;
+  loading: boolean;
+  save: (next: SalonHours) => Promise<void>;
+  reload: () => Promise<void>;
+};
+
+const SalonHoursContext = createContext<SalonHoursContextValue | undefined>(undefined);
+
+const CACHE_KEY = 'settings/salon-hours';
+
+export function SalonHoursProvider({ children }: { children: React.ReactNode }) {
+  const { token } = useAuth();
+  const [hours, setHours] = useState<SalonHours>(DEFAULT_SALON_HOURS);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const fresh = await settingsApi.salonHours();
+      setHours(fresh);
+      await writeCache(CACHE_KEY, fresh);
+    } catch {
+      // Keep the cached or default hours; validation still works offline.
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const cached = await readCache<SalonHours>(CACHE_KEY);
+        if (cached) setHours(cached.data);
+        await reload();
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [reload]);
+
+  const save = useCallback(
+    async (next: SalonHours) => {
+      const saved = await settingsApi.updateSalonHours(next, token);
+      setHours(saved);
+      await writeCache(CACHE_KEY, saved);
+    },
+    [token],
+  );
+
+  const value = useMemo(() => ({ hours, loading, save, reload }), [hours, loading, save, reload]);
+
+  return <SalonHoursContext.Provider value={value}>{children}</SalonHoursContext.Provider>;
+}
+
+export function useSalonHours() {
+  const ctx = useContext(SalonHoursContext);
+  if (!ctx) {
+    throw new Error('useSalonHours must be used within SalonHoursProvider');
+  }
+  return ctx;
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { readCache, writeCache } from '@/lib/offline-cache';
+
+type CachedResource<T> = {
+  data: T | undefined;
+  error: unknown;
+  /** True while the rendered data comes from the cache because the last fetch failed. */
+  stale: boolean;
+  savedAt: string | null;
+  reload: () => Promise<void>;
+};
+
+/**
+ * Stale-while-revalidate loader: renders the cached copy for `key` immediately,
+ * then replaces it with fresh data from `fetcher`. Pass a null key to wait.
+ */
+export function useCachedResource<T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+): CachedResource<T> {
+  const [data, setData] = useState<T | undefined>(undefined);
+  const [error, setError] = useState<unknown>(null);
+  const [stale, setStale] = useState(false);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const revalidate = useCallback(async () => {
+    if (!key) return;
+    try {
+      const fresh = await fetcherRef.current();
+      const entry = await writeCache(key, fresh);
+      setData(fresh);
+      setSavedAt(entry.savedAt);
+      setStale(false);
+      setError(null);
+    } catch (err) {
+      setStale(true);
+      setError(err);
+    }
+  }, [key]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(undefined);
+    setSavedAt(null);
+    setStale(false);
+    setError(null);
+    if (!key) return;
+    readCache<T>(key).then((cached) => {
+      if (cancelled) return;
+      if (cached) {
+        setData((current) => current ?? cached.data);
+        setSavedAt((current) => current ?? cached.savedAt);
+      }
+    });
+    revalidate();
+    return () => {
+      cancelled = true;
+    };
+  }, [key, revalidate]);
+
+  return { data, error, stale, savedAt, reload: revalidate };
+}
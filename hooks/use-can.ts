@@ -0,0 +1,10 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/context/auth-context';
+import type { Capability } from '@/lib/domain';
+import { can } from '@/lib/permissions';
+
+/** `can()` bound to the signed-in user. */
+export function useCan() {
+  const { user } = useAuth();
+  return useCallback((capability: Capability) => can(user, capability), [user]);
+}
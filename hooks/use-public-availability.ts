@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { PublicAvailability } from '@/lib/domain';
+import { availabilityApi } from '@/lib/resources';
+
+/** How many days ahead the public slot finder offers. */
+export const BOOKING_DAYS = 14;
+
+/** Loads shifts and taken times for the public booking window. */
+export function usePublicAvailability() {
+  const [availability, setAvailability] = useState<PublicAvailability | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const reload = useCallback(async () => {
+    const now = new Date();
+    const from = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + BOOKING_DAYS);
+    setLoading(true);
+    try {
+      setAvailability(await availabilityApi.listPublic(from.toISOString(), to.toISOString()));
+      setError(null);
+    } catch (err) {
+      setError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { availability, loading, error, reload };
+}
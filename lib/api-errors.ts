@@ -0,0 +1,52 @@
+import { ApiError, errorCodeForStatus } from '@/lib/api';
+
+/** Known server error codes and the i18n dictionary key shown for each. */
+const ERROR_CODE_KEYS: Record<string, string> = {
+  NETWORK_ERROR: 'errorNetwork',
+  SERVER_ERROR: 'errorServer',
+  REQUEST_FAILED: 'errorGeneric',
+  VALIDATION_FAILED: 'errorValidation',
+  UNAUTHORIZED: 'errorUnauthorized',
+  SESSION_EXPIRED: 'sessionExpired',
+  FORBIDDEN: 'errorForbidden',
+  NOT_FOUND: 'errorNotFound',
+  CONFLICT: 'errorConflict',
+  INVALID_CREDENTIALS: 'loginFailed',
+  INVALID_PASSWORD: 'errorInvalidPassword',
+  USERNAME_TAKEN: 'errorUsernameTaken',
+  APPOINTMENT_CONFLICT: 'errorScheduleConflict',
+  APPOINTMENT_IN_PAST: 'errorAppointmentPast',
+  APPOINTMENT_COMPLETED: 'errorAppointmentCompleted',
+  INVALID_STATUS_TRANSITION: 'errorInvalidStatusTransition',
+  OUTSIDE_SALON_HOURS: 'errorOutsideSalonHours',
+  SCHEDULE_OVERLAP: 'errorScheduleOverlapEmployee',
+  SCHEDULE_IN_PAST: 'errorSchedulePast',
+  PAYROLL_EXISTS: 'errorPayrollExistsThisMonth',
+  BOOKING_NOT_FOUND: 'errorBookingNotFound',
+  BOOKING_CHANGE_CUTOFF: 'errorBookingCutoff',
+  BOOKING_APPROVAL_REQUIRED: 'errorBookingApprovalRequired',
+  EMPLOYEE_NOT_QUALIFIED: 'errorEmployeeNotQualified',
+  OUTSIDE_EMPLOYEE_SHIFT: 'errorOutsideShift',
+  EMPLOYEE_ON_LEAVE: 'errorEmployeeOnLeave',
+  INVALID_PIN: 'errorInvalidPin',
+  PIN_NOT_SET: 'errorPinNotSet',
+  PIN_LOCKED: 'errorPinLocked',
+};
+
+export function getErrorMessageKey(err: unknown): string {
+  if (err instanceof ApiError) {
+    return ERROR_CODE_KEYS[err.code] ?? ERROR_CODE_KEYS[errorCodeForStatus(err.status)] ?? 'errorGeneric';
+  }
+  return 'errorGeneric';
+}
+
+/** Localized, user-facing message for any error thrown by the API layer. */
+export function getErrorMessage(err: unknown, t: (key: string) => string): string {
+  return t(getErrorMessageKey(err));
+}
+
+/** Field-level validation messages, keyed by request body property. */
+export function getFieldErrors(err: unknown) {
+  return err instanceof ApiError ? err.fieldErrors : {};
+}
+
@@ -1,31 +1,163 @@
+import type { AuthUser } from '@/lib/domain';
+
 const API_URL = process.env.EXPO_PUBLIC_API_URL ?? 'http://localhost:3000';
 
-type RequestOptions = RequestInit & { token?: string | null };
+type RequestOptions = RequestInit & { token?: string | null; skipRefresh?: boolean };
+
+export type AuthTokens = { accessToken: string; refreshToken?: string };
+
+/** Hooks the session owner (AuthProvider) installs so the request layer can renew tokens. */
+export type SessionHandlers = {
+  getAccessToken: () => string | null;
+  /** Resolves the new access token, or null when the session cannot be renewed. */
+  refresh: () => Promise<string | null>;
+  onExpired: () => void;
+};
+
+let sessionHandlers: SessionHandlers | null = null;
+let refreshInFlight: Promise<string | null> | null = null;
+
+export function setSessionHandlers(handlers: SessionHandlers | null) {
+  sessionHandlers = handlers;
+}
+
+// Concurrent 401s share one refresh call so the refresh token is only spent once.
+const refreshAccessToken = (handlers: SessionHandlers) => {
+  if (!refreshInFlight) {
+    refreshInFlight = handlers
+      .refresh()
+      .catch(() => null)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+};
+
+/** Field name -> server message, as reported by validation failures. */
+export type FieldErrors = Record<string, string>;
+
+/** Error thrown for every failed request. `status` is 0 when the server was unreachable. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly fieldErrors: FieldErrors;
+
+  constructor(status: number, code: string, message: string, fieldErrors: FieldErrors = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export function errorCodeForStatus(status: number): string {
+  switch (status) {
+    case 0:
+      return 'NETWORK_ERROR';
+    case 400:
+    case 422:
+      return 'VALIDATION_FAILED';
+    case 401:
+      return 'UNAUTHORIZED';
+    case 403:
+      return 'FORBIDDEN';
+    case 404:
+      return 'NOT_FOUND';
+    case 409:
+      return 'CONFLICT';
+    default:
+      return status >= 500 ? 'SERVER_ERROR' : 'REQUEST_FAILED';
+  }
+}
+
+/**
+ * Accepts `{ code, message, errors }` bodies as well as the framework default
+ * `{ statusCode, message: string | string[], error }`.
+ */
+const parseErrorBody = (status: number, text: string): ApiError => {
+  let body: { code?: unknown; message?: unknown; errors?: unknown } | null = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = null;
+  }
+  const fieldErrors: FieldErrors = {};
+  if (body?.errors && typeof body.errors === 'object' && !Array.isArray(body.errors)) {
+    Object.entries(body.errors as Record<string, unknown>).forEach(([field, value]) => {
+      fieldErrors[field] = Array.isArray(value) ? String(value[0] ?? '') : String(value);
+    });
+  }
+  if (Array.isArray(body?.message)) {
+    // Class-validator style messages start with the offending property name.
+    body.message.forEach((entry) => {
+      const text = String(entry);
+      const field = text.split(' ')[0];
+      if (field && !fieldErrors[field]) fieldErrors[field] = text;
+    });
+  }
+  const message = Array.isArray(body?.message)
+    ? body.message.join('\n')
+    : typeof body?.message === 'string'
+    ? body.message
+    : text || 'Request failed';
+  const code =
+    typeof body?.code === 'string' && body.code
+      ? body.code
+      : Object.keys(fieldErrors).length > 0
+      ? 'VALIDATION_FAILED'
+      : errorCodeForStatus(status);
+  return new ApiError(status, code, message, fieldErrors);
+};
 
 async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
-  const { token, headers, ...rest } = options;
-  const response = await fetch(`${API_URL}${path}`, {
-    ...rest,
-    headers: {
-      'Content-Type': 'application/json',
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      ...(headers ?? {}),
-    },
-  });
+  const { token, skipRefresh, headers, ...rest } = options;
+  let response: Response;
+  try {
+    response = await fetch(`${API_URL}${path}`, {
+      ...rest,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(headers ?? {}),
+      },
+    });
+  } catch (err) {
+    throw new ApiError(0, 'NETWORK_ERROR', (err as Error).message || 'Network request failed');
+  }
+  if (response.status === 401 && token && !skipRefresh && sessionHandlers) {
+    const handlers = sessionHandlers;
+    // Another request may already have renewed the session; replay with that token first.
+    const latest = handlers.getAccessToken();
+    const nextToken = latest && latest !== token ? latest : await refreshAccessToken(handlers);
+    if (nextToken) {
+      return apiRequest<T>(path, { ...options, token: nextToken, skipRefresh: true });
+    }
+    handlers.onExpired();
+    throw new ApiError(401, 'SESSION_EXPIRED', 'Session expired');
+  }
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(errorText || 'Request failed');
+    throw parseErrorBody(response.status, errorText);
   }
   return response.json() as Promise<T>;
 }
 
 export function apiLogin(username: string, password: string) {
-  return apiRequest<{ accessToken: string; user: any }>('/auth/login', {
+  return apiRequest<AuthTokens & { user: AuthUser }>('/auth/login', {
     method: 'POST',
     body: JSON.stringify({ username, password }),
   });
 }
 
+export function apiRefresh(refreshToken: string) {
+  return apiRequest<AuthTokens>('/auth/refresh', {
+    method: 'POST',
+    body: JSON.stringify({ refreshToken }),
+  });
+}
+
 export function apiPublicGet<T>(path: string) {
   return apiRequest<T>(path);
 }
@@ -0,0 +1,122 @@
+import type { AppointmentServiceLine, EmployeeRef, ServiceRef } from '@/lib/domain';
+import { MINUTE_MS } from '@/lib/time-off';
+
+/** Duration assumed for services saved without one. */
+export const DEFAULT_SERVICE_MINUTES = 60;
+
+/**
+ * Time a technician spends on their part of an appointment. `busyStart` and
+ * `busyEnd` widen it by the prep and cleanup buffers they also need.
+ */
+export type ServiceSegment = {
+  employeeId?: string;
+  start: Date;
+  end: Date;
+  busyStart: Date;
+  busyEnd: Date;
+};
+
+type LineSource = {
+  service?: ServiceRef;
+  assignedEmployee?: EmployeeRef;
+  services?: AppointmentServiceLine[];
+};
+
+export const getServiceMinutes = (service?: ServiceRef) =>
+  service?.durationMinutes && service.durationMinutes > 0
+    ? service.durationMinutes
+    : DEFAULT_SERVICE_MINUTES;
+
+export const getPrepMinutes = (service?: ServiceRef) => Math.max(service?.prepMinutes ?? 0, 0);
+
+export const getCleanupMinutes = (service?: ServiceRef) =>
+  Math.max(service?.cleanupMinutes ?? 0, 0);
+
+/** Prep before the first service and cleanup after the last one of a visit. */
+export const getVisitBuffers = (lines: AppointmentServiceLine[]) => ({
+  prepMinutes: getPrepMinutes(lines[0]?.service),
+  cleanupMinutes: getCleanupMinutes(lines[lines.length - 1]?.service),
+});
+
+/** Ordered services of an appointment; single-service records become one line. */
+export const getServiceLines = (item: LineSource): AppointmentServiceLine[] =>
+  item.services?.length
+    ? item.services
+    : [{ service: item.service, assignedEmployee: item.assignedEmployee }];
+
+export const getTotalMinutes = (lines: AppointmentServiceLine[]) =>
+  lines.reduce((sum, line) => sum + getServiceMinutes(line.service), 0);
+
+export const getTotalPrice = (lines: AppointmentServiceLine[]) =>
+  lines.reduce((sum, line) => sum + (line.service?.price ?? 0), 0);
+
+/** Ids of every technician working on the appointment, in service order. */
+export const getLineEmployeeIds = (lines: AppointmentServiceLine[]) =>
+  Array.from(
+    new Set(
+      lines
+        .map((line) => line.assignedEmployee?._id)
+        .filter((id): id is string => Boolean(id)),
+    ),
+  );
+
+/**
+ * Services run back to back, so each technician is only busy for their own
+ * part. Consecutive services by the same technician merge into one segment,
+ * which keeps the prep of its first service and the cleanup of its last.
+ */
+export function getServiceSegments(
+  scheduledAt: string | Date,
+  lines: AppointmentServiceLine[],
+): ServiceSegment[] {
+  const segments: ServiceSegment[] = [];
+  let cursor = new Date(scheduledAt).getTime();
+  lines.forEach((line) => {
+    const end = cursor + getServiceMinutes(line.service) * MINUTE_MS;
+    const employeeId = line.assignedEmployee?._id;
+    const previous = segments[segments.length - 1];
+    const busyEnd = new Date(end + getCleanupMinutes(line.service) * MINUTE_MS);
+    if (previous && previous.employeeId === employeeId) {
+      previous.end = new Date(end);
+      previous.busyEnd = busyEnd;
+    } else {
+      segments.push({
+        employeeId,
+        start: new Date(cursor),
+        end: new Date(end),
+        busyStart: new Date(cursor - getPrepMinutes(line.service) * MINUTE_MS),
+        busyEnd,
+      });
+    }
+    cursor = end;
+  });
+  return segments;
+}
+
+/** True when any technician would work two overlapping segments, buffers included. */
+export const segmentsConflict = (left: ServiceSegment[], right: ServiceSegment[]) =>
+  left.some(
+    (a) =>
+      Boolean(a.employeeId) &&
+      right.some(
+        (b) =>
+          b.employeeId === a.employeeId && a.busyStart < b.busyEnd && a.busyEnd > b.busyStart,
+      ),
+  );
+
+export const formatServiceNames = (
+  lines: AppointmentServiceLine[],
+  locale: string,
+  fallback: string,
+) =>
+  lines
+    .map((line) =>
+      locale === 'en'
+        ? line.service?.nameEn ?? line.service?.name ?? fallback
+        : line.service?.name ?? line.service?.nameEn ?? fallback,
+    )
+    .join(' + ');
+
+/** True when at least one service still has no technician. */
+export const hasUnassignedLines = (lines: AppointmentServiceLine[]) =>
+  lines.some((line) => !line.assignedEmployee?._id);
@@ -0,0 +1,59 @@
+import { Palette } from '@/constants/theme';
+import type { AppointmentStatus, AssignmentStatus } from '@/lib/domain';
+
+/** Statuses each appointment status may move to; terminal statuses map to none. */
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  scheduled: ['confirmed', 'assigned', 'arrived', 'in_progress', 'cancelled', 'no_show'],
+  confirmed: ['assigned', 'arrived', 'in_progress', 'cancelled', 'no_show'],
+  assigned: ['confirmed', 'arrived', 'in_progress', 'cancelled', 'no_show'],
+  arrived: ['in_progress', 'cancelled'],
+  in_progress: ['completed'],
+  completed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+export const ASSIGNMENT_TRANSITIONS: Record<AssignmentStatus, AssignmentStatus[]> = {
+  scheduled: ['in_progress', 'cancelled'],
+  in_progress: ['completed'],
+  completed: [],
+  cancelled: [],
+};
+
+const STATUS_LABEL_KEYS: Record<AppointmentStatus, string> = {
+  scheduled: 'statusScheduled',
+  confirmed: 'statusConfirmed',
+  assigned: 'statusAssigned',
+  arrived: 'statusArrived',
+  in_progress: 'statusInProgress',
+  completed: 'statusCompleted',
+  cancelled: 'statusCancelled',
+  no_show: 'statusNoShow',
+};
+
+export const STATUS_COLORS: Record<AppointmentStatus, string> = {
+  scheduled: Palette.accentBlue,
+  confirmed: Palette.accentPurple,
+  assigned: Palette.accentTeal,
+  arrived: Palette.accentPink,
+  in_progress: Palette.accentOrange,
+  completed: Palette.accentGreen,
+  cancelled: Palette.mutedText,
+  no_show: Palette.danger,
+};
+
+export const canTransition = (from: AppointmentStatus, to: AppointmentStatus) =>
+  APPOINTMENT_TRANSITIONS[from]?.includes(to) ?? false;
+
+export const canTransitionAssignment = (from: AssignmentStatus, to: AssignmentStatus) =>
+  ASSIGNMENT_TRANSITIONS[from]?.includes(to) ?? false;
+
+/** Completed, cancelled and no-show visits no longer hold a technician's time. */
+export const isTerminalStatus = (status: AppointmentStatus) =>
+  (APPOINTMENT_TRANSITIONS[status]?.length ?? 0) === 0;
+
+/** Localized label for appointment and assignment statuses alike. */
+export const getStatusLabel = (status: string | undefined, t: (key: string) => string) => {
+  const key = STATUS_LABEL_KEYS[(status ?? '').toLowerCase() as AppointmentStatus];
+  return key ? t(key) : status ?? t('notAvailable');
+};
@@ -0,0 +1,82 @@
+import {
+  getServiceLines,
+  getServiceSegments,
+  segmentsConflict,
+} from '@/lib/appointment-services';
+import { isTerminalStatus } from '@/lib/appointment-status';
+import type { Appointment, Employee, SkillLevel, TimeOffRequest, WorkSchedule } from '@/lib/domain';
+import { findShiftGaps } from '@/lib/shift-coverage';
+import { canPerform, getSkillLevel, SKILL_LEVELS } from '@/lib/skills';
+import { findLeaveConflict, isSameDay } from '@/lib/time-off';
+
+/** A technician who could take the unassigned services of an appointment. */
+export type AssignSuggestion = {
+  employee: Employee;
+  /** No clashing booking or leave, and inside one of their shifts. */
+  available: boolean;
+  /** Lowest recorded level across the services; null when no skills are recorded. */
+  level: SkillLevel | null;
+  /** Minutes already booked for them that day. */
+  bookedMinutes: number;
+};
+
+const levelRank = (level: SkillLevel | null) =>
+  level ? SKILL_LEVELS.indexOf(level) : SKILL_LEVELS.indexOf('standard');
+
+/**
+ * Technicians able to do every unassigned service, best first: free and on shift
+ * before busy, then the stronger skill match, then the lighter day.
+ */
+export function rankAssignSuggestions(
+  appointment: Appointment,
+  employees: Employee[],
+  appointments: Appointment[],
+  schedules: WorkSchedule[],
+  timeOff: TimeOffRequest[] = [],
+): AssignSuggestion[] {
+  const lines = getServiceLines(appointment);
+  const openServiceIds = lines
+    .filter((line) => !line.assignedEmployee?._id)
+    .map((line) => line.service?._id);
+  const day = new Date(appointment.scheduledAt);
+  const others = appointments.filter(
+    (item) =>
+      item._id !== appointment._id &&
+      !isTerminalStatus(item.status) &&
+      isSameDay(new Date(item.scheduledAt), day),
+  );
+  const otherSegments = others.flatMap((item) =>
+    getServiceSegments(item.scheduledAt, getServiceLines(item)),
+  );
+
+  return employees
+    .filter((employee) => canPerform(employee, openServiceIds))
+    .map((employee) => {
+      const assigned = lines.map((line) =>
+        line.assignedEmployee?._id ? line : { ...line, assignedEmployee: employee },
+      );
+      const segments = getServiceSegments(appointment.scheduledAt, assigned).filter(
+        (segment) => segment.employeeId === employee._id,
+      );
+      const available =
+        !segmentsConflict(segments, otherSegments) &&
+        !segments.some((segment) =>
+          findLeaveConflict(timeOff, employee._id, segment.busyStart, segment.busyEnd),
+        ) &&
+        findShiftGaps(segments, schedules).length === 0;
+      const levels = openServiceIds.map((id) => getSkillLevel(employee, id));
+      const level = levels.includes(null)
+        ? null
+        : [...(levels as SkillLevel[])].sort((x, y) => levelRank(x) - levelRank(y))[0] ?? null;
+      const bookedMinutes = otherSegments
+        .filter((segment) => segment.employeeId === employee._id)
+        .reduce((sum, segment) => sum + (segment.end.getTime() - segment.start.getTime()) / 60000, 0);
+      return { employee, available, level, bookedMinutes };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.available) - Number(a.available) ||
+        levelRank(b.level) - levelRank(a.level) ||
+        a.bookedMinutes - b.bookedMinutes,
+    );
+}
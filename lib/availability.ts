@@ -0,0 +1,105 @@
+import { getSalonHoursForDate, isWithinSalonHoursForAppointment, parseClock } from '@/constants/salon-hours';
+import type { BusyBlock, PublicShift, SalonHours } from '@/lib/domain';
+import { MINUTE_MS } from '@/lib/time-off';
+
+/** Bookable start time and the technicians free for the whole service. */
+export type OpenSlot = { start: Date; employeeIds: string[] };
+
+type SlotQuery = {
+  day: Date;
+  durationMinutes: number;
+  /** Buffers the technician needs around the booking, on shift and free of other bookings. */
+  prepMinutes?: number;
+  cleanupMinutes?: number;
+  shifts: PublicShift[];
+  busy: BusyBlock[];
+  salonHours: SalonHours;
+  /** Only offer times when this technician is free. */
+  employeeId?: string | null;
+  /** Technicians able to perform the services; null lets every technician count. */
+  eligibleEmployeeIds?: string[] | null;
+  stepMinutes?: number;
+  now?: Date;
+};
+
+const overlaps = (startA: number, endA: number, startB: number, endB: number) =>
+  startA < endB && endA > startB;
+
+const atClock = (day: Date, clock: string) => {
+  const minutes = parseClock(clock);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes, 0, 0);
+};
+
+/**
+ * Start times on `day` where a technician works a shift covering the whole
+ * service plus its buffers and has no other booking. Bookings without a technician still take
+ * one free technician, so they reduce capacity when no technician is chosen.
+ */
+export function findOpenSlots({
+  day,
+  durationMinutes,
+  prepMinutes = 0,
+  cleanupMinutes = 0,
+  shifts,
+  busy,
+  salonHours,
+  employeeId,
+  eligibleEmployeeIds,
+  stepMinutes = 30,
+  now = new Date(),
+}: SlotQuery): OpenSlot[] {
+  const window = getSalonHoursForDate(day, salonHours);
+  if (!window) return [];
+  const open = atClock(day, window.start).getTime();
+  const close = atClock(day, window.end).getTime();
+  const duration = Math.max(durationMinutes, 1) * MINUTE_MS;
+  const prep = Math.max(prepMinutes, 0) * MINUTE_MS;
+  const cleanup = Math.max(cleanupMinutes, 0) * MINUTE_MS;
+  const breakStart = salonHours.breakWindow ? atClock(day, salonHours.breakWindow.start).getTime() : null;
+  const breakEnd = salonHours.breakWindow ? atClock(day, salonHours.breakWindow.end).getTime() : null;
+
+  const parsedShifts = shifts
+    .filter((item) => !employeeId || item.employeeId === employeeId)
+    .filter((item) => !eligibleEmployeeIds || eligibleEmployeeIds.includes(item.employeeId))
+    .map((item) => ({
+      employeeId: item.employeeId,
+      start: new Date(item.startAt).getTime(),
+      end: new Date(item.endAt).getTime(),
+    }));
+  const parsedBusy = busy.map((item) => ({
+    employeeId: item.employeeId,
+    start: new Date(item.startAt).getTime() - Math.max(item.prepMinutes ?? 0, 0) * MINUTE_MS,
+    end: new Date(item.endAt).getTime() + Math.max(item.cleanupMinutes ?? 0, 0) * MINUTE_MS,
+  }));
+
+  const slots: OpenSlot[] = [];
+  for (let start = open; start + duration <= close; start += stepMinutes * MINUTE_MS) {
+    const end = start + duration;
+    if (start <= now.getTime()) continue;
+    if (!isWithinSalonHoursForAppointment(new Date(start), salonHours)) continue;
+    if (breakStart !== null && breakEnd !== null && overlaps(start, end, breakStart, breakEnd)) {
+      continue;
+    }
+    const busyStart = start - prep;
+    const busyEnd = end + cleanup;
+    const free = new Set<string>();
+    parsedShifts.forEach((shift) => {
+      if (shift.start > busyStart || shift.end < busyEnd) return;
+      const taken = parsedBusy.some(
+        (block) =>
+          block.employeeId === shift.employeeId &&
+          overlaps(busyStart, busyEnd, block.start, block.end),
+      );
+      if (!taken) free.add(shift.employeeId);
+    });
+    const unassigned = employeeId
+      ? 0
+      : parsedBusy.filter(
+          (block) => !block.employeeId && overlaps(busyStart, busyEnd, block.start, block.end),
+        ).length;
+    if (free.size > unassigned) {
+      slots.push({ start: new Date(start), employeeIds: Array.from(free) });
+    }
+  }
+  return slots;
+}
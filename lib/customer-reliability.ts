@@ -0,0 +1,15 @@
+import type { Customer } from '@/lib/domain';
+
+/** Short warning for staff picking this customer; null when their record is clean. */
+export function getReliabilityWarning(
+  customer: Customer | undefined,
+  t: (key: string) => string,
+): string | null {
+  const noShows = customer?.noShowCount ?? 0;
+  const lateCancels = customer?.lateCancelCount ?? 0;
+  if (!noShows && !lateCancels && !customer?.onlineBookingHold) return null;
+  const counts = t('reliabilityCounts')
+    .replace('{noShows}', String(noShows))
+    .replace('{lateCancels}', String(lateCancels));
+  return customer?.onlineBookingHold ? `${counts} · ${t('onlineBookingHeld')}` : counts;
+}
@@ -0,0 +1,417 @@
+/** Shared domain model for the salon API. Mirrors the backend's JSON shapes. */
+
+export type UserRole = 'admin' | 'receptionist' | 'employee';
+
+/** `<resource>:<access>` grants checked by `can()`; see lib/permissions.ts. */
+export type Capability =
+  | 'customers:read'
+  | 'customers:write'
+  /** Lift a customer's hold on online booking. */
+  | 'customers:approve'
+  | 'services:read'
+  | 'services:write'
+  | 'employees:read'
+  | 'employees:write'
+  | 'appointments:read'
+  | 'appointments:write'
+  /** Book a technician outside their shifts, with a recorded reason. */
+  | 'appointments:override'
+  | 'schedules:read'
+  | 'schedules:write'
+  | 'assignments:read'
+  | 'assignments:write'
+  | 'commissions:read'
+  | 'payroll:read'
+  | 'payroll:write'
+  | 'settings:write';
+
+/** The signed-in account as returned by `/auth/login`. */
+export type AuthUser = {
+  id: string;
+  username: string;
+  role: UserRole;
+  displayName?: string;
+  /** Server-issued grants; when absent the role's defaults apply. */
+  capabilities?: Capability[];
+};
+
+export type AppointmentStatus =
+  | 'scheduled'
+  | 'confirmed'
+  | 'assigned'
+  | 'arrived'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'no_show';
+
+export type AssignmentStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+
+/** Populated references embedded in other documents. Ids are optional on purpose. */
+export type CustomerRef = { _id?: string; name: string; nameEn?: string };
+export type ServiceRef = {
+  _id?: string;
+  name: string;
+  nameEn?: string;
+  price?: number;
+  durationMinutes?: number;
+  prepMinutes?: number;
+  cleanupMinutes?: number;
+};
+export type EmployeeRef = { _id?: string; displayName?: string; username?: string };
+
+export type Customer = {
+  _id: string;
+  name: string;
+  nameEn?: string;
+  phone?: string;
+  note?: string;
+  noShowCount?: number;
+  /** Cancellations made inside the change cutoff window. */
+  lateCancelCount?: number;
+  /** Set by the server once the no-show threshold is reached; cleared by an admin. */
+  onlineBookingHold?: boolean;
+};
+
+export type ServiceItem = {
+  _id: string;
+  name: string;
+  nameEn?: string;
+  price: number;
+  durationMinutes: number;
+  /** Setup before the service; the technician is busy but the customer is not yet seated. */
+  prepMinutes?: number;
+  /** Cleanup after the service before the technician can take the next booking. */
+  cleanupMinutes?: number;
+  active?: boolean;
+};
+
+export type SkillLevel = 'junior' | 'standard' | 'senior';
+
+/** A service the technician can perform; a missing level reads as standard. */
+export type EmployeeSkill = { serviceId: string; level?: SkillLevel };
+
+export type Employee = {
+  _id: string;
+  username: string;
+  role: UserRole;
+  displayName?: string;
+  phone?: string;
+  active?: boolean;
+  skills?: EmployeeSkill[];
+};
+
+/** Subset of employee fields exposed by the unauthenticated endpoints. */
+export type PublicEmployee = {
+  _id: string;
+  displayName?: string;
+  username?: string;
+  /** Services the technician performs; levels stay private. */
+  serviceIds?: string[];
+};
+
+/** One service of a visit with the technician doing it; services run in list order. */
+export type AppointmentServiceLine = { service?: ServiceRef; assignedEmployee?: EmployeeRef };
+
+export type Appointment = {
+  _id: string;
+  customer?: CustomerRef;
+  /** First service and its technician; `services` holds the full ordered list. */
+  service?: ServiceRef;
+  assignedEmployee?: EmployeeRef;
+  services?: AppointmentServiceLine[];
+  scheduledAt: string;
+  status: AppointmentStatus;
+  /** Oldest first; recorded by the server on every status change. */
+  statusHistory?: StatusChange[];
+  note?: string;
+  /** Short code customers use to find a public booking again. */
+  reference?: string;
+  /** Shared by every occurrence of a recurring booking. */
+  seriesId?: string;
+  /** Present when an admin booked a technician outside their shifts. */
+  shiftOverride?: { reason: string; by?: EmployeeRef; at?: string };
+  /** Set when the technician's shift was handed to a colleague; cleared once reassigned. */
+  needsReassignment?: boolean;
+};
+
+export type StatusChange = {
+  from?: AppointmentStatus;
+  to: AppointmentStatus;
+  at: string;
+  by?: EmployeeRef;
+};
+
+/** What a customer sees of their booking after looking it up by reference and phone. */
+export type PublicBooking = {
+  reference: string;
+  customerName: string;
+  service?: ServiceRef;
+  assignedEmployee?: EmployeeRef;
+  services?: AppointmentServiceLine[];
+  scheduledAt: string;
+  status: AppointmentStatus;
+};
+
+export type PublicBookingLookup = { reference: string; phone: string };
+
+export type Assignment = {
+  _id: string;
+  employee?: EmployeeRef;
+  customer?: CustomerRef;
+  service?: ServiceRef;
+  price: number;
+  status: AssignmentStatus;
+  scheduledAt: string;
+  checkInAt?: string;
+  completedAt?: string;
+  /** Served from the walk-in queue; each one counts as a turn for the technician. */
+  walkIn?: boolean;
+};
+
+export type BreakType = 'paid' | 'unpaid';
+
+/** A break taken during a shift; `endAt` is missing while it is still running. */
+export type ShiftBreak = { _id: string; type: BreakType; startAt: string; endAt?: string };
+
+export type WorkSchedule = {
+  _id: string;
+  employee?: EmployeeRef;
+  startAt: string;
+  endAt: string;
+  note?: string;
+  checkInAt?: string;
+  checkOutAt?: string;
+  breaks?: ShiftBreak[];
+};
+
+export type Commission = {
+  _id: string;
+  employee?: EmployeeRef;
+  ownerPercent: number;
+  employeePercent: number;
+  ownerAmount: number;
+  employeeAmount: number;
+  assignment?: {
+    scheduledAt?: string;
+    completedAt?: string;
+    service?: Partial<ServiceRef>;
+    customer?: Partial<CustomerRef>;
+  };
+};
+
+export type Payroll = {
+  _id: string;
+  employee?: EmployeeRef;
+  periodStart: string;
+  periodEnd: string;
+  serviceSales: number;
+  supplyFee: number;
+  netServiceSales: number;
+  serviceCommission: number;
+  tip: number;
+  productSales: number;
+  workingHours: number;
+};
+
+export type CheckInResult = { lateMinutes?: number; isLate?: boolean };
+
+/** A technician's shift as exposed to public booking (no check-in details). */
+export type PublicShift = { employeeId: string; startAt: string; endAt: string };
+
+/** Time already taken by a booking, without customer details. */
+export type BusyBlock = {
+  employeeId?: string;
+  startAt: string;
+  endAt: string;
+  /** Buffers the technician also keeps free around the booking. */
+  prepMinutes?: number;
+  cleanupMinutes?: number;
+};
+
+/** Inputs to the public slot finder for a date range. */
+export type PublicAvailability = { shifts: PublicShift[]; busy: BusyBlock[] };
+
+export type CustomerInput = {
+  name: string;
+  nameEn?: string;
+  phone?: string;
+  note?: string;
+};
+
+export type ServiceInput = {
+  name: string;
+  nameEn?: string;
+  price: number;
+  durationMinutes: number;
+  prepMinutes?: number;
+  cleanupMinutes?: number;
+};
+
+export type UserInput = {
+  username?: string;
+  password?: string;
+  role: UserRole;
+  displayName?: string;
+  phone?: string;
+  skills?: EmployeeSkill[];
+};
+
+export type AppointmentServiceInput = { serviceId: string; assignedEmployeeId?: string };
+
+export type AppointmentInput = {
+  customerId: string;
+  /** Ordered; the first service starts at `scheduledAt`, each next one when the previous ends. */
+  services: AppointmentServiceInput[];
+  scheduledAt: string;
+  /** Required by the server when a technician would work outside their shifts. */
+  shiftOverrideReason?: string;
+};
+
+/** Repeat every `intervalWeeks` weeks, ending on `until` or after `count` visits. */
+export type RecurrenceRule = {
+  intervalWeeks: number;
+  until?: string;
+  count?: number;
+};
+
+export type AppointmentSeriesInput = Omit<AppointmentInput, 'scheduledAt'> & {
+  recurrence: RecurrenceRule;
+  /** Start times to book; occurrences the preview flagged are left out. */
+  occurrences: string[];
+};
+
+/** Which occurrences of a series an edit or cancel applies to. */
+export type SeriesScope = 'this' | 'following';
+
+export type PublicAppointmentInput = {
+  name: string;
+  phone: string;
+  services: AppointmentServiceInput[];
+  scheduledAt: string;
+  note?: string;
+};
+
+export type AssignmentInput = {
+  customerId: string;
+  serviceId: string;
+  employeeId: string;
+  scheduledAt: string;
+  price: number;
+  walkIn?: boolean;
+};
+
+export type WorkScheduleInput = {
+  employeeId: string;
+  startAt: string;
+  endAt: string;
+  note?: string;
+};
+
+export type ShiftSwapStatus = 'open' | 'accepted' | 'approved' | 'rejected' | 'cancelled';
+
+/**
+ * A technician offering one of their shifts to colleagues. Once a colleague
+ * accepts and an admin approves, the server reassigns the shift.
+ */
+export type ShiftSwap = {
+  _id: string;
+  schedule: WorkSchedule;
+  fromEmployee?: EmployeeRef;
+  /** Empty when offered to every eligible colleague. */
+  offeredTo?: EmployeeRef[];
+  acceptedBy?: EmployeeRef;
+  /** The accepting colleague's shift going the other way, making it a swap rather than a cover. */
+  returnSchedule?: WorkSchedule;
+  note?: string;
+  status: ShiftSwapStatus;
+  createdAt?: string;
+  /** Appointments flagged for reassignment when the swap was approved. */
+  flaggedAppointmentIds?: string[];
+};
+
+export type ShiftSwapInput = { scheduleId: string; offeredToIds?: string[]; note?: string };
+
+export type TimeOffStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Leave an employee asked for, as whole calendar days ('YYYY-MM-DD'). With
+ * `partialHours` only that part of each day is off.
+ */
+export type TimeOffRequest = {
+  _id: string;
+  employee?: EmployeeRef;
+  startDate: string;
+  endDate: string;
+  partialHours?: TimeRange;
+  reason?: string;
+  status: TimeOffStatus;
+  createdAt?: string;
+  reviewedAt?: string;
+  reviewedBy?: EmployeeRef;
+};
+
+export type TimeOffInput = {
+  startDate: string;
+  endDate: string;
+  partialHours?: TimeRange;
+  reason?: string;
+};
+
+/** Named shift hours, e.g. "Morning" 07:00–15:00, applied to any day. */
+export type ShiftTemplate = { _id: string; name: string; start: string; end: string };
+
+export type ShiftTemplateInput = Omit<ShiftTemplate, '_id'>;
+
+export type PayrollInput = {
+  employeeId: string;
+  periodStart: string;
+  periodEnd: string;
+  serviceSales?: number;
+  supplyFee?: number;
+  netServiceSales?: number;
+  serviceCommission?: number;
+  tip?: number;
+  productSales?: number;
+  workingHours?: number;
+};
+
+export type PasswordChangeInput = { currentPassword: string; newPassword: string };
+
+/** Re-confirms the signed-in account without starting a new session. */
+export type PasswordCheckInput = { currentPassword: string };
+
+/** Sets the 4–6 digit PIN used on the front-desk kiosk. */
+export type PinChangeInput = { currentPassword: string; pin: string };
+
+/** A clock-in or clock-out on the kiosk, authorised by the shift owner's PIN. */
+export type KioskPunchInput = { scheduleId: string; pin: string };
+
+/** Local clock range as 'HH:mm' strings, e.g. `{ start: '09:00', end: '18:00' }`. */
+export type TimeRange = { start: string; end: string };
+
+/** One calendar date that differs from the weekly pattern (holiday closure or special hours). */
+export type SalonHoursOverride = {
+  /** 'YYYY-MM-DD' in salon local time. */
+  date: string;
+  closed: boolean;
+  hours?: TimeRange;
+  note?: string;
+};
+
+export type SalonHours = {
+  /** Indexed by `Date#getDay()` (0 is Sunday); null marks a closed weekday. */
+  weekly: (TimeRange | null)[];
+  overrides: SalonHoursOverride[];
+  /** Daily window in which no appointment may start. */
+  breakWindow: TimeRange | null;
+  /** Customers cannot reschedule or cancel online within this many hours of the start. */
+  changeCutoffHours: number;
+  /**
+   * No-shows plus late cancellations after which the customer needs an admin's
+   * approval to book online again; 0 turns the hold off.
+   */
+  noShowThreshold: number;
+  /** Longest break of each type, in minutes, before it is flagged; 0 turns the check off. */
+  breakPolicy: Record<BreakType, number>;
+};
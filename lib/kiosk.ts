@@ -0,0 +1,27 @@
+import type { WorkSchedule } from '@/lib/domain';
+import { isSameDay } from '@/lib/time-off';
+
+/** Idle time on the PIN pad before the kiosk drops back to the staff list. */
+export const KIOSK_IDLE_MS = 30 * 1000;
+
+export const PIN_MAX_LENGTH = 6;
+
+export const isValidPin = (value: string) => /^\d{4,6}$/.test(value);
+
+/**
+ * One shift per technician working today: the first one not yet clocked out,
+ * or the last one once they are done for the day.
+ */
+export function getKioskShifts(schedules: WorkSchedule[], now = new Date()): WorkSchedule[] {
+  const byEmployee = new Map<string, WorkSchedule[]>();
+  schedules
+    .filter((item) => item.employee?._id && isSameDay(new Date(item.startAt), now))
+    .sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime())
+    .forEach((item) => {
+      const employeeId = item.employee?._id ?? '';
+      byEmployee.set(employeeId, [...(byEmployee.get(employeeId) ?? []), item]);
+    });
+  return Array.from(byEmployee.values())
+    .map((shifts) => shifts.find((item) => !item.checkOutAt) ?? shifts[shifts.length - 1])
+    .sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime());
+}
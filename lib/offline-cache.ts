@@ -0,0 +1,26 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/** Persisted read cache used to render the last known data while offline. */
+
+const CACHE_PREFIX = 'cache:';
+
+export type CacheEntry<T> = { savedAt: string; data: T };
+
+export async function readCache<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const raw = await AsyncStorage.getItem(`${CACHE_PREFIX}${key}`);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCache<T>(key: string, data: T): Promise<CacheEntry<T>> {
+  const entry: CacheEntry<T> = { savedAt: new Date().toISOString(), data };
+  try {
+    await AsyncStorage.setItem(`${CACHE_PREFIX}${key}`, JSON.stringify(entry));
+  } catch {
+    // A full or unavailable store only costs us the offline copy.
+  }
+  return entry;
+}
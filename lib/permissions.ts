@@ -0,0 +1,53 @@
+import type { AuthUser, Capability, UserRole } from '@/lib/domain';
+
+/** Default grants per role, used when the server does not send `capabilities`. */
+export const ROLE_CAPABILITIES: Record<UserRole, Capability[]> = {
+  admin: [
+    'customers:read',
+    'customers:write',
+    'customers:approve',
+    'services:read',
+    'services:write',
+    'employees:read',
+    'employees:write',
+    'appointments:read',
+    'appointments:write',
+    'appointments:override',
+    'schedules:read',
+    'schedules:write',
+    'assignments:read',
+    'assignments:write',
+    'commissions:read',
+    'payroll:read',
+    'payroll:write',
+    'settings:write',
+  ],
+  receptionist: [
+    'customers:read',
+    'customers:write',
+    'services:read',
+    'employees:read',
+    'appointments:read',
+    'appointments:write',
+    'schedules:read',
+    'assignments:read',
+    'assignments:write',
+  ],
+  // Employee screens only show the signed-in user's own records.
+  employee: [],
+};
+
+/** Roles an admin can give to staff accounts, in picker order. */
+export const ASSIGNABLE_ROLES: UserRole[] = ['employee', 'receptionist', 'admin'];
+
+export const ROLE_LABEL_KEYS: Record<UserRole, string> = {
+  admin: 'roleAdmin',
+  receptionist: 'roleReceptionist',
+  employee: 'roleEmployee',
+};
+
+export const capabilitiesFor = (user: AuthUser | null): Capability[] =>
+  user ? user.capabilities ?? ROLE_CAPABILITIES[user.role] ?? [] : [];
+
+export const can = (user: AuthUser | null, capability: Capability) =>
+  capabilitiesFor(user).includes(capability);
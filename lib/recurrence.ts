@@ -0,0 +1,28 @@
+import type { RecurrenceRule } from '@/lib/domain';
+import { parseDateKey } from '@/lib/time-off';
+
+/** Upper bound on a single series so a mistyped end date cannot book years ahead. */
+export const MAX_OCCURRENCES = 26;
+
+/**
+ * Start times of every occurrence, first one included. Weeks are added on the
+ * calendar rather than in milliseconds so the wall-clock time survives DST.
+ */
+export function buildOccurrences(start: string, rule: RecurrenceRule): string[] {
+  const first = new Date(start);
+  if (Number.isNaN(first.getTime()) || rule.intervalWeeks < 1) return [];
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  // An end date covers the whole local day it names; 'YYYY-MM-DD' would otherwise parse as UTC.
+  const until = rule.until
+    ? (parseDateKey(rule.until) ?? new Date(rule.until)).setHours(23, 59, 59, 999)
+    : null;
+  const occurrences: string[] = [];
+  for (let index = 0; index < limit; index += 1) {
+    const next = new Date(first);
+    next.setDate(first.getDate() + index * rule.intervalWeeks * 7);
+    if (until !== null && next.getTime() > until) break;
+    occurrences.push(next.toISOString());
+  }
+  return occurrences;
+}
+
@@ -0,0 +1,217 @@
+import {
+  apiDelete,
+  apiGet,
+  apiPatch,
+  apiPost,
+  apiPublicGet,
+  apiPublicPost,
+} from '@/lib/api';
+import type {
+  Appointment,
+  AppointmentInput,
+  AppointmentSeriesInput,
+  AppointmentStatus,
+  Assignment,
+  AssignmentInput,
+  BreakType,
+  CheckInResult,
+  Commission,
+  Customer,
+  CustomerInput,
+  Employee,
+  KioskPunchInput,
+  PasswordChangeInput,
+  PasswordCheckInput,
+  Payroll,
+  PayrollInput,
+  PinChangeInput,
+  PublicAppointmentInput,
+  PublicAvailability,
+  PublicBooking,
+  PublicBookingLookup,
+  PublicEmployee,
+  SalonHours,
+  ServiceInput,
+  ServiceItem,
+  ShiftSwap,
+  ShiftSwapInput,
+  ShiftTemplate,
+  ShiftTemplateInput,
+  TimeOffInput,
+  TimeOffRequest,
+  UserInput,
+  WorkSchedule,
+  WorkScheduleInput,
+} from '@/lib/domain';
+
+type Token = string | null;
+
+export const customersApi = {
+  list: (token: Token) => apiGet<Customer[]>('/customers', token),
+  create: (body: CustomerInput, token: Token) => apiPost<Customer>('/customers', body, token),
+  update: (id: string, body: Partial<CustomerInput>, token: Token) =>
+    apiPatch<Customer>(`/customers/${id}`, body, token),
+  remove: (id: string, token: Token) => apiDelete<void>(`/customers/${id}`, token),
+  /** Lifts the no-show hold so the customer can book online again. */
+  approveOnlineBooking: (id: string, token: Token) =>
+    apiPost<Customer>(`/customers/${id}/online-booking/approve`, {}, token),
+};
+
+export const servicesApi = {
+  list: (token: Token) => apiGet<ServiceItem[]>('/services', token),
+  listPublic: () => apiPublicGet<ServiceItem[]>('/services/public'),
+  create: (body: ServiceInput, token: Token) => apiPost<ServiceItem>('/services', body, token),
+  update: (id: string, body: Partial<ServiceInput>, token: Token) =>
+    apiPatch<ServiceItem>(`/services/${id}`, body, token),
+  remove: (id: string, token: Token) => apiDelete<void>(`/services/${id}`, token),
+};
+
+export const usersApi = {
+  list: (token: Token) => apiGet<Employee[]>('/users', token),
+  listPublicEmployees: () => apiPublicGet<PublicEmployee[]>('/users/public/employees'),
+  create: (body: UserInput, token: Token) => apiPost<Employee>('/users', body, token),
+  update: (id: string, body: Partial<UserInput>, token: Token) =>
+    apiPatch<Employee>(`/users/${id}`, body, token),
+  remove: (id: string, token: Token) => apiDelete<void>(`/users/${id}`, token),
+  changePassword: (body: PasswordChangeInput, token: Token) =>
+    apiPatch<void>('/users/me/password', body, token),
+  changePin: (body: PinChangeInput, token: Token) => apiPatch<void>('/users/me/pin', body, token),
+  verifyPassword: (body: PasswordCheckInput, token: Token) =>
+    apiPost<void>('/users/me/verify-password', body, token),
+};
+
+export const appointmentsApi = {
+  list: (token: Token) => apiGet<Appointment[]>('/appointments', token),
+  mine: (token: Token) => apiGet<Appointment[]>('/appointments/mine', token),
+  create: (body: AppointmentInput, token: Token) =>
+    apiPost<Appointment>('/appointments', body, token),
+  createSeries: (body: AppointmentSeriesInput, token: Token) =>
+    apiPost<Appointment[]>('/appointments/series', body, token),
+  createPublic: (body: PublicAppointmentInput) =>
+    apiPublicPost<Appointment>('/appointments/public', body),
+  /** Phone travels in the body so it never lands in URLs or access logs. */
+  lookupPublic: (body: PublicBookingLookup) =>
+    apiPublicPost<PublicBooking>('/appointments/public/lookup', body),
+  reschedulePublic: (body: PublicBookingLookup & { scheduledAt: string }) =>
+    apiPublicPost<PublicBooking>('/appointments/public/reschedule', body),
+  cancelPublic: (body: PublicBookingLookup) =>
+    apiPublicPost<PublicBooking>('/appointments/public/cancel', body),
+  update: (id: string, body: Partial<AppointmentInput>, token: Token) =>
+    apiPatch<Appointment>(`/appointments/${id}`, body, token),
+  remove: (id: string, token: Token) => apiDelete<void>(`/appointments/${id}`, token),
+  /** Applies the change to this occurrence and every later one in its series, keeping their spacing. */
+  updateFollowing: (id: string, body: Partial<AppointmentInput>, token: Token) =>
+    apiPatch<Appointment[]>(`/appointments/${id}/following`, body, token),
+  cancelFollowing: (id: string, token: Token) =>
+    apiPost<Appointment[]>(`/appointments/${id}/following/cancel`, {}, token),
+  /** The server rejects moves outside the allowed transitions and records who made the change. */
+  updateStatus: (id: string, status: AppointmentStatus, token: Token) =>
+    apiPatch<Appointment>(`/appointments/${id}/status`, { status }, token),
+  /** Converts the appointment into an in-progress assignment for the caller. */
+  start: (id: string, token: Token) =>
+    apiPost<Assignment>(`/appointments/${id}/start`, {}, token),
+};
+
+export const assignmentsApi = {
+  list: (token: Token) => apiGet<Assignment[]>('/assignments', token),
+  mine: (token: Token) => apiGet<Assignment[]>('/assignments/mine', token),
+  create: (body: AssignmentInput, token: Token) =>
+    apiPost<Assignment>('/assignments', body, token),
+  update: (id: string, body: Partial<AssignmentInput>, token: Token) =>
+    apiPatch<Assignment>(`/assignments/${id}`, body, token),
+  remove: (id: string, token: Token) => apiDelete<void>(`/assignments/${id}`, token),
+  checkIn: (id: string, token: Token) =>
+    apiPatch<Assignment>(`/assignments/${id}/check-in`, {}, token),
+  complete: (id: string, token: Token) =>
+    apiPatch<Assignment>(`/assignments/${id}/complete`, {}, token),
+};
+
+export const workSchedulesApi = {
+  list: (token: Token) => apiGet<WorkSchedule[]>('/work-schedules', token),
+  mine: (token: Token) => apiGet<WorkSchedule[]>('/work-schedules/mine', token),
+  create: (body: WorkScheduleInput, token: Token) =>
+    apiPost<WorkSchedule>('/work-schedules', body, token),
+  update: (id: string, body: Partial<WorkScheduleInput>, token: Token) =>
+    apiPatch<WorkSchedule>(`/work-schedules/${id}`, body, token),
+  remove: (id: string, token: Token) => apiDelete<void>(`/work-schedules/${id}`, token),
+  checkIn: (id: string, token: Token) =>
+    apiPatch<CheckInResult>(`/work-schedules/${id}/check-in`, {}, token),
+  checkOut: (id: string, token: Token) =>
+    apiPatch<WorkSchedule>(`/work-schedules/${id}/check-out`, {}, token),
+  startBreak: (id: string, type: BreakType, token: Token) =>
+    apiPatch<WorkSchedule>(`/work-schedules/${id}/breaks/start`, { type }, token),
+  endBreak: (id: string, token: Token) =>
+    apiPatch<WorkSchedule>(`/work-schedules/${id}/breaks/end`, {}, token),
+};
+
+/** Punches made on the shared tablet; the PIN identifies the technician, not the signed-in account. */
+export const kioskApi = {
+  checkIn: (body: KioskPunchInput, token: Token) =>
+    apiPost<CheckInResult>('/kiosk/check-in', body, token),
+  checkOut: (body: KioskPunchInput, token: Token) =>
+    apiPost<WorkSchedule>('/kiosk/check-out', body, token),
+};
+
+export const shiftTemplatesApi = {
+  list: (token: Token) => apiGet<ShiftTemplate[]>('/shift-templates', token),
+  create: (body: ShiftTemplateInput, token: Token) =>
+    apiPost<ShiftTemplate>('/shift-templates', body, token),
+  remove: (id: string, token: Token) => apiDelete<void>(`/shift-templates/${id}`, token),
+};
+
+export const shiftSwapsApi = {
+  list: (token: Token) => apiGet<ShiftSwap[]>('/shift-swaps', token),
+  /** Offers the signed-in technician made, accepted, or can still accept. */
+  mine: (token: Token) => apiGet<ShiftSwap[]>('/shift-swaps/mine', token),
+  create: (body: ShiftSwapInput, token: Token) => apiPost<ShiftSwap>('/shift-swaps', body, token),
+  accept: (id: string, body: { returnScheduleId?: string }, token: Token) =>
+    apiPatch<ShiftSwap>(`/shift-swaps/${id}/accept`, body, token),
+  cancel: (id: string, token: Token) =>
+    apiPatch<ShiftSwap>(`/shift-swaps/${id}/cancel`, {}, token),
+  /** Reassigns the shifts and flags the original technician's appointments in them. */
+  approve: (id: string, token: Token) =>
+    apiPatch<ShiftSwap>(`/shift-swaps/${id}/approve`, {}, token),
+  reject: (id: string, token: Token) =>
+    apiPatch<ShiftSwap>(`/shift-swaps/${id}/reject`, {}, token),
+};
+
+export const timeOffApi = {
+  list: (token: Token) => apiGet<TimeOffRequest[]>('/time-off', token),
+  mine: (token: Token) => apiGet<TimeOffRequest[]>('/time-off/mine', token),
+  create: (body: TimeOffInput, token: Token) => apiPost<TimeOffRequest>('/time-off', body, token),
+  /** Employees can withdraw a request until it is reviewed. */
+  withdraw: (id: string, token: Token) => apiDelete<void>(`/time-off/${id}`, token),
+  approve: (id: string, token: Token) =>
+    apiPatch<TimeOffRequest>(`/time-off/${id}/approve`, {}, token),
+  reject: (id: string, token: Token) =>
+    apiPatch<TimeOffRequest>(`/time-off/${id}/reject`, {}, token),
+};
+
+export const commissionsApi = {
+  list: (token: Token) => apiGet<Commission[]>('/commissions', token),
+  mine: (token: Token) => apiGet<Commission[]>('/commissions/mine', token),
+};
+
+export const payrollsApi = {
+  list: (token: Token) => apiGet<Payroll[]>('/payrolls', token),
+  mine: (token: Token) => apiGet<Payroll[]>('/payrolls/mine', token),
+  create: (body: PayrollInput, token: Token) => apiPost<Payroll>('/payrolls', body, token),
+  update: (id: string, body: Partial<PayrollInput>, token: Token) =>
+    apiPatch<Payroll>(`/payrolls/${id}`, body, token),
+  remove: (id: string, token: Token) => apiDelete<void>(`/payrolls/${id}`, token),
+};
+
+export const settingsApi = {
+  /** Public so the booking form can validate times before sign-in. */
+  salonHours: () => apiPublicGet<SalonHours>('/settings/salon-hours'),
+  updateSalonHours: (body: SalonHours, token: Token) =>
+    apiPatch<SalonHours>('/settings/salon-hours', body, token),
+};
+
+export const availabilityApi = {
+  /** Shifts and taken times between `from` and `to` (ISO strings) for the slot finder. */
+  listPublic: (from: string, to: string) =>
+    apiPublicGet<PublicAvailability>(
+      `/availability/public?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`,
+    ),
+};
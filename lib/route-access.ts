@@ -0,0 +1,64 @@
+import type { Href } from 'expo-router';
+import type { AuthUser, Capability, UserRole } from '@/lib/domain';
+import { can } from '@/lib/permissions';
+
+export type GuardedGroup = '(admin)' | '(employee)';
+
+/** Roles allowed inside each signed-in route group. */
+export const GROUP_ROLES: Record<GuardedGroup, UserRole[]> = {
+  '(admin)': ['admin', 'receptionist'],
+  '(employee)': ['employee'],
+};
+
+const ROLE_HOME: Record<UserRole, GuardedGroup> = {
+  admin: '(admin)',
+  receptionist: '(admin)',
+  employee: '(employee)',
+};
+
+/** Capability needed to open a screen, keyed by its group-qualified path. */
+const ROUTE_CAPABILITIES: Record<string, Capability> = {
+  '/(admin)/employees': 'employees:read',
+  '/(admin)/customers': 'customers:read',
+  '/(admin)/services': 'services:read',
+  '/(admin)/appointments': 'appointments:read',
+  '/(admin)/schedules': 'schedules:read',
+  '/(admin)/time-off': 'schedules:write',
+  '/(admin)/shift-swaps': 'schedules:write',
+  '/(admin)/assignments': 'assignments:read',
+  '/(admin)/walk-ins': 'assignments:write',
+  '/(admin)/kiosk': 'schedules:read',
+  '/(admin)/commissions': 'commissions:read',
+  '/(admin)/payrolls': 'payroll:read',
+  '/(admin)/settings': 'settings:write',
+};
+
+export const routeCapability = (path: string): Capability | undefined => ROUTE_CAPABILITIES[path];
+
+export const canOpenRoute = (user: AuthUser, path: string) => {
+  const capability = routeCapability(path);
+  return !capability || can(user, capability);
+};
+
+export const canEnterGroup = (role: UserRole, group: GuardedGroup) =>
+  GROUP_ROLES[group].includes(role);
+
+export const homeRouteForRole = (role: UserRole): Href => `/${ROLE_HOME[role]}`;
+
+/** Builds the group-qualified path for a pathname reported inside `group`. */
+export const groupPath = (group: GuardedGroup, pathname: string) =>
+  pathname === '/' ? `/${group}` : `/${group}${pathname}`;
+
+/**
+ * Picks where to land after login: the deep link the user was sent away from
+ * when they may open it, otherwise the role's home.
+ */
+export function resolveReturnRoute(next: string | undefined, user: AuthUser): Href {
+  const group = (Object.keys(GROUP_ROLES) as GuardedGroup[]).find(
+    (item) => next === `/${item}` || next?.startsWith(`/${item}/`),
+  );
+  if (next && group && canEnterGroup(user.role, group) && canOpenRoute(user, next)) {
+    return next as Href;
+  }
+  return homeRouteForRole(user.role);
+}
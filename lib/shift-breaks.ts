@@ -0,0 +1,52 @@
+import { DEFAULT_SALON_HOURS } from '@/constants/salon-hours';
+import type { BreakType, SalonHours, ShiftBreak, WorkSchedule } from '@/lib/domain';
+import { MINUTE_MS } from '@/lib/time-off';
+
+export const BREAK_TYPE_LABEL_KEYS: Record<BreakType, string> = {
+  paid: 'breakPaid',
+  unpaid: 'breakUnpaid',
+};
+
+/** The break still running on the shift, if any. */
+export const getOpenBreak = (schedule: WorkSchedule) =>
+  schedule.breaks?.find((item) => !item.endAt);
+
+/** Minutes so far for a running break, or its full length once ended. */
+export const getBreakMinutes = (item: ShiftBreak, now = new Date()) => {
+  const end = item.endAt ? new Date(item.endAt) : now;
+  return Math.max(0, Math.round((end.getTime() - new Date(item.startAt).getTime()) / MINUTE_MS));
+};
+
+export const getBreakLimit = (type: BreakType, hours: SalonHours) =>
+  (hours.breakPolicy ?? DEFAULT_SALON_HOURS.breakPolicy)[type];
+
+/** True when the break runs past the salon's limit for its type. */
+export const isBreakOverPolicy = (item: ShiftBreak, hours: SalonHours, now = new Date()) => {
+  const limit = getBreakLimit(item.type, hours);
+  return limit > 0 && getBreakMinutes(item, now) > limit;
+};
+
+const overlapMs = (start: number, end: number, from: number, until: number) =>
+  Math.max(0, Math.min(end, until) - Math.max(start, from));
+
+/**
+ * Hours from check-in to check-out less unpaid breaks, clipped to
+ * `from`–`until` (epoch ms). Shifts without a check-out count nothing.
+ */
+export function getWorkedHours(schedule: WorkSchedule, from = -Infinity, until = Infinity) {
+  if (!schedule.checkInAt || !schedule.checkOutAt) return 0;
+  const checkIn = new Date(schedule.checkInAt).getTime();
+  const checkOut = new Date(schedule.checkOutAt).getTime();
+  if (Number.isNaN(checkIn) || Number.isNaN(checkOut)) return 0;
+  const start = Math.max(checkIn, from);
+  const end = Math.min(checkOut, until);
+  if (end <= start) return 0;
+  const unpaid = (schedule.breaks ?? [])
+    .filter((item) => item.type === 'unpaid')
+    .reduce((sum, item) => {
+      // A break never ended is taken to run until check-out.
+      const breakEnd = item.endAt ? new Date(item.endAt).getTime() : checkOut;
+      return sum + overlapMs(new Date(item.startAt).getTime(), breakEnd, start, end);
+    }, 0);
+  return Math.max(0, end - start - unpaid) / (60 * MINUTE_MS);
+}
@@ -0,0 +1,100 @@
+import { DEFAULT_SALON_HOURS, isWithinSalonHoursForSchedule } from '@/constants/salon-hours';
+import type { EmployeeRef, SalonHours, TimeOffRequest, WorkSchedule } from '@/lib/domain';
+import { findLeaveConflict, startOfDay } from '@/lib/time-off';
+
+/** Longest range one copy may fill, to keep the preview readable. */
+export const MAX_COPY_DAYS = 56;
+
+export type CopySkipReason = 'overlap' | 'past' | 'leave' | 'closed';
+
+/** One shift the copy would create, or why it will be left out. */
+export type CopiedShift = {
+  key: string;
+  employee: EmployeeRef & { _id: string };
+  startAt: Date;
+  endAt: Date;
+  note?: string;
+  skipReason: CopySkipReason | null;
+};
+
+const overlaps = (startA: Date, endA: Date, startB: Date, endB: Date) =>
+  startA < endB && endA > startB;
+
+/**
+ * Repeats the shifts of the week starting `weekStart` onto every day from
+ * `from` to `until` with the same weekday, keeping clock times and length.
+ * Copies that would overlap a shift the technician already has or their
+ * approved leave, fall outside the salon's hours for that day, or start in the
+ * past are kept in the list but marked as skipped.
+ */
+export function buildShiftCopies(
+  schedules: WorkSchedule[],
+  weekStart: Date,
+  from: Date,
+  until: Date,
+  timeOff: TimeOffRequest[] = [],
+  hours: SalonHours = DEFAULT_SALON_HOURS,
+  now = new Date(),
+): CopiedShift[] {
+  const sourceStart = startOfDay(weekStart);
+  const sourceEnd = new Date(sourceStart.getFullYear(), sourceStart.getMonth(), sourceStart.getDate() + 7);
+  const source = schedules
+    .filter((item) => {
+      const start = new Date(item.startAt);
+      return Boolean(item.employee?._id) && start >= sourceStart && start < sourceEnd;
+    })
+    .sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime());
+
+  const copies: CopiedShift[] = [];
+  const lastDay = startOfDay(until);
+  for (
+    let day = startOfDay(from);
+    day <= lastDay;
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+  ) {
+    source.forEach((item) => {
+      const sourceShiftStart = new Date(item.startAt);
+      if (sourceShiftStart.getDay() !== day.getDay()) return;
+      const employee = item.employee as EmployeeRef & { _id: string };
+      const startAt = new Date(
+        day.getFullYear(),
+        day.getMonth(),
+        day.getDate(),
+        sourceShiftStart.getHours(),
+        sourceShiftStart.getMinutes(),
+      );
+      const endAt = new Date(
+        startAt.getTime() + (new Date(item.endAt).getTime() - sourceShiftStart.getTime()),
+      );
+      const clashes =
+        schedules.some(
+          (other) =>
+            other.employee?._id === employee._id &&
+            overlaps(startAt, endAt, new Date(other.startAt), new Date(other.endAt)),
+        ) ||
+        copies.some(
+          (other) =>
+            !other.skipReason &&
+            other.employee._id === employee._id &&
+            overlaps(startAt, endAt, other.startAt, other.endAt),
+        );
+      const outsideHours =
+        !isWithinSalonHoursForSchedule(startAt, hours) ||
+        !isWithinSalonHoursForSchedule(endAt, hours);
+      let skipReason: CopySkipReason | null = null;
+      if (startAt < now) skipReason = 'past';
+      else if (outsideHours) skipReason = 'closed';
+      else if (findLeaveConflict(timeOff, employee._id, startAt, endAt)) skipReason = 'leave';
+      else if (clashes) skipReason = 'overlap';
+      copies.push({
+        key: `${item._id}-${startAt.getTime()}`,
+        employee,
+        startAt,
+        endAt,
+        note: item.note,
+        skipReason,
+      });
+    });
+  }
+  return copies;
+}
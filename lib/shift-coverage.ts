@@ -0,0 +1,52 @@
+import type { ServiceSegment } from '@/lib/appointment-services';
+import type { WorkSchedule } from '@/lib/domain';
+import { isSameDay, startOfDay } from '@/lib/time-off';
+
+/**
+ * Part of a visit a technician would work outside their shifts, with that day's
+ * shifts. `unpublished` marks days past the technician's last published shift.
+ */
+export type ShiftGap = {
+  employeeId: string;
+  start: Date;
+  end: Date;
+  shifts: WorkSchedule[];
+  unpublished: boolean;
+};
+
+/** The technician's shifts starting on the calendar day of `day`, earliest first. */
+export const getShiftsOnDay = (schedules: WorkSchedule[], employeeId: string, day: Date) =>
+  schedules
+    .filter(
+      (item) => item.employee?._id === employeeId && isSameDay(new Date(item.startAt), day),
+    )
+    .sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime());
+
+/**
+ * Segments that do not fit inside a single shift of their technician, counting
+ * prep and cleanup as working time. Days with no rota out yet are gaps too, so
+ * nobody is booked on an unconfirmed day without a look.
+ */
+export function findShiftGaps(segments: ServiceSegment[], schedules: WorkSchedule[]): ShiftGap[] {
+  return segments.flatMap((segment) => {
+    const { employeeId } = segment;
+    if (!employeeId) return [];
+    const own = schedules.filter((item) => item.employee?._id === employeeId);
+    const dayStart = startOfDay(segment.start);
+    const unpublished = !own.some((item) => new Date(item.endAt) >= dayStart);
+    const covered = own.some(
+      (item) =>
+        new Date(item.startAt) <= segment.busyStart && new Date(item.endAt) >= segment.busyEnd,
+    );
+    if (covered) return [];
+    return [
+      {
+        employeeId,
+        start: segment.busyStart,
+        end: segment.busyEnd,
+        shifts: getShiftsOnDay(schedules, employeeId, segment.start),
+        unpublished,
+      },
+    ];
+  });
+}
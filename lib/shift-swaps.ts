@@ -0,0 +1,56 @@
+import { Palette } from '@/constants/theme';
+import { getServiceLines, getServiceSegments } from '@/lib/appointment-services';
+import { isTerminalStatus } from '@/lib/appointment-status';
+import type { Appointment, ShiftSwap, ShiftSwapStatus, WorkSchedule } from '@/lib/domain';
+
+export const SHIFT_SWAP_STATUS_LABEL_KEYS: Record<ShiftSwapStatus, string> = {
+  open: 'swapOpen',
+  accepted: 'swapAccepted',
+  approved: 'swapApproved',
+  rejected: 'swapRejected',
+  cancelled: 'swapCancelled',
+};
+
+export const SHIFT_SWAP_STATUS_COLORS: Record<ShiftSwapStatus, string> = {
+  open: Palette.accentBlue,
+  accepted: Palette.accentOrange,
+  approved: Palette.success,
+  rejected: Palette.danger,
+  cancelled: Palette.mutedText,
+};
+
+/** Still waiting on a colleague or an admin. */
+export const isSwapActive = (swap: ShiftSwap) =>
+  swap.status === 'open' || swap.status === 'accepted';
+
+/** True when `employeeId` may accept the offer: not their own and offered to them or to everyone. */
+export const isSwapOfferedTo = (swap: ShiftSwap, employeeId: string | undefined) =>
+  Boolean(employeeId) &&
+  swap.status === 'open' &&
+  swap.fromEmployee?._id !== employeeId &&
+  (!swap.offeredTo?.length || swap.offeredTo.some((item) => item._id === employeeId));
+
+const bookedInShift = (appointments: Appointment[], shift: WorkSchedule | undefined) => {
+  const employeeId = shift?.employee?._id;
+  if (!shift || !employeeId) return [];
+  const start = new Date(shift.startAt);
+  const end = new Date(shift.endAt);
+  return appointments.filter(
+    (item) =>
+      !isTerminalStatus(item.status) &&
+      getServiceSegments(item.scheduledAt, getServiceLines(item)).some(
+        (segment) =>
+          segment.employeeId === employeeId && segment.start < end && segment.end > start,
+      ),
+  );
+};
+
+/**
+ * Appointments that approving the swap leaves with a technician who is no
+ * longer on shift: the offerer's bookings in the given shift, and the
+ * acceptor's in the shift they give back.
+ */
+export const getSwapAffectedAppointments = (swap: ShiftSwap, appointments: Appointment[]) => [
+  ...bookedInShift(appointments, swap.schedule),
+  ...bookedInShift(appointments, swap.returnSchedule),
+];
@@ -0,0 +1,38 @@
+import type { EmployeeSkill, SkillLevel } from '@/lib/domain';
+
+/** Picker order, least to most experienced. */
+export const SKILL_LEVELS: SkillLevel[] = ['junior', 'standard', 'senior'];
+
+export const SKILL_LEVEL_LABEL_KEYS: Record<SkillLevel, string> = {
+  junior: 'skillJunior',
+  standard: 'skillStandard',
+  senior: 'skillSenior',
+};
+
+/** Staff records from the admin endpoints carry `skills`; public ones only `serviceIds`. */
+type SkillHolder = { skills?: EmployeeSkill[]; serviceIds?: string[] };
+
+const getSkillServiceIds = (employee: SkillHolder) =>
+  employee.skills?.map((skill) => skill.serviceId) ?? employee.serviceIds ?? [];
+
+/**
+ * True when the technician can do every given service. Technicians with no
+ * skills recorded yet can do anything, so the matrix can be filled in gradually.
+ */
+export function canPerform(
+  employee: SkillHolder,
+  serviceIds: (string | null | undefined)[],
+): boolean {
+  const known = getSkillServiceIds(employee);
+  if (known.length === 0) return true;
+  return serviceIds.every((id) => !id || known.includes(id));
+}
+
+export const getSkillLevel = (
+  employee: SkillHolder,
+  serviceId: string | null | undefined,
+): SkillLevel | null => {
+  if (!serviceId) return null;
+  const skill = employee.skills?.find((item) => item.serviceId === serviceId);
+  return skill ? skill.level ?? 'standard' : null;
+};
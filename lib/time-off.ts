@@ -0,0 +1,106 @@
+import { parseClock } from '@/constants/salon-hours';
+import { Palette } from '@/constants/theme';
+import { ApiError } from '@/lib/api';
+import type { TimeOffRequest, TimeOffStatus } from '@/lib/domain';
+import { timeOffApi } from '@/lib/resources';
+
+export const TIME_OFF_STATUS_LABEL_KEYS: Record<TimeOffStatus, string> = {
+  pending: 'timeOffPending',
+  approved: 'timeOffApproved',
+  rejected: 'timeOffRejected',
+};
+
+export const TIME_OFF_STATUS_COLORS: Record<TimeOffStatus, string> = {
+  pending: Palette.accentOrange,
+  approved: Palette.success,
+  rejected: Palette.danger,
+};
+
+/** Time a leave request takes out of one day. */
+export type LeaveWindow = { request: TimeOffRequest; start: Date; end: Date };
+
+/** 'YYYY-MM-DD' → local midnight, or null when malformed. */
+export const parseDateKey = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : null;
+};
+
+export const MINUTE_MS = 60 * 1000;
+
+/** Local midnight on the day of `value`. */
+export const startOfDay = (value: Date) =>
+  new Date(value.getFullYear(), value.getMonth(), value.getDate());
+
+export const isSameDay = (left: Date, right: Date) =>
+  startOfDay(left).getTime() === startOfDay(right).getTime();
+
+/**
+ * Leave for screens that only use it for warnings. A role refused the list
+ * (403) gets no leave; any other failure still reaches the caller.
+ */
+export const listLeaveForChecks = (token: string | null) =>
+  timeOffApi.list(token).catch((err: unknown): TimeOffRequest[] => {
+    if (err instanceof ApiError && err.status === 403) return [];
+    throw err;
+  });
+
+const atMinutes = (day: Date, minutes: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+
+/** One window per day of the request: the partial hours, or the whole day. */
+export function getLeaveWindows(request: TimeOffRequest): LeaveWindow[] {
+  const first = parseDateKey(request.startDate);
+  const last = parseDateKey(request.endDate);
+  if (!first || !last) return [];
+  const windows: LeaveWindow[] = [];
+  for (
+    let day = first;
+    day <= last;
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+  ) {
+    const { partialHours } = request;
+    windows.push({
+      request,
+      start: partialHours ? atMinutes(day, parseClock(partialHours.start)) : day,
+      end: partialHours
+        ? atMinutes(day, parseClock(partialHours.end))
+        : new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1),
+    });
+  }
+  return windows;
+}
+
+/** Approved leave windows of one employee, or of everyone when no id is given. */
+export const getApprovedLeave = (requests: TimeOffRequest[], employeeId?: string | null) =>
+  requests
+    .filter(
+      (item) =>
+        item.status === 'approved' && (!employeeId || item.employee?._id === employeeId),
+    )
+    .flatMap(getLeaveWindows);
+
+/** The approved leave window that overlaps `start`–`end` for the employee, if any. */
+export const findLeaveConflict = (
+  requests: TimeOffRequest[],
+  employeeId: string | null | undefined,
+  start: Date,
+  end: Date,
+) =>
+  employeeId
+    ? getApprovedLeave(requests, employeeId).find(
+        (window) => start < window.end && end > window.start,
+      )
+    : undefined;
+
+/** True when the employee has approved leave touching any part of `day`. */
+export const isOnLeave = (requests: TimeOffRequest[], employeeId: string, day: Date) =>
+  Boolean(
+    findLeaveConflict(
+      requests,
+      employeeId,
+      new Date(day.getFullYear(), day.getMonth(), day.getDate()),
+      new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1),
+    ),
+  );
@@ -0,0 +1,56 @@
+import type { Assignment, EmployeeRef, WorkSchedule } from '@/lib/domain';
+import { isSameDay } from '@/lib/time-off';
+
+/** A checked-in technician and where they stand in today's walk-in rotation. */
+export type TurnCandidate = {
+  employee: EmployeeRef & { _id: string };
+  checkInAt: Date;
+  turns: number;
+  busy: boolean;
+};
+
+/**
+ * Technicians checked in today and not yet checked out, in suggestion order:
+ * fewest walk-in turns first, then free before busy, then earliest check-in.
+ */
+export function rankTurnCandidates(
+  schedules: WorkSchedule[],
+  assignments: Assignment[],
+  now: Date = new Date(),
+): TurnCandidate[] {
+  const checkedIn = new Map<string, TurnCandidate>();
+  schedules.forEach((schedule) => {
+    const employeeId = schedule.employee?._id;
+    if (!employeeId || !schedule.checkInAt || schedule.checkOutAt) return;
+    const checkInAt = new Date(schedule.checkInAt);
+    if (!isSameDay(checkInAt, now)) return;
+    const existing = checkedIn.get(employeeId);
+    if (existing && existing.checkInAt <= checkInAt) return;
+    checkedIn.set(employeeId, {
+      employee: { ...schedule.employee, _id: employeeId },
+      checkInAt,
+      turns: 0,
+      busy: false,
+    });
+  });
+
+  assignments.forEach((assignment) => {
+    const candidate = assignment.employee?._id ? checkedIn.get(assignment.employee._id) : undefined;
+    if (!candidate) return;
+    if (assignment.status === 'in_progress') candidate.busy = true;
+    if (
+      assignment.walkIn &&
+      assignment.status !== 'cancelled' &&
+      isSameDay(new Date(assignment.scheduledAt), now)
+    ) {
+      candidate.turns += 1;
+    }
+  });
+
+  return Array.from(checkedIn.values()).sort(
+    (a, b) =>
+      a.turns - b.turns ||
+      Number(a.busy) - Number(b.busy) ||
+      a.checkInAt.getTime() - b.checkInAt.getTime(),
+  );
+}
@@ -0,0 +1,33 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Walk-ins waiting for a technician. The queue lives on this device, since the
+ * front desk tablet is the only one serving walk-ins, so unlike the read cache
+ * this copy is the only one there is.
+ */
+
+const QUEUE_KEY = 'walk-ins:queue';
+
+export type WalkIn = {
+  id: string;
+  customerId: string;
+  serviceId: string;
+  addedAt: string;
+};
+
+export async function loadWalkInQueue(): Promise<WalkIn[]> {
+  try {
+    const raw = await AsyncStorage.getItem(QUEUE_KEY);
+    return raw ? (JSON.parse(raw) as WalkIn[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveWalkInQueue(queue: WalkIn[]) {
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch {
+    // The queue on screen stays correct; only a restart would lose it.
+  }
+}